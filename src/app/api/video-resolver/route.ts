@@ -1,4 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { createRendition, type StreamRendition } from '../../../utils/adaptiveStreaming';
+import { parseMpd } from '../../../utils/dashManifest';
 
 interface ResolvedVideo {
   success: boolean;
@@ -9,6 +11,8 @@ interface ResolvedVideo {
     format: string;
     size?: number;
   }>;
+  /** Video renditions of an adaptive stream (HLS master playlist or DASH manifest), lowest first */
+  renditions?: StreamRendition[];
   isLive?: boolean;
   error?: string;
   method: string;
@@ -67,7 +71,7 @@ class VideoResolver {
     
     try {
       const lines = manifestText.split('\n');
-      const streams: Array<{ url: string; quality: string; bandwidth: number }> = [];
+      const streams: Array<{ url: string; quality: string; bandwidth: number; width: number; height: number }> = [];
       
       for (let i = 0; i < lines.length; i++) {
         const line = lines[i].trim();
@@ -81,6 +85,7 @@ class VideoResolver {
             
             const bandwidth = bandwidthMatch ? parseInt(bandwidthMatch[1]) : 0;
             const quality = resolutionMatch ? resolutionMatch[1] : `${Math.round(bandwidth / 1000)}k`;
+            const [width, height] = resolutionMatch ? resolutionMatch[1].split('x').map(Number) : [0, 0];
             
             // Resolve relative URL
             const streamUrl = nextLine.startsWith('http') ? nextLine : new URL(nextLine, baseUrl).href;
@@ -88,7 +93,9 @@ class VideoResolver {
             streams.push({
               url: streamUrl,
               quality,
-              bandwidth
+              bandwidth,
+              width,
+              height
             });
           }
         }
@@ -104,8 +111,13 @@ class VideoResolver {
       
       console.log(`🎯 Found ${streams.length} quality levels, selecting: ${bestStream.quality}`);
       
+      const renditions = [...streams]
+        .reverse()
+        .map((stream, index) => createRendition(index, stream.width, stream.height, stream.bandwidth));
+
       // Now parse the media playlist for this quality
-      return this.parseM3U8Manifest(bestStream.url);
+      const result = await this.parseM3U8Manifest(bestStream.url);
+      return result.success ? { ...result, renditions } : result;
       
     } catch (error) {
       console.error('❌ Master playlist parsing failed:', error);
@@ -209,6 +221,62 @@ class VideoResolver {
     }
   }
 
+  // Parse a DASH manifest; playback stays on the manifest (MSE), so report its renditions
+  async parseDashManifest(manifestUrl: string): Promise<ResolvedVideo> {
+    const startTime = Date.now();
+
+    try {
+      console.log(`🔍 Parsing DASH manifest: ${manifestUrl}`);
+
+      const response = await fetch(manifestUrl, {
+        headers: {
+          'User-Agent': this.userAgent,
+          'Accept': 'application/dash+xml,*/*'
+        }
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch manifest: ${response.status}`);
+      }
+
+      const manifest = parseMpd(await response.text(), manifestUrl);
+      const representations = manifest.periods[0].adaptationSets
+        .filter(adaptationSet => adaptationSet.contentType === 'video')
+        .flatMap(adaptationSet => adaptationSet.representations)
+        .sort((a, b) => a.bandwidth - b.bandwidth);
+
+      if (representations.length === 0) {
+        throw new Error('No video representations found');
+      }
+
+      console.log(`📹 Found ${representations.length} video representations in ${manifest.periods.length} period(s), type: ${manifest.type}`);
+
+      return {
+        success: true,
+        videoUrl: manifestUrl,
+        videoUrls: representations.map(representation => ({
+          url: manifestUrl,
+          quality: `${representation.width}x${representation.height}`,
+          format: representation.mimeType.split('/')[1] || 'dash'
+        })),
+        renditions: representations.map((representation, index) =>
+          createRendition(index, representation.width, representation.height, representation.bandwidth)
+        ),
+        isLive: manifest.type === 'dynamic',
+        method: 'dash-manifest',
+        processingTime: Date.now() - startTime
+      };
+    } catch (error) {
+      console.error('❌ DASH manifest parsing failed:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        method: 'dash-parser',
+        processingTime: Date.now() - startTime
+      };
+    }
+  }
+
   // Try alternative extraction methods for different platforms
   async extractDirectVideo(originalUrl: string): Promise<ResolvedVideo> {
     const startTime = Date.now();
@@ -297,6 +365,8 @@ export async function POST(request: NextRequest) {
 
     if (type === 'm3u8' || url.includes('.m3u8')) {
       result = await resolver.parseM3U8Manifest(url);
+    } else if (type === 'mpd' || url.includes('.mpd')) {
+      result = await resolver.parseDashManifest(url);
     } else {
       result = await resolver.extractDirectVideo(url);
     }
@@ -1,25 +1,137 @@
 'use client';
 
 import React, { useState, useRef, useCallback, useEffect } from 'react';
-import { detectVideoPlatform } from '../utils/aiUpscaler';
+import {
+  AIUpscaler,
+  detectVideoPlatform,
+  type ImageEnhancementConfig,
+  type UpscalingConfig
+} from '../utils/aiUpscaler';
+import { createPipelineFromUpscalingConfig, type EnhancementPipeline } from '../utils/enhancementPipeline';
+import { EnhancementWorkerService } from '../utils/enhancementService';
+import { StripeWorkerPool, getDefaultPoolSize } from '../utils/stripeWorkerPool';
+import { PerformanceGovernor, type GovernorStatus } from '../utils/performanceGovernor';
+import { chooseColorMatrix } from '../utils/colorSpace';
+import type { DeinterlaceMode, FieldOrder } from '../utils/deinterlace';
+import { placeInTarget, type FitPolicy } from '../utils/resolutionPresets';
+import { getLut, type LutSelection } from '../utils/colorLut';
+import { toPixelRect, type CropRect } from '../utils/blackBars';
+import { SceneAdaptiveConfig, type SceneInfo } from '../utils/sceneDetection';
+import { fromImageData, writeCanvasFrame, type PixelFrame } from '../utils/pixelFrame';
+import { useHlsPlayer } from '../hooks/useHlsPlayer';
+import { useDashPlayer } from '../hooks/useDashPlayer';
 import { Play, Pause, Volume2, VolumeX, Maximize } from 'lucide-react';
 
+/**
+ * Enhancement choices made outside the player (EnhancementControls); they take precedence
+ * over the settings the player derives from its analysis of the source
+ */
+export interface RenderConfig {
+  /** Stage order to run instead of the one generated from the analysis */
+  pipeline?: EnhancementPipeline;
+  /** Debanding strength, 0-1, instead of the one measured on the source */
+  debanding?: number;
+  /** Deinterlacer to run; when omitted, one is picked if the analysis finds the source interlaced */
+  deinterlace?: DeinterlaceMode;
+  fieldOrder?: FieldOrder;
+  /** Output size instead of the player's own scale factor; may differ from the source's shape */
+  targetResolution?: { width: number; height: number };
+  /** Placement in targetResolution when the shapes differ; pad unless given */
+  fitPolicy?: FitPolicy;
+  /** Colour look applied after the other adjustments */
+  lut?: LutSelection;
+  /** Picture area of the source (black bars detected or edited in ResolutionSelector), as fractions of the frame */
+  crop?: CropRect;
+}
+
 interface ConsolidatedVideoControllerProps {
   url: string;
+  renderConfig?: RenderConfig;
   onResolutionDetected?: (resolution: { width: number; height: number }) => void;
   onVideoElementReady?: (video: HTMLVideoElement) => void;
+  /** Called whenever scene detection finds a new scene while enhancing */
+  onScenesDetected?: (scenes: SceneInfo[]) => void;
   className?: string;
 }
 
+type EnhancementType = 'super-resolution' | 'deep-reconstruction';
+
+/**
+ * off: showing the plain video; active: frames are going through the pipeline;
+ * tainted: the browser refuses pixel access to this source; unavailable: embedded player
+ */
+type EnhancementStatus = 'off' | 'active' | 'tainted' | 'unavailable';
+
+// How often the per-frame timing shown in the status badge is refreshed
+const STATS_INTERVAL_MS = 500;
+
+function isSecurityError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'SecurityError';
+}
+
+/**
+ * A supplied pipeline sizes its resample stages for the source it was built for; the player
+ * decides the output size itself, from its level, the governor and the target placement
+ */
+function resampleTo(pipeline: EnhancementPipeline, width: number, height: number): EnhancementPipeline {
+  return {
+    ...pipeline,
+    stages: pipeline.stages.map(stage => (stage.type === 'resample' ? { ...stage, scale: undefined, width, height } : stage))
+  };
+}
+
+/**
+ * The enhancement worker takes realtime settings; an UpscalingConfig travels as its pipeline
+ */
+function toEnhancementConfig(
+  config: UpscalingConfig,
+  sourceWidth: number,
+  outputSize?: { width: number; height: number }
+): ImageEnhancementConfig {
+  return {
+    algorithm: config.algorithm,
+    scaleFactor: config.targetWidth / sourceWidth,
+    sharpening: config.sharpening,
+    noiseReduction: config.noiseReduction,
+    colorEnhancement: config.colorEnhancement,
+    brightness: 0,
+    contrast: 0,
+    debanding: config.debanding,
+    deinterlace: config.deinterlace,
+    fieldOrder: config.fieldOrder,
+    pipeline: config.pipeline
+      ? resampleTo(config.pipeline, config.targetWidth, config.targetHeight)
+      : createPipelineFromUpscalingConfig(config),
+    memoryLimitMB: config.memoryLimitMB,
+    colorMatrix: config.colorMatrix,
+    outputSize
+  };
+}
+
 export const ConsolidatedVideoController: React.FC<ConsolidatedVideoControllerProps> = ({
   url,
+  renderConfig,
   onResolutionDetected,
   onVideoElementReady,
+  onScenesDetected,
   className = ''
 }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const iframeRef = useRef<HTMLIFrameElement>(null);
   const extractionStateRef = useRef({ lastUrl: '', isExtracting: false });
+  const sourceCanvasRef = useRef<HTMLCanvasElement>(null);
+  const enhancedCanvasRef = useRef<HTMLCanvasElement>(null);
+  // Scenes of the current video, each with its own analysis; the config is rebuilt from them whenever the controls change
+  const sceneConfigRef = useRef<SceneAdaptiveConfig | null>(null);
+  const onScenesDetectedRef = useRef(onScenesDetected);
+  onScenesDetectedRef.current = onScenesDetected;
+  const enhancementParamsRef = useRef<{ type: EnhancementType; level: number }>({ type: 'super-resolution', level: 1.5 });
+  // Bumped on every render config change so a paused frame is rendered again
+  const renderConfigRef = useRef({ config: renderConfig, version: 0 });
+  // Frames are enhanced off the main thread by the worker; without one, on the main thread with a stripe pool
+  const enhancementServiceRef = useRef<EnhancementWorkerService | null>(null);
+  const upscalerRef = useRef<AIUpscaler | null>(null);
+  const governorRef = useRef(new PerformanceGovernor());
   
   // Playback state
   const [isPlaying, setIsPlaying] = useState(false);
@@ -35,9 +147,13 @@ export const ConsolidatedVideoController: React.FC<ConsolidatedVideoControllerPr
 
   // AI Enhancement state
   const [enhancementLevel, setEnhancementLevel] = useState(1.5);
-  const [enhancementType, setEnhancementType] = useState<'super-resolution' | 'deep-reconstruction'>('super-resolution');
+  const [enhancementType, setEnhancementType] = useState<EnhancementType>('super-resolution');
   const [isEnhancing, setIsEnhancing] = useState(false);
-  const [enhancementProgress, setEnhancementProgress] = useState(0);
+  const [enhancementStatus, setEnhancementStatus] = useState<EnhancementStatus>('off');
+  const [frameTime, setFrameTime] = useState(0);
+  const [droppedFrames, setDroppedFrames] = useState(0);
+  const [scenes, setScenes] = useState<SceneInfo[]>([]);
+  const [governorStatus, setGovernorStatus] = useState<GovernorStatus>(() => governorRef.current.getStatus());
 
   // Resolution state
   const [sourceResolution, setSourceResolution] = useState<{ width: number; height: number } | null>(null);
@@ -48,14 +164,30 @@ export const ConsolidatedVideoController: React.FC<ConsolidatedVideoControllerPr
   const [useIframe, setUseIframe] = useState(false);
   const [extractionError, setExtractionError] = useState<string>('');
 
-  // Calculate output resolution based on enhancement level
-  const calculateOutputResolution = useCallback((source: { width: number; height: number }) => {
+  // .m3u8 and .mpd sources (direct or proxied) are attached by a streaming player rather than as a plain src
+  const hls = useHlsPlayer({ videoRef, src: videoSource, enabled: !useIframe });
+  const dash = useDashPlayer({ videoRef, src: videoSource, enabled: !useIframe });
+  const stream = hls.isHls ? hls : dash.isDash ? dash : null;
+
+  // Calculate output resolution based on enhancement level, or the placement in a chosen target
+  const targetResolution = renderConfig?.targetResolution;
+  // A pipeline from the enhancement controls replaces the stages the type select would pick
+  const customPipeline = !!renderConfig?.pipeline;
+  const fitPolicy = renderConfig?.fitPolicy;
+  const crop = renderConfig?.crop;
+  const calculateOutputResolution = useCallback((video: { width: number; height: number }) => {
+    const source = crop ? toPixelRect(crop, video.width, video.height) : video;
+    if (targetResolution) {
+      const placement = placeInTarget(source.width, source.height, targetResolution.width, targetResolution.height, fitPolicy ?? 'pad');
+      setOutputResolution({ width: placement.outputWidth, height: placement.outputHeight });
+      return;
+    }
     const output = {
       width: Math.round(source.width * enhancementLevel),
       height: Math.round(source.height * enhancementLevel)
     };
     setOutputResolution(output);
-  }, [enhancementLevel]);
+  }, [enhancementLevel, targetResolution, fitPolicy, crop]);
 
   // Initialize video source - simple effect that won't loop
   useEffect(() => {
@@ -162,6 +294,32 @@ export const ConsolidatedVideoController: React.FC<ConsolidatedVideoControllerPr
                 setVideoSource(proxyUrl);
                 setUseIframe(false);
               }
+            } else if (megaData.directUrl.includes('.mpd')) {
+              console.log(`🔍 Resolving DASH manifest...`);
+
+              // DASH is played from the proxied manifest by the MSE player; the resolver confirms it parses
+              let manifestUrl = megaData.directUrl;
+              try {
+                const resolverResponse = await fetch('/api/video-resolver', {
+                  method: 'POST',
+                  headers: { 'Content-Type': 'application/json' },
+                  body: JSON.stringify({ url: megaData.directUrl, type: 'mpd' })
+                });
+
+                const resolverData = await resolverResponse.json();
+
+                if (resolverData.success && resolverData.videoUrl) {
+                  console.log(`✅ 🎬 RESOLVED DASH manifest with ${resolverData.renditions?.length ?? 0} renditions in ${resolverData.processingTime}ms`);
+                  manifestUrl = resolverData.videoUrl;
+                } else {
+                  console.log(`⚠️ DASH resolver failed, playing the manifest as is`);
+                }
+              } catch (resolverError) {
+                console.log(`⚠️ DASH resolver error, playing the manifest as is:`, resolverError);
+              }
+
+              setVideoSource(`/api/proxy?url=${encodeURIComponent(manifestUrl)}`);
+              setUseIframe(false);
             } else {
               // Direct video file
               setVideoSource(megaData.directUrl);
@@ -287,42 +445,246 @@ export const ConsolidatedVideoController: React.FC<ConsolidatedVideoControllerPr
     }
   }, [enhancementLevel, sourceResolution, calculateOutputResolution]);
 
-  // AI Enhancement function
-  const enhanceVideo = useCallback(async () => {
-    const video = videoRef.current;
-    if (!video || isEnhancing) return;
+  // The render loop reads the controls from a ref, so changing them never restarts it
+  useEffect(() => {
+    enhancementParamsRef.current = { type: enhancementType, level: enhancementLevel };
+  }, [enhancementType, enhancementLevel]);
 
-    setIsEnhancing(true);
-    setEnhancementProgress(0);
+  useEffect(() => {
+    renderConfigRef.current = { config: renderConfig, version: renderConfigRef.current.version + 1 };
+  }, [renderConfig]);
 
-    try {
-      const progressInterval = setInterval(() => {
-        setEnhancementProgress(prev => {
-          if (prev >= 90) {
-            clearInterval(progressInterval);
-            return 90;
-          }
-          return prev + Math.random() * 10;
-        });
-      }, 200);
-
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
-      clearInterval(progressInterval);
-      setEnhancementProgress(100);
-      
-      console.log(`✨ AI Enhancement applied: ${enhancementType} at ${enhancementLevel}x`);
-      
-      setTimeout(() => {
-        setEnhancementProgress(0);
-        setIsEnhancing(false);
-      }, 1000);
-    } catch (error) {
-      console.error('Enhancement failed:', error);
-      setIsEnhancing(false);
-      setEnhancementProgress(0);
+  // Pick the processing backend once, as DirectVideoEnhancer does
+  useEffect(() => {
+    let pool: StripeWorkerPool | null = null;
+    if (EnhancementWorkerService.isSupported()) {
+      const service = new EnhancementWorkerService();
+      service.start();
+      enhancementServiceRef.current = service;
+    } else {
+      if (StripeWorkerPool.isSupported() && getDefaultPoolSize() >= 3) {
+        pool = new StripeWorkerPool();
+        pool.start();
+      }
+      upscalerRef.current = new AIUpscaler(pool ?? undefined);
+    }
+
+    return () => {
+      enhancementServiceRef.current?.terminate();
+      enhancementServiceRef.current = null;
+      upscalerRef.current = null;
+      pool?.terminate();
+    };
+  }, []);
+
+  // The worker has its own LUT registry; send it the tables the render config refers to
+  useEffect(() => {
+    const service = enhancementServiceRef.current;
+    if (!service || !renderConfig) return;
+
+    const lutIds = (renderConfig.pipeline?.stages ?? []).flatMap(stage => (stage.type === 'lut' ? [stage.lutId] : []));
+    if (renderConfig.lut) {
+      lutIds.push(renderConfig.lut.id);
+    }
+    for (const id of lutIds) {
+      const lut = getLut(id);
+      if (lut) {
+        service.registerLut(lut);
+      }
+    }
+  }, [renderConfig]);
+
+  // A new source needs a new analysis, starts at full quality, and may allow pixel access where the last one didn't
+  useEffect(() => {
+    sceneConfigRef.current = null;
+    setScenes([]);
+    governorRef.current.reset();
+    setGovernorStatus(governorRef.current.getStatus());
+    setDroppedFrames(0);
+    setEnhancementStatus('off');
+  }, [videoSource]);
+
+  const toggleEnhancement = useCallback(() => {
+    setIsEnhancing(enabled => !enabled);
+  }, []);
+
+  // Render the video through the upscaling pipeline while enhancement is on. The loop only
+  // captures frames; enhancement runs in the worker, and frames that arrive while it is busy are dropped.
+  useEffect(() => {
+    if (!isEnhancing) {
+      setEnhancementStatus(status => (status === 'tainted' ? status : 'off'));
+      return;
+    }
+    if (useIframe) {
+      setEnhancementStatus('unavailable');
+      return;
     }
-  }, [enhancementLevel, enhancementType, isEnhancing]);
+
+    const video = videoRef.current;
+    const sourceCanvas = sourceCanvasRef.current;
+    const enhancedCanvas = enhancedCanvasRef.current;
+    const ctx = sourceCanvas?.getContext('2d', { willReadFrequently: true });
+    if (!video || !sourceCanvas || !enhancedCanvas || !ctx) return;
+
+    const governor = governorRef.current;
+    let animationId: number | null = null;
+    let cancelled = false;
+    let renderedKey = '';
+    // Newest frame waiting for the worker; a newer one replacing it means it was dropped
+    let waitingKey: string | null = null;
+    let upscalerBusy = false;
+    // Target the scene configs were last generated for
+    let sceneBase = { targetWidth: 0, targetHeight: 0 };
+    let statsTime = 0;
+
+    const stop = () => {
+      if (animationId !== null) {
+        cancelAnimationFrame(animationId);
+        animationId = null;
+      }
+    };
+
+    const fail = (error: unknown) => {
+      stop();
+      if (isSecurityError(error)) {
+        // Cross-origin source without CORS: the canvas is tainted and its pixels can't be read
+        setEnhancementStatus('tainted');
+      } else {
+        console.error('Enhancement failed:', error);
+        setEnhancementStatus('off');
+      }
+      setIsEnhancing(false);
+    };
+
+    const showFrame = (frame: PixelFrame, processingTime: number) => {
+      if (cancelled) return;
+      writeCanvasFrame(enhancedCanvas, frame);
+      setEnhancementStatus('active');
+
+      governor.recordFrame(processingTime);
+      const now = performance.now();
+      if (now - statsTime > STATS_INTERVAL_MS) {
+        statsTime = now;
+        setFrameTime(processingTime);
+        setGovernorStatus(governor.getStatus());
+      }
+    };
+
+    const processFrame = () => {
+      animationId = requestAnimationFrame(processFrame);
+      if (video.readyState < video.HAVE_CURRENT_DATA || !video.videoWidth) return;
+
+      // Paused video is re-rendered only when the controls change
+      const { type, level } = enhancementParamsRef.current;
+      const { config: overrides, version } = renderConfigRef.current;
+      const key = `${video.currentTime}:${type}:${level}:${version}`;
+      if (key === renderedKey) return;
+
+      const service = enhancementServiceRef.current;
+      const upscaler = upscalerRef.current;
+      if (service ? service.isBusy : upscalerBusy || !upscaler) {
+        if (waitingKey !== null && waitingKey !== key) {
+          setDroppedFrames(count => count + 1);
+        }
+        waitingKey = key;
+        return;
+      }
+      waitingKey = null;
+      renderedKey = key;
+
+      // Captured at the governor's processing scale, so cheaper levels also capture less. The crop
+      // leaves the black bars out; a target of another shape then decides which part of the picture
+      // is captured and where it lands.
+      governor.recordMediaTime(video.currentTime);
+      const scale = governor.level.processingScale;
+      const picture = overrides?.crop
+        ? toPixelRect(overrides.crop, video.videoWidth, video.videoHeight)
+        : { x: 0, y: 0, width: video.videoWidth, height: video.videoHeight };
+      const target = overrides?.targetResolution;
+      const placement = target
+        ? placeInTarget(picture.width, picture.height, target.width, target.height, overrides.fitPolicy ?? 'pad')
+        : null;
+      const source = placement
+        ? { ...placement.sourceRect, x: picture.x + placement.sourceRect.x, y: picture.y + placement.sourceRect.y }
+        : picture;
+      const width = Math.max(1, Math.round(source.width * scale));
+      const height = Math.max(1, Math.round(source.height * scale));
+      if (sourceCanvas.width !== width || sourceCanvas.height !== height) {
+        sourceCanvas.width = width;
+        sourceCanvas.height = height;
+      }
+
+      let imageData: ImageData;
+      try {
+        ctx.drawImage(video, source.x, source.y, source.width, source.height, 0, 0, width, height);
+        imageData = ctx.getImageData(0, 0, width, height);
+      } catch (error) {
+        fail(error);
+        return;
+      }
+
+      // Scene analysis must see the frame before it goes to the worker; each cut re-analyses
+      const base = placement
+        ? { targetWidth: Math.round(placement.width * scale), targetHeight: Math.round(placement.height * scale) }
+        : { targetWidth: Math.round(width * level), targetHeight: Math.round(height * level) };
+      let sceneConfig = sceneConfigRef.current;
+      if (!sceneConfig) {
+        sceneConfig = sceneConfigRef.current = new SceneAdaptiveConfig(base);
+      } else if (base.targetWidth !== sceneBase.targetWidth || base.targetHeight !== sceneBase.targetHeight) {
+        sceneConfig.setBaseConfig(base);
+      }
+      sceneBase = base;
+
+      const sceneCount = sceneConfig.getScenes().length;
+      const generated = sceneConfig.update(fromImageData(imageData), video.currentTime);
+      const detected = sceneConfig.getScenes();
+      if (detected.length !== sceneCount) {
+        setScenes(detected);
+        onScenesDetectedRef.current?.(detected);
+      }
+
+      const outputSize = placement
+        ? { width: Math.round(placement.outputWidth * scale), height: Math.round(placement.outputHeight * scale) }
+        : undefined;
+      const config = governor.applyTo(toEnhancementConfig({
+        ...generated,
+        algorithm: type,
+        debanding: overrides?.debanding ?? generated.debanding,
+        deinterlace: overrides?.deinterlace ?? generated.deinterlace,
+        fieldOrder: overrides?.fieldOrder ?? generated.fieldOrder,
+        lut: overrides?.lut,
+        pipeline: overrides?.pipeline,
+        // Frames may be captured below source size, which would otherwise pass for SD
+        colorMatrix: chooseColorMatrix(video.videoWidth, video.videoHeight)
+      }, width, outputSize));
+
+      if (service) {
+        service.enhance(imageData, config)
+          ?.then(({ imageData: enhanced, processingTime }) => showFrame(enhanced, processingTime))
+          .catch(error => {
+            if (!cancelled) fail(error);
+          });
+      } else if (upscaler) {
+        upscalerBusy = true;
+        const startTime = performance.now();
+        upscaler.enhanceImageData(fromImageData(imageData), config)
+          .then(enhanced => showFrame(enhanced, performance.now() - startTime))
+          .catch(error => {
+            if (!cancelled) fail(error);
+          })
+          .finally(() => {
+            upscalerBusy = false;
+          });
+      }
+    };
+
+    processFrame();
+
+    return () => {
+      cancelled = true;
+      stop();
+    };
+  }, [isEnhancing, useIframe, videoSource]);
 
   // Playback controls
   const togglePlayPause = useCallback(() => {
@@ -395,10 +757,10 @@ export const ConsolidatedVideoController: React.FC<ConsolidatedVideoControllerPr
       )}
 
       {/* Error overlay */}
-      {error && (
+      {(error || stream?.error) && (
         <div className="absolute inset-0 bg-red-500/20 flex items-center justify-center z-20">
           <div className="text-white text-center p-4">
-            <p>❌ {error}</p>
+            <p>❌ {stream?.error || error}</p>
             {extractionError && <p className="text-sm opacity-75">{extractionError}</p>}
           </div>
         </div>
@@ -417,28 +779,55 @@ export const ConsolidatedVideoController: React.FC<ConsolidatedVideoControllerPr
       ) : (
         <video
           ref={videoRef}
-          src={videoSource}
+          src={stream ? undefined : videoSource}
           className="w-full h-full"
           playsInline
           controls={useIframe}
         />
       )}
 
-      {/* AI Enhancement Progress */}
-      {isEnhancing && (
-        <div className="absolute bottom-20 left-4 right-4 z-30">
-          <div className="bg-black/80 rounded-lg p-3">
-            <div className="flex items-center gap-2 mb-2">
-              <div className="animate-pulse">✨</div>
-              <span className="text-white text-sm">AI Enhancement: {enhancementType}</span>
-              <span className="text-blue-400 text-sm">{enhancementProgress.toFixed(0)}%</span>
-            </div>
-            <div className="w-full bg-gray-700 rounded-full h-2">
-              <div 
-                className="bg-gradient-to-r from-blue-500 to-purple-500 h-2 rounded-full transition-all"
-                style={{ width: `${enhancementProgress}%` }}
-              />
-            </div>
+      {/* Enhanced frames, drawn over the video they come from */}
+      {!useIframe && (
+        <>
+          <canvas ref={sourceCanvasRef} className="hidden" />
+          <canvas
+            ref={enhancedCanvasRef}
+            className={`absolute inset-0 w-full h-full object-contain bg-black ${enhancementStatus === 'active' ? '' : 'hidden'}`}
+          />
+        </>
+      )}
+
+      {/* AI Enhancement Status */}
+      {enhancementStatus !== 'off' && (
+        <div className="absolute top-4 left-4 z-30 max-w-sm">
+          <div className="bg-black/80 rounded-lg p-3 text-sm">
+            {enhancementStatus === 'active' && (
+              <div className="flex items-center gap-2 text-white">
+                <div className="w-2 h-2 bg-green-400 rounded-full animate-pulse" />
+                <span>
+                  {customPipeline ? 'Custom pipeline' : enhancementType === 'super-resolution' ? 'Super Resolution' : 'Deep Reconstruction'} {enhancementLevel.toFixed(1)}×
+                </span>
+                <span className="text-blue-400">{frameTime.toFixed(0)} ms/frame</span>
+              </div>
+            )}
+            {enhancementStatus === 'active' && (
+              <div className={`text-xs mt-1 ${governorStatus.level > 0 ? 'text-yellow-300' : 'text-gray-300'}`}>
+                {governorStatus.name} ({governorStatus.level + 1}/{governorStatus.levelCount}) • budget {Math.round(governorStatus.budgetMs)}ms @ {governorStatus.frameRate}fps
+                {droppedFrames > 0 && ` • ${droppedFrames} frames dropped`}
+                {scenes.length > 1 && ` • ${scenes.length} scenes`}
+              </div>
+            )}
+            {enhancementStatus === 'tainted' && (
+              <p className="text-yellow-300">
+                Enhancement unavailable: this source is cross-origin without CORS, so the browser blocks
+                access to its pixels. Playing the original video.
+              </p>
+            )}
+            {enhancementStatus === 'unavailable' && (
+              <p className="text-yellow-300">
+                Enhancement unavailable: embedded players can&apos;t be processed. Playing the original video.
+              </p>
+            )}
           </div>
         </div>
       )}
@@ -463,6 +852,23 @@ export const ConsolidatedVideoController: React.FC<ConsolidatedVideoControllerPr
             </div>
           </div>
 
+          {/* Scenes detected while enhancing; click one to jump to its start */}
+          {scenes.length > 1 && duration > 0 && (
+            <div className="flex flex-wrap gap-1 mb-3 text-xs">
+              <span className="text-gray-300 mr-1">Scenes:</span>
+              {scenes.map((scene, index) => (
+                <button
+                  key={scene.start}
+                  onClick={() => handleSeek((scene.start / duration) * 100)}
+                  className="px-2 py-0.5 bg-black/50 hover:bg-black/70 rounded text-white"
+                  title={`Scene ${index + 1}: ${scene.metrics.quality}, lighting ${Math.round(scene.metrics.lightingQuality * 100)}%`}
+                >
+                  {formatTime(scene.start)}
+                </button>
+              ))}
+            </div>
+          )}
+
           {/* Control buttons */}
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-4">
@@ -494,15 +900,48 @@ export const ConsolidatedVideoController: React.FC<ConsolidatedVideoControllerPr
               <span className="text-white text-sm">
                 {formatTime(currentTime)} / {formatTime(duration)}
               </span>
+
+              {stream && (
+                <span
+                  className={`text-xs ${
+                    stream.bufferAhead < 2 ? 'text-red-400' : stream.bufferAhead < 5 ? 'text-yellow-400' : 'text-green-400'
+                  }`}
+                  title="Video buffered ahead of the playhead"
+                >
+                  {stream.recovering ? `Recovering from ${stream.recovering} error…` : `Buffer ${stream.bufferAhead.toFixed(1)}s`}
+                </span>
+              )}
             </div>
 
             <div className="flex items-center gap-2">
+              {/* Stream rendition */}
+              {hls.mode === 'native' && (
+                <span className="text-white/70 text-xs" title="The browser picks the rendition">HLS · Auto</span>
+              )}
+              {stream && hls.mode !== 'native' && stream.renditions.length > 0 && (
+                <select
+                  value={stream.autoQuality ? -1 : stream.currentRendition}
+                  onChange={(e) => stream.selectRendition(parseInt(e.target.value, 10))}
+                  className="bg-black/50 text-white text-xs rounded px-2 py-1"
+                  title="Stream quality"
+                >
+                  <option value={-1}>
+                    Auto{stream.autoQuality && stream.renditions[stream.currentRendition] ? ` (${stream.renditions[stream.currentRendition].label})` : ''}
+                  </option>
+                  {stream.renditions.map(rendition => (
+                    <option key={rendition.index} value={rendition.index}>{rendition.label}</option>
+                  ))}
+                </select>
+              )}
+
               {/* AI Enhancement Controls */}
               <div className="flex items-center gap-2 mr-4">
                 <select
                   value={enhancementType}
-                  onChange={(e) => setEnhancementType(e.target.value as 'super-resolution' | 'deep-reconstruction')}
-                  className="bg-black/50 text-white text-xs rounded px-2 py-1"
+                  onChange={(e) => setEnhancementType(e.target.value as EnhancementType)}
+                  disabled={customPipeline}
+                  className="bg-black/50 text-white text-xs rounded px-2 py-1 disabled:opacity-50"
+                  title={customPipeline ? 'The pipeline from the enhancement controls picks the algorithm' : undefined}
                 >
                   <option value="super-resolution">Super Resolution</option>
                   <option value="deep-reconstruction">Deep Reconstruction</option>
@@ -519,11 +958,15 @@ export const ConsolidatedVideoController: React.FC<ConsolidatedVideoControllerPr
                 />
                 
                 <button
-                  onClick={enhanceVideo}
-                  disabled={isEnhancing}
-                  className="bg-gradient-to-r from-blue-500 to-purple-500 text-white px-3 py-1 rounded text-xs hover:from-blue-600 hover:to-purple-600 disabled:opacity-50"
+                  onClick={toggleEnhancement}
+                  aria-pressed={isEnhancing}
+                  className={`text-white px-3 py-1 rounded text-xs ${
+                    isEnhancing
+                      ? 'bg-gradient-to-r from-blue-500 to-purple-500 hover:from-blue-600 hover:to-purple-600'
+                      : 'bg-gray-700 hover:bg-gray-600'
+                  }`}
                 >
-                  {isEnhancing ? '...' : '✨ AI'}
+                  {isEnhancing ? '✨ AI On' : '✨ AI Off'}
                 </button>
               </div>
 
@@ -1,14 +1,29 @@
 'use client';
 
 import React, { useRef, useEffect, useState, useCallback } from 'react';
-import { Play, Pause, Volume2, VolumeX, Maximize, Settings, Zap, Eye } from 'lucide-react';
-import { AIUpscaler } from '@/utils/aiUpscaler';
+import { Play, Pause, Volume2, VolumeX, Maximize, Settings, Zap, Eye, Layers, Download } from 'lucide-react';
+import { AIUpscaler, type ImageEnhancementConfig } from '@/utils/aiUpscaler';
+import { EnhancementWorkerService } from '@/utils/enhancementService';
+import { StripeWorkerPool, getDefaultPoolSize } from '@/utils/stripeWorkerPool';
+import { clonePixelFrame, fromImageData, writeCanvasFrame, type PixelFrame } from '@/utils/pixelFrame';
+import { createPipelineFromEnhancementConfig, type EnhancementPipeline } from '@/utils/enhancementPipeline';
+import { FrameInterpolator, type InterpolationMode } from '@/utils/frameInterpolation';
+import { exportInterpolatedVideo, isVideoExportSupported } from '@/utils/videoExport';
+import { compareFrames, QualityMetricsAccumulator, type ClipQualitySummary, type FrameQualityMetrics } from '@/utils/qualityMetrics';
+import { PerformanceGovernor, type GovernorStatus } from '@/utils/performanceGovernor';
+import { getLut } from '@/utils/colorLut';
+import { chooseColorMatrix } from '@/utils/colorSpace';
+import { PipelineEditor } from './PipelineEditor';
+
+// Enhanced frames between full-reference quality samples
+const QUALITY_SAMPLE_INTERVAL = 30;
 
 interface DirectVideoEnhancerProps {
   videoUrl: string;
   originalResolution?: string;
   targetResolution?: string;
   title?: string;
+  pipeline?: EnhancementPipeline;
   onEnhancementChange?: (isEnhancing: boolean) => void;
 }
 
@@ -19,18 +34,29 @@ interface EnhancementSettings {
   colorEnhancement: number;
   brightness: number;
   contrast: number;
+  temporalDenoise: number;
 }
 
 export default function DirectVideoEnhancer({
   videoUrl,
   originalResolution = 'auto',
   targetResolution = '1080p',
+  pipeline,
   onEnhancementChange
 }: DirectVideoEnhancerProps) {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const enhancedCanvasRef = useRef<HTMLCanvasElement>(null);
   const animationFrameRef = useRef<number | null>(null);
+  const enhancementServiceRef = useRef<EnhancementWorkerService | null>(null);
+  const upscalerRef = useRef<AIUpscaler | null>(null);
+  const stripePoolRef = useRef<StripeWorkerPool | null>(null);
+  const interpolatorRef = useRef<FrameInterpolator | null>(null);
+  const lastPushRef = useRef({ time: 0, interval: 1000 / 30 });
+  const lastMediaTimeRef = useRef(-1);
+  const qualityAccumulatorRef = useRef(new QualityMetricsAccumulator());
+  const qualitySampleRef = useRef(0);
+  const governorRef = useRef(new PerformanceGovernor());
   
   const [isPlaying, setIsPlaying] = useState(false);
   const [isMuted, setIsMuted] = useState(false);
@@ -41,7 +67,8 @@ export default function DirectVideoEnhancer({
   const [processingStats, setProcessingStats] = useState({
     fps: 0,
     processingTime: 0,
-    frameCount: 0
+    frameCount: 0,
+    droppedFrames: 0
   });
 
   const [enhancementSettings, setEnhancementSettings] = useState<EnhancementSettings>({
@@ -50,8 +77,170 @@ export default function DirectVideoEnhancer({
     noiseReduction: 0.5,
     colorEnhancement: 0.2,
     brightness: 0.1,
-    contrast: 0.1
+    contrast: 0.1,
+    temporalDenoise: 0.4
   });
+  const [customPipeline, setCustomPipeline] = useState<EnhancementPipeline | undefined>(pipeline);
+  const [showPipeline, setShowPipeline] = useState(false);
+  const [interpolationMode, setInterpolationMode] = useState<'off' | InterpolationMode>('off');
+  const [exportFps, setExportFps] = useState({ source: 30, target: 60 });
+  const [exportProgress, setExportProgress] = useState<number | null>(null);
+  const [measureQuality, setMeasureQuality] = useState(false);
+  const [autoQuality, setAutoQuality] = useState(true);
+  const [governorStatus, setGovernorStatus] = useState<GovernorStatus>(() => governorRef.current.getStatus());
+  const [qualityStats, setQualityStats] = useState<{ frame: FrameQualityMetrics; clip: ClipQualitySummary } | null>(null);
+
+  useEffect(() => {
+    setCustomPipeline(pipeline);
+  }, [pipeline]);
+
+  // Pick the processing backend once: the enhancement worker keeps every stage off the main
+  // thread (and runs its own stripe pool on multi-core machines). Without OffscreenCanvas the
+  // main thread enhances, handing stripe filters to a pool where workers exist.
+  useEffect(() => {
+    if (EnhancementWorkerService.isSupported()) {
+      const service = new EnhancementWorkerService();
+      service.start();
+      enhancementServiceRef.current = service;
+    } else if (StripeWorkerPool.isSupported() && getDefaultPoolSize() >= 3) {
+      const pool = new StripeWorkerPool();
+      pool.start();
+      stripePoolRef.current = pool;
+      upscalerRef.current = new AIUpscaler(pool);
+    } else {
+      upscalerRef.current = new AIUpscaler();
+    }
+
+    const interpolator = new FrameInterpolator();
+    // Half a 60Hz display frame; slower synthesis falls back to blending
+    interpolator.budgetMs = 8;
+    interpolatorRef.current = interpolator;
+
+    return () => {
+      enhancementServiceRef.current?.terminate();
+      enhancementServiceRef.current = null;
+      stripePoolRef.current?.terminate();
+      stripePoolRef.current = null;
+    };
+  }, []);
+
+  // The worker has its own LUT registry; send it the tables the pipeline refers to
+  useEffect(() => {
+    const service = enhancementServiceRef.current;
+    if (!service || !customPipeline) return;
+
+    for (const stage of customPipeline.stages) {
+      const lut = stage.type === 'lut' ? getLut(stage.lutId) : undefined;
+      if (lut) {
+        service.registerLut(lut);
+      }
+    }
+  }, [customPipeline]);
+
+  // Temporal history must not span a seek or a new source
+  const resetTemporalHistory = useCallback(() => {
+    upscalerRef.current?.temporalDenoiser.reset();
+    enhancementServiceRef.current?.resetTemporalHistory();
+    interpolatorRef.current?.reset();
+    lastMediaTimeRef.current = -1;
+  }, []);
+
+  useEffect(() => {
+    if (interpolatorRef.current && interpolationMode !== 'off') {
+      interpolatorRef.current.mode = interpolationMode;
+    }
+    interpolatorRef.current?.reset();
+    lastMediaTimeRef.current = -1;
+  }, [interpolationMode]);
+
+  const getEnhancementConfig = useCallback((): ImageEnhancementConfig => ({
+    algorithm: 'super-resolution',
+    scaleFactor: enhancementSettings.upscaling,
+    sharpening: enhancementSettings.sharpening,
+    noiseReduction: enhancementSettings.noiseReduction,
+    colorEnhancement: enhancementSettings.colorEnhancement,
+    brightness: enhancementSettings.brightness,
+    contrast: enhancementSettings.contrast,
+    pipeline: customPipeline,
+    temporalDenoise: enhancementSettings.temporalDenoise,
+    // Frames may be captured below source size, which would otherwise pass for SD
+    colorMatrix: videoRef.current ? chooseColorMatrix(videoRef.current.videoWidth, videoRef.current.videoHeight) : undefined
+  }), [enhancementSettings, customPipeline]);
+
+  useEffect(() => {
+    resetTemporalHistory();
+  }, [videoUrl, resetTemporalHistory]);
+
+  useEffect(() => {
+    qualityAccumulatorRef.current.reset();
+    setQualityStats(null);
+  }, [videoUrl]);
+
+  // Each source starts at full quality; turning the governor off returns to it too
+  useEffect(() => {
+    governorRef.current.reset();
+    setGovernorStatus(governorRef.current.getStatus());
+  }, [videoUrl, autoQuality]);
+
+  // Full-reference metrics are too slow for every frame, so one frame in QUALITY_SAMPLE_INTERVAL is scored
+  const shouldSampleQuality = useCallback(() => {
+    return measureQuality && qualitySampleRef.current++ % QUALITY_SAMPLE_INTERVAL === 0;
+  }, [measureQuality]);
+
+  const recordQuality = useCallback((reference: PixelFrame, enhanced: PixelFrame, timestamp: number) => {
+    try {
+      const frame = compareFrames(reference, enhanced, timestamp);
+      qualityAccumulatorRef.current.add(frame);
+      setQualityStats({ frame, clip: qualityAccumulatorRef.current.getSummary() });
+    } catch (error) {
+      // Pipelines that shrink the frame have no meaningful comparison against the source
+      console.warn('Quality measurement skipped:', error);
+    }
+  }, []);
+
+  const drawEnhancedFrame = useCallback((frame: PixelFrame, processingTime: number) => {
+    const enhancedCanvas = enhancedCanvasRef.current;
+    if (!enhancedCanvas) return;
+
+    const interpolator = interpolatorRef.current;
+    if (interpolator && interpolationMode !== 'off') {
+      // Shown by presentInterpolatedFrame, one source frame behind, as the loop catches up to it
+      const now = performance.now();
+      const push = lastPushRef.current;
+      if (push.time > 0) {
+        push.interval = Math.min(200, Math.max(1, now - push.time));
+      }
+      push.time = now;
+      interpolator.push(frame);
+    } else {
+      writeCanvasFrame(enhancedCanvas, frame);
+    }
+
+    setProcessingStats(prev => ({
+      ...prev,
+      fps: Math.round(1000 / Math.max(processingTime, 1)),
+      processingTime: Math.round(processingTime),
+      frameCount: prev.frameCount + 1
+    }));
+
+    if (autoQuality) {
+      const governor = governorRef.current;
+      governor.recordFrame(processingTime);
+      setGovernorStatus(governor.getStatus());
+    }
+  }, [interpolationMode, autoQuality]);
+
+  const presentInterpolatedFrame = useCallback(() => {
+    const interpolator = interpolatorRef.current;
+    const enhancedCanvas = enhancedCanvasRef.current;
+    if (!interpolator?.ready || !enhancedCanvas) return;
+
+    const { time, interval } = lastPushRef.current;
+    const frame = interpolator.interpolate(Math.min(1, (performance.now() - time) / interval));
+    if (frame) {
+      writeCanvasFrame(enhancedCanvas, frame);
+    }
+  }, []);
 
   // Video frame processing loop
   const processFrame = useCallback(async () => {
@@ -71,48 +260,83 @@ export default function DirectVideoEnhancer({
     const startTime = performance.now();
 
     try {
-      // Draw current frame to working canvas
-      canvas.width = video.videoWidth;
-      canvas.height = video.videoHeight;
-      ctx.drawImage(video, 0, 0);
-
       if (isEnhancing) {
-        // Get image data for processing
-        const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-        
-        // Apply AI enhancements
-        const aiUpscaler = new AIUpscaler();
-        const enhancedImageData = await aiUpscaler.enhanceImageData(
-          imageData,
-          {
-            algorithm: 'super-resolution',
-            scaleFactor: enhancementSettings.upscaling,
-            sharpening: enhancementSettings.sharpening,
-            noiseReduction: enhancementSettings.noiseReduction,
-            colorEnhancement: enhancementSettings.colorEnhancement,
-            brightness: enhancementSettings.brightness,
-            contrast: enhancementSettings.contrast
+        const interpolating = interpolationMode !== 'off';
+        if (interpolating) {
+          presentInterpolatedFrame();
+        }
+
+        // While interpolating, repeated video frames are covered by synthesized ones
+        const isNewFrame = !interpolating || video.currentTime !== lastMediaTimeRef.current;
+        lastMediaTimeRef.current = video.currentTime;
+
+        if (isNewFrame) {
+          const governor = governorRef.current;
+          governor.recordMediaTime(video.currentTime);
+          const config = autoQuality ? governor.applyTo(getEnhancementConfig()) : getEnhancementConfig();
+          const processingScale = autoQuality ? governor.level.processingScale : 1;
+          const width = Math.max(1, Math.round(video.videoWidth * processingScale));
+          const height = Math.max(1, Math.round(video.videoHeight * processingScale));
+          const service = enhancementServiceRef.current;
+
+          if (service) {
+            // Drop the frame rather than queue it while the worker is still busy
+            if (service.isBusy) {
+              setProcessingStats(prev => ({ ...prev, droppedFrames: prev.droppedFrames + 1 }));
+            } else {
+              const timestamp = video.currentTime;
+              let reference: PixelFrame | null = null;
+              if (shouldSampleQuality()) {
+                canvas.width = width;
+                canvas.height = height;
+                ctx.drawImage(video, 0, 0, width, height);
+                reference = fromImageData(ctx.getImageData(0, 0, width, height));
+              }
+
+              const bitmap = processingScale < 1
+                ? await createImageBitmap(video, { resizeWidth: width, resizeHeight: height, resizeQuality: 'medium' })
+                : await createImageBitmap(video);
+              service.enhance(bitmap, config)
+                ?.then(({ imageData, processingTime }) => {
+                  drawEnhancedFrame(imageData, processingTime);
+                  if (reference) recordQuality(reference, imageData, timestamp);
+                })
+                .catch(error => console.error('Worker enhancement error:', error));
+            }
+          } else {
+            // Main thread, with the heavy filters split across the stripe pool when available
+            canvas.width = width;
+            canvas.height = height;
+            ctx.drawImage(video, 0, 0, width, height);
+
+            const imageData = fromImageData(ctx.getImageData(0, 0, width, height));
+            // Some stages work in place, so the reference must be copied before enhancing
+            const reference = shouldSampleQuality() ? clonePixelFrame(imageData) : null;
+            const aiUpscaler = upscalerRef.current ?? new AIUpscaler();
+            const enhancedImageData = await aiUpscaler.enhanceImageData(imageData, config);
+
+            drawEnhancedFrame(enhancedImageData, performance.now() - startTime);
+            if (reference) recordQuality(reference, enhancedImageData, video.currentTime);
           }
-        );
-
-        // Draw enhanced frame
-        enhancedCanvas.width = enhancedImageData.width;
-        enhancedCanvas.height = enhancedImageData.height;
-        enhancedCtx.putImageData(enhancedImageData, 0, 0);
+        }
       } else {
         // Direct copy when not enhancing
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+        ctx.drawImage(video, 0, 0);
+
         enhancedCanvas.width = canvas.width;
         enhancedCanvas.height = canvas.height;
         enhancedCtx.drawImage(canvas, 0, 0);
-      }
 
-      // Update processing stats
-      const processingTime = performance.now() - startTime;
-      setProcessingStats(prev => ({
-        fps: Math.round(1000 / processingTime),
-        processingTime: Math.round(processingTime),
-        frameCount: prev.frameCount + 1
-      }));
+        const processingTime = performance.now() - startTime;
+        setProcessingStats(prev => ({
+          ...prev,
+          fps: Math.round(1000 / Math.max(processingTime, 1)),
+          processingTime: Math.round(processingTime),
+          frameCount: prev.frameCount + 1
+        }));
+      }
 
     } catch (error) {
       console.error('Frame processing error:', error);
@@ -120,7 +344,7 @@ export default function DirectVideoEnhancer({
 
     // Schedule next frame
     animationFrameRef.current = requestAnimationFrame(processFrame);
-  }, [isEnhancing, enhancementSettings]);
+  }, [isEnhancing, interpolationMode, autoQuality, getEnhancementConfig, drawEnhancedFrame, presentInterpolatedFrame, shouldSampleQuality, recordQuality]);
 
   // Start/stop processing when video plays/pauses
   useEffect(() => {
@@ -167,6 +391,43 @@ export default function DirectVideoEnhancer({
     }
   };
 
+  // Slider edits rebuild the pipeline from the sliders, dropping any hand-edited stage order
+  const updateSetting = (key: keyof EnhancementSettings, value: number) => {
+    setEnhancementSettings(prev => ({ ...prev, [key]: value }));
+    setCustomPipeline(undefined);
+  };
+
+  // Offline export runs on its own upscaler so it does not disturb the live temporal history
+  const handleExport = async () => {
+    const video = videoRef.current;
+    if (!video || exportProgress !== null) return;
+
+    const exporter = new AIUpscaler();
+    const config = getEnhancementConfig();
+    setExportProgress(0);
+
+    try {
+      const blob = await exportInterpolatedVideo(video, {
+        sourceFps: exportFps.source,
+        targetFps: exportFps.target,
+        interpolation: 'motion',
+        enhance: isEnhancing ? (frame) => exporter.enhanceImageData(frame, config) : undefined,
+        onProgress: setExportProgress
+      });
+
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `enhanced-${exportFps.target}fps.webm`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Video export failed:', error);
+    } finally {
+      setExportProgress(null);
+    }
+  };
+
   const toggleEnhancement = () => {
     const newEnhancing = !isEnhancing;
     setIsEnhancing(newEnhancing);
@@ -191,6 +452,7 @@ export default function DirectVideoEnhancer({
         onTimeUpdate={handleTimeUpdate}
         onLoadedMetadata={handleLoadedMetadata}
         onVolumeChange={handleVolumeChange}
+        onSeeking={resetTemporalHistory}
         crossOrigin="anonymous"
         preload="metadata"
       />
@@ -292,9 +554,29 @@ export default function DirectVideoEnhancer({
           <div className="text-xs text-gray-300 mt-1">
             {processingStats.fps} FPS • {processingStats.processingTime}ms/frame
           </div>
+          {autoQuality && (
+            <div className={`text-xs ${governorStatus.level > 0 ? 'text-yellow-300' : 'text-gray-300'}`}>
+              {governorStatus.name} ({governorStatus.level + 1}/{governorStatus.levelCount}) • budget {Math.round(governorStatus.budgetMs)}ms @ {governorStatus.frameRate}fps
+            </div>
+          )}
+          {processingStats.droppedFrames > 0 && (
+            <div className="text-xs text-yellow-300">
+              {processingStats.droppedFrames} frames dropped
+            </div>
+          )}
           <div className="text-xs text-gray-300">
             {originalResolution} → {targetResolution}
           </div>
+          {measureQuality && qualityStats && (
+            <div className="text-xs text-gray-300 mt-1 border-t border-gray-600 pt-1">
+              <div>
+                PSNR {qualityStats.frame.psnr.toFixed(1)} dB • SSIM {qualityStats.frame.ssim.toFixed(3)} • MS-SSIM {qualityStats.frame.msSsim.toFixed(3)}
+              </div>
+              <div className="text-gray-400">
+                Clip ({qualityStats.clip.frames}): {qualityStats.clip.meanPsnr.toFixed(1)} dB • SSIM {qualityStats.clip.meanSsim.toFixed(3)} (min {qualityStats.clip.minSsim.toFixed(3)})
+              </div>
+            </div>
+          )}
         </div>
       )}
 
@@ -314,10 +596,7 @@ export default function DirectVideoEnhancer({
               max={4}
               step={0.1}
               value={enhancementSettings.upscaling}
-              onChange={(e) => setEnhancementSettings(prev => ({
-                ...prev,
-                upscaling: parseFloat(e.target.value)
-              }))}
+              onChange={(e) => updateSetting('upscaling', parseFloat(e.target.value))}
               className="w-full h-1 bg-gray-600 rounded appearance-none cursor-pointer"
             />
           </div>
@@ -330,10 +609,7 @@ export default function DirectVideoEnhancer({
               max={1}
               step={0.05}
               value={enhancementSettings.sharpening}
-              onChange={(e) => setEnhancementSettings(prev => ({
-                ...prev,
-                sharpening: parseFloat(e.target.value)
-              }))}
+              onChange={(e) => updateSetting('sharpening', parseFloat(e.target.value))}
               className="w-full h-1 bg-gray-600 rounded appearance-none cursor-pointer"
             />
           </div>
@@ -346,13 +622,109 @@ export default function DirectVideoEnhancer({
               max={1}
               step={0.05}
               value={enhancementSettings.noiseReduction}
-              onChange={(e) => setEnhancementSettings(prev => ({
-                ...prev,
-                noiseReduction: parseFloat(e.target.value)
-              }))}
+              onChange={(e) => updateSetting('noiseReduction', parseFloat(e.target.value))}
+              className="w-full h-1 bg-gray-600 rounded appearance-none cursor-pointer"
+            />
+          </div>
+
+          <div>
+            <label className="block mb-1">Temporal Denoise: {Math.round(enhancementSettings.temporalDenoise * 100)}%</label>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={enhancementSettings.temporalDenoise}
+              onChange={(e) => setEnhancementSettings(prev => ({ ...prev, temporalDenoise: parseFloat(e.target.value) }))}
               className="w-full h-1 bg-gray-600 rounded appearance-none cursor-pointer"
             />
           </div>
+
+          <div>
+            <label className="block mb-1">Motion smoothing</label>
+            <select
+              value={interpolationMode}
+              onChange={(e) => setInterpolationMode(e.target.value as 'off' | InterpolationMode)}
+              className="w-full bg-gray-800 border border-gray-600 rounded px-1 py-0.5"
+            >
+              <option value="off">Off</option>
+              <option value="blend">Frame blending</option>
+              <option value="motion">Motion compensated</option>
+            </select>
+          </div>
+
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={measureQuality}
+              onChange={(e) => setMeasureQuality(e.target.checked)}
+            />
+            Measure quality (PSNR/SSIM)
+          </label>
+
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={autoQuality}
+              onChange={(e) => setAutoQuality(e.target.checked)}
+            />
+            Auto quality (hold frame rate)
+          </label>
+
+          {isVideoExportSupported() && (
+            <div className="flex items-center gap-1">
+              <select
+                value={exportFps.source}
+                onChange={(e) => setExportFps(prev => ({ ...prev, source: parseInt(e.target.value) }))}
+                className="bg-gray-800 border border-gray-600 rounded px-1 py-0.5"
+                title="Source frame rate"
+              >
+                {[24, 25, 30].map(fps => <option key={fps} value={fps}>{fps}</option>)}
+              </select>
+              <span>→</span>
+              <select
+                value={exportFps.target}
+                onChange={(e) => setExportFps(prev => ({ ...prev, target: parseInt(e.target.value) }))}
+                className="bg-gray-800 border border-gray-600 rounded px-1 py-0.5"
+                title="Export frame rate"
+              >
+                {[50, 60].map(fps => <option key={fps} value={fps}>{fps} fps</option>)}
+              </select>
+              <button
+                onClick={handleExport}
+                disabled={exportProgress !== null}
+                className="flex items-center text-blue-400 hover:text-blue-300 disabled:opacity-50"
+              >
+                <Download size={12} className="mr-1" />
+                {exportProgress !== null ? `${Math.round(exportProgress * 100)}%` : 'Export'}
+              </button>
+            </div>
+          )}
+
+          <button
+            onClick={() => setShowPipeline(!showPipeline)}
+            className="flex items-center text-blue-400 hover:text-blue-300"
+          >
+            <Layers size={12} className="mr-1" />
+            {showPipeline ? 'Hide' : 'Edit'} pipeline{customPipeline ? ' (custom)' : ''}
+          </button>
+
+          {showPipeline && (
+            <div className="w-64 max-h-64 overflow-y-auto">
+              <PipelineEditor
+                pipeline={customPipeline ?? createPipelineFromEnhancementConfig({
+                  algorithm: 'super-resolution',
+                  scaleFactor: enhancementSettings.upscaling,
+                  sharpening: enhancementSettings.sharpening,
+                  noiseReduction: enhancementSettings.noiseReduction,
+                  colorEnhancement: enhancementSettings.colorEnhancement,
+                  brightness: enhancementSettings.brightness,
+                  contrast: enhancementSettings.contrast
+                })}
+                onChange={setCustomPipeline}
+              />
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { 
   Zap, 
@@ -12,8 +12,34 @@ import {
   ChevronDown,
   ChevronUp,
   Settings2,
-  Sparkles
+  Sparkles,
+  Layers,
+  Waves,
+  Upload,
+  Trash2
 } from 'lucide-react';
+import { PipelineEditor } from './PipelineEditor';
+import { createPipelineFromEnhancementConfig, type EnhancementPipeline } from '../utils/enhancementPipeline';
+import { DEFAULT_MEMORY_LIMIT_MB } from '../utils/tiledProcessing';
+import type { DeinterlaceMode, FieldOrder } from '../utils/deinterlace';
+import {
+  ASPECT_FAMILIES,
+  RESOLUTION_PRESETS,
+  getAspectFamily,
+  getPresetsForFamily,
+  getTargetForScale,
+  type AspectFamily,
+  type FitPolicy
+} from '../utils/resolutionPresets';
+import {
+  deleteStoredLut,
+  loadStoredLuts,
+  parseCubeLut,
+  storeLut,
+  type ColorLut,
+  type LutInterpolation,
+  type LutSelection
+} from '../utils/colorLut';
 
 interface EnhancementSettings {
   upscaling: number;
@@ -21,39 +47,117 @@ interface EnhancementSettings {
   sharpening: number;
   colorEnhancement: number;
   brightnessBoost: number;
+  debanding?: number;
+  deinterlace?: DeinterlaceMode;
+  fieldOrder?: FieldOrder;
   customResolution?: { width: number; height: number };
   useCustomResolution?: boolean;
+  /** Placement when the target's shape differs from the source's */
+  fitPolicy?: FitPolicy;
+  /** Shape of the output; the source's own when omitted */
+  aspectFamily?: AspectFamily;
+  /** Imported colour look, applied after the other adjustments */
+  lut?: LutSelection;
+  pipeline?: EnhancementPipeline;
+  memoryLimitMB?: number;
 }
 
 interface EnhancementControlsProps {
   settings: EnhancementSettings;
   onChange: (settings: EnhancementSettings) => void;
   isEnhancing: boolean;
+  /** Source size, used to offer presets in the source's aspect and orientation */
+  sourceResolution?: { width: number; height: number } | null;
 }
 
 export function EnhancementControls({ 
   settings, 
   onChange, 
-  isEnhancing 
+  isEnhancing,
+  sourceResolution
 }: EnhancementControlsProps) {
   const [showAdvanced, setShowAdvanced] = useState(false);
   const [showCustomResolution, setShowCustomResolution] = useState(false);
   const [customWidth, setCustomWidth] = useState(1920);
   const [customHeight, setCustomHeight] = useState(1080);
+  const [showPipeline, setShowPipeline] = useState(false);
+  const [luts, setLuts] = useState<ColorLut[]>([]);
+  const [lutError, setLutError] = useState('');
 
+  // LUTs imported on earlier visits
+  useEffect(() => {
+    loadStoredLuts()
+      .then(setLuts)
+      .catch(error => console.warn('Stored LUTs unavailable:', error));
+  }, []);
+
+  // Slider edits rebuild the pipeline from the sliders, dropping any hand-edited stage order
   const handleSliderChange = (key: keyof EnhancementSettings, value: number) => {
     onChange({
       ...settings,
-      [key]: value
+      [key]: value,
+      pipeline: undefined
     });
   };
 
+  const pipeline = settings.pipeline ?? createPipelineFromEnhancementConfig({
+    algorithm: 'super-resolution',
+    scaleFactor: settings.upscaling,
+    sharpening: settings.sharpening,
+    noiseReduction: settings.noiseReduction,
+    colorEnhancement: settings.colorEnhancement,
+    brightness: settings.brightnessBoost,
+    contrast: 0,
+    debanding: settings.debanding,
+    deinterlace: settings.deinterlace,
+    fieldOrder: settings.fieldOrder,
+    lut: settings.lut
+  });
+
+  // Like the sliders, a LUT change rebuilds the pipeline
+  const setLut = (lut: LutSelection | undefined) => {
+    onChange({ ...settings, lut, pipeline: undefined });
+  };
+
+  const importLut = async (file: File) => {
+    let lut: ColorLut;
+    try {
+      lut = parseCubeLut(await file.text(), file.name.replace(/\.cube$/i, ''));
+    } catch (error) {
+      setLutError(error instanceof Error ? error.message : 'Invalid LUT file');
+      return;
+    }
+
+    setLutError('');
+    try {
+      await storeLut(lut);
+    } catch (error) {
+      // Still registered, so it works until the page is reloaded
+      console.warn('LUT could not be saved in this browser:', error);
+      setLutError('Saved for this session only');
+    }
+    setLuts(current => [...current, lut].sort((a, b) => a.name.localeCompare(b.name)));
+    setLut({ id: lut.id, intensity: 1, interpolation: 'tetrahedral' });
+  };
+
+  const removeLut = async (id: string) => {
+    try {
+      await deleteStoredLut(id);
+    } catch (error) {
+      console.warn('LUT could not be removed from storage:', error);
+    }
+    setLuts(current => current.filter(lut => lut.id !== id));
+    if (settings.lut?.id === id) {
+      setLut(undefined);
+    }
+  };
+
   // Get target resolution description based on upscaling factor
   const getTargetResolutionDescription = (upscaling: number) => {
-    if (upscaling >= 4) return '4K Ultra HD (3840×2160)';
-    if (upscaling >= 2.5) return '1440p Quad HD (2560×1440)';
-    if (upscaling >= 2) return '1080p Full HD (1920×1080)';
-    return `${upscaling}× Scale Factor`;
+    if (!sourceResolution) return `${upscaling}× Scale Factor`;
+    const target = getTargetForScale(sourceResolution.width, sourceResolution.height, upscaling, settings.aspectFamily);
+    const preset = RESOLUTION_PRESETS.find(candidate => candidate.width === target.width && candidate.height === target.height);
+    return preset ? `${preset.name} (${target.width}×${target.height})` : `${target.width}×${target.height}`;
   };
 
   const presets = [
@@ -70,19 +174,16 @@ export function EnhancementControls({
     {
       name: 'Low Light Boost',
       description: 'For dark videos',
-      settings: { upscaling: 2.5, noiseReduction: 0.7, sharpening: 0.4, colorEnhancement: 0.6, brightnessBoost: 0.5, useCustomResolution: false }
+      settings: { upscaling: 2.5, noiseReduction: 0.7, sharpening: 0.4, colorEnhancement: 0.6, brightnessBoost: 0.5, debanding: 0.5, useCustomResolution: false }
     }
   ];
 
-  // Resolution presets
-  const resolutionPresets = [
-    { name: '720p HD', width: 1280, height: 720 },
-    { name: '1080p FHD', width: 1920, height: 1080 },
-    { name: '1440p QHD', width: 2560, height: 1440 },
-    { name: '4K UHD', width: 3840, height: 2160 },
-    { name: '5K', width: 5120, height: 2880 },
-    { name: '8K', width: 7680, height: 4320 }
-  ];
+  // Resolution presets in the source's aspect family unless one is picked
+  const autoFamily = sourceResolution ? getAspectFamily(sourceResolution.width, sourceResolution.height) : '16:9';
+  const resolutionPresets = getPresetsForFamily(settings.aspectFamily ?? autoFamily);
+
+  // Frames whose working set exceeds the ceiling are processed in overlapping tiles
+  const memoryLimits = [128, 256, 512, 1024];
 
   const setCustomResolution = (width: number, height: number) => {
     setCustomWidth(width);
@@ -179,7 +280,7 @@ export function EnhancementControls({
               key={preset.name}
               whileHover={{ scale: 1.02 }}
               whileTap={{ scale: 0.98 }}
-              onClick={() => onChange(preset.settings)}
+              onClick={() => onChange({ ...preset.settings, memoryLimitMB: settings.memoryLimitMB })}
               className="w-full p-3 text-left bg-gradient-to-r from-gray-800/50 to-gray-700/50 hover:from-gray-700/50 hover:to-gray-600/50 border border-gray-600 hover:border-gray-500 rounded-lg transition-all"
             >
               <div className="flex items-center justify-between">
@@ -197,6 +298,34 @@ export function EnhancementControls({
       {/* Resolution Presets */}
       <div className="space-y-3">
         <h4 className="text-sm font-medium text-gray-300">Target Resolution</h4>
+        <div className="grid grid-cols-2 gap-2 text-xs">
+          <select
+            value={settings.aspectFamily ?? 'auto'}
+            onChange={(e) => onChange({
+              ...settings,
+              // The scaled target takes the family's shape; a preset can then be picked from it
+              aspectFamily: e.target.value === 'auto' ? undefined : e.target.value as AspectFamily,
+              useCustomResolution: false
+            })}
+            className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-white"
+            title="Aspect ratio family"
+          >
+            <option value="auto">Auto ({autoFamily})</option>
+            {ASPECT_FAMILIES.map(({ family, label }) => (
+              <option key={family} value={family}>{label}</option>
+            ))}
+          </select>
+          <select
+            value={settings.fitPolicy ?? 'pad'}
+            onChange={(e) => onChange({ ...settings, fitPolicy: e.target.value as FitPolicy })}
+            className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-white"
+            title="How the picture is placed when its shape differs from the target"
+          >
+            <option value="fit">Fit</option>
+            <option value="fill">Fill (crop)</option>
+            <option value="pad">Pad (bars)</option>
+          </select>
+        </div>
         <div className="grid grid-cols-2 gap-2">
           {resolutionPresets.map((preset) => (
             <motion.button
@@ -256,6 +385,22 @@ export function EnhancementControls({
             </div>
           )}
         </div>
+
+        {/* Memory Ceiling */}
+        <div className="flex items-center justify-between text-xs">
+          <span className="text-gray-400">Memory ceiling per frame</span>
+          <select
+            value={settings.memoryLimitMB ?? DEFAULT_MEMORY_LIMIT_MB}
+            onChange={(e) => onChange({ ...settings, memoryLimitMB: parseInt(e.target.value) })}
+            className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-white"
+          >
+            {memoryLimits.map(limit => (
+              <option key={limit} value={limit}>
+                {limit >= 1024 ? `${limit / 1024} GB` : `${limit} MB`}
+              </option>
+            ))}
+          </select>
+        </div>
       </div>
 
       {/* Advanced Controls Toggle */}
@@ -301,6 +446,17 @@ export function EnhancementControls({
               onChange={(value) => handleSliderChange('noiseReduction', value)}
             />
 
+            <SliderControl
+              label="Debanding"
+              value={settings.debanding ?? 0}
+              min={0}
+              max={1}
+              step={0.1}
+              icon={Waves}
+              onChange={(value) => handleSliderChange('debanding', value)}
+              description="Smooths banding in dark skies and gradients"
+            />
+
             <SliderControl
               label="Sharpening"
               value={settings.sharpening}
@@ -331,6 +487,123 @@ export function EnhancementControls({
               onChange={(value) => handleSliderChange('brightnessBoost', value)}
             />
 
+            {/* Color Look (3D LUT) */}
+            <div className="space-y-2 text-xs">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-sm font-medium text-white">Color Look</span>
+                <div className="flex gap-2">
+                  <select
+                    value={settings.lut?.id ?? ''}
+                    onChange={(e) => setLut(e.target.value
+                      ? { id: e.target.value, intensity: settings.lut?.intensity ?? 1, interpolation: settings.lut?.interpolation ?? 'tetrahedral' }
+                      : undefined)}
+                    className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-white max-w-[10rem]"
+                  >
+                    <option value="">None</option>
+                    {luts.map(lut => (
+                      <option key={lut.id} value={lut.id}>{lut.name} ({lut.size}³)</option>
+                    ))}
+                  </select>
+                  <label
+                    className="px-2 py-1 bg-gray-700 hover:bg-gray-600 text-white rounded cursor-pointer flex items-center gap-1"
+                    title="Import a .cube 3D LUT"
+                  >
+                    <Upload className="h-3 w-3" />
+                    .cube
+                    <input
+                      type="file"
+                      accept=".cube"
+                      className="hidden"
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        e.target.value = '';
+                        if (file) importLut(file);
+                      }}
+                    />
+                  </label>
+                  {settings.lut && (
+                    <button
+                      onClick={() => removeLut(settings.lut!.id)}
+                      className="text-gray-400 hover:text-red-400"
+                      title="Delete this LUT"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+              {lutError && <div className="text-red-400">{lutError}</div>}
+              {settings.lut && (
+                <>
+                  <SliderControl
+                    label="Look Intensity"
+                    value={settings.lut.intensity}
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    icon={Palette}
+                    onChange={(value) => setLut({ ...settings.lut!, intensity: value })}
+                  />
+                  <select
+                    value={settings.lut.interpolation}
+                    onChange={(e) => setLut({ ...settings.lut!, interpolation: e.target.value as LutInterpolation })}
+                    className="w-full bg-gray-800 border border-gray-600 rounded px-2 py-1 text-white"
+                  >
+                    <option value="tetrahedral">Tetrahedral (accurate)</option>
+                    <option value="trilinear">Trilinear</option>
+                  </select>
+                </>
+              )}
+            </div>
+
+            {/* Deinterlacing */}
+            <div className="flex items-center justify-between gap-2 text-xs">
+              <span className="text-sm font-medium text-white">Deinterlace</span>
+              <div className="flex gap-2">
+                <select
+                  value={settings.deinterlace ?? ''}
+                  onChange={(e) => onChange({
+                    ...settings,
+                    deinterlace: (e.target.value || undefined) as DeinterlaceMode | undefined,
+                    pipeline: undefined
+                  })}
+                  className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-white"
+                >
+                  {/* The player deinterlaces on its own when it detects combing */}
+                  <option value="">Auto</option>
+                  <option value="yadif">Motion adaptive</option>
+                  <option value="bob">Bob</option>
+                  <option value="weave">Weave</option>
+                </select>
+                <select
+                  value={settings.fieldOrder ?? 'tff'}
+                  onChange={(e) => onChange({ ...settings, fieldOrder: e.target.value as FieldOrder, pipeline: undefined })}
+                  className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-white"
+                  title="Field order"
+                >
+                  <option value="tff">Top first</option>
+                  <option value="bff">Bottom first</option>
+                </select>
+              </div>
+            </div>
+
+            {/* Processing Pipeline */}
+            <div className="space-y-2">
+              <button
+                onClick={() => setShowPipeline(!showPipeline)}
+                className="text-xs text-blue-400 hover:text-blue-300 flex items-center gap-1"
+              >
+                <Layers className="h-3 w-3" />
+                {showPipeline ? 'Hide' : 'Edit'} Processing Pipeline{settings.pipeline ? ' (custom)' : ''}
+              </button>
+              {showPipeline && (
+                <PipelineEditor
+                  pipeline={pipeline}
+                  onChange={(newPipeline) => onChange({ ...settings, pipeline: newPipeline })}
+                />
+              )}
+            </div>
+
             <motion.button
               whileHover={{ scale: 1.02 }}
               whileTap={{ scale: 0.98 }}
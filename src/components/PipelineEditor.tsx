@@ -0,0 +1,236 @@
+'use client';
+
+import { useState } from 'react';
+import { ArrowUp, ArrowDown, Copy, Upload } from 'lucide-react';
+import {
+  STAGE_DEFINITIONS,
+  isStageEnabled,
+  parsePipeline,
+  serializePipeline,
+  type EnhancementPipeline,
+  type PipelineStage,
+  type ResampleAlgorithm
+} from '../utils/enhancementPipeline';
+import type { DeinterlaceMode, FieldOrder } from '../utils/deinterlace';
+import { getLut, type LutInterpolation } from '../utils/colorLut';
+
+interface PipelineEditorProps {
+  pipeline: EnhancementPipeline;
+  onChange: (pipeline: EnhancementPipeline) => void;
+}
+
+const RESAMPLE_OPTIONS: { value: ResampleAlgorithm; label: string }[] = [
+  { value: 'canvas', label: 'Browser (fast)' },
+  { value: 'bicubic', label: 'Bicubic' },
+  { value: 'lanczos', label: 'Lanczos' },
+  { value: 'nearest', label: 'Nearest' },
+  { value: 'neural', label: 'Neural (TF.js)' }
+];
+
+const DEINTERLACE_OPTIONS: { value: DeinterlaceMode; label: string }[] = [
+  { value: 'yadif', label: 'Motion adaptive' },
+  { value: 'bob', label: 'Bob' },
+  { value: 'weave', label: 'Weave' }
+];
+
+const FIELD_ORDER_OPTIONS: { value: FieldOrder; label: string }[] = [
+  { value: 'tff', label: 'Top field first' },
+  { value: 'bff', label: 'Bottom field first' }
+];
+
+export function PipelineEditor({ pipeline, onChange }: PipelineEditorProps) {
+  const [showJson, setShowJson] = useState(false);
+  const [jsonText, setJsonText] = useState('');
+  const [jsonError, setJsonError] = useState('');
+
+  const updateStage = (index: number, stage: PipelineStage) => {
+    const stages = [...pipeline.stages];
+    stages[index] = stage;
+    onChange({ ...pipeline, stages });
+  };
+
+  const moveStage = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= pipeline.stages.length) return;
+
+    const stages = [...pipeline.stages];
+    [stages[index], stages[target]] = [stages[target], stages[index]];
+    onChange({ ...pipeline, stages });
+  };
+
+  const toggleJson = () => {
+    setJsonText(serializePipeline(pipeline));
+    setJsonError('');
+    setShowJson(!showJson);
+  };
+
+  const importJson = () => {
+    try {
+      onChange(parsePipeline(jsonText));
+      setJsonError('');
+      setShowJson(false);
+    } catch (error) {
+      setJsonError(error instanceof Error ? error.message : 'Invalid pipeline');
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {pipeline.stages.map((stage, index) => {
+        const definition = STAGE_DEFINITIONS[stage.type];
+        const enabled = isStageEnabled(stage);
+
+        return (
+          <div
+            key={`${stage.type}-${index}`}
+            className={`p-2 rounded-lg border text-xs ${
+              enabled ? 'bg-gray-800/50 border-gray-600' : 'bg-gray-900/50 border-gray-700 opacity-60'
+            }`}
+          >
+            <div className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={enabled}
+                onChange={(e) => updateStage(index, { ...stage, enabled: e.target.checked })}
+              />
+              <span className="flex-1 font-medium text-white">
+                {index + 1}. {definition.label}
+              </span>
+              <button
+                onClick={() => moveStage(index, -1)}
+                disabled={index === 0}
+                className="text-gray-400 hover:text-white disabled:opacity-30"
+                title="Move up"
+              >
+                <ArrowUp className="h-3 w-3" />
+              </button>
+              <button
+                onClick={() => moveStage(index, 1)}
+                disabled={index === pipeline.stages.length - 1}
+                className="text-gray-400 hover:text-white disabled:opacity-30"
+                title="Move down"
+              >
+                <ArrowDown className="h-3 w-3" />
+              </button>
+            </div>
+
+            {enabled && stage.type === 'resample' && (
+              <div className="mt-2 flex items-center gap-2">
+                <select
+                  value={stage.algorithm}
+                  onChange={(e) => updateStage(index, { ...stage, algorithm: e.target.value as ResampleAlgorithm })}
+                  className="bg-gray-800 border border-gray-600 rounded px-1 py-0.5 text-white"
+                >
+                  {RESAMPLE_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+                <span className="text-gray-400">
+                  {stage.scale !== undefined ? `${stage.scale.toFixed(1)}×` : `${stage.width}×${stage.height}`}
+                </span>
+              </div>
+            )}
+
+            {/* No weights ship with the app: without a URL only models deployed under /models/ are used */}
+            {enabled && stage.type === 'resample' && stage.algorithm === 'neural' && (
+              <input
+                type="url"
+                value={stage.model ?? ''}
+                onChange={(e) => updateStage(index, { ...stage, model: e.target.value.trim() || undefined })}
+                placeholder="TF.js model.json URL (optional)"
+                className="mt-2 w-full bg-gray-800 border border-gray-600 rounded px-1 py-0.5 text-white"
+              />
+            )}
+
+            {enabled && stage.type === 'deinterlace' && (
+              <div className="mt-2 flex items-center gap-2">
+                <select
+                  value={stage.mode}
+                  onChange={(e) => updateStage(index, { ...stage, mode: e.target.value as DeinterlaceMode })}
+                  className="bg-gray-800 border border-gray-600 rounded px-1 py-0.5 text-white"
+                >
+                  {DEINTERLACE_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+                <select
+                  value={stage.fieldOrder}
+                  onChange={(e) => updateStage(index, { ...stage, fieldOrder: e.target.value as FieldOrder })}
+                  className="bg-gray-800 border border-gray-600 rounded px-1 py-0.5 text-white"
+                >
+                  {FIELD_ORDER_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {enabled && stage.type === 'lut' && (
+              <div className="mt-2 flex items-center gap-2">
+                <span className="flex-1 text-gray-400 truncate">
+                  {getLut(stage.lutId)?.name ?? 'LUT not loaded'}
+                </span>
+                <select
+                  value={stage.interpolation}
+                  onChange={(e) => updateStage(index, { ...stage, interpolation: e.target.value as LutInterpolation })}
+                  className="bg-gray-800 border border-gray-600 rounded px-1 py-0.5 text-white"
+                >
+                  <option value="tetrahedral">Tetrahedral</option>
+                  <option value="trilinear">Trilinear</option>
+                </select>
+              </div>
+            )}
+
+            {enabled && stage.type !== 'resample' && Object.entries(definition.params).map(([key, range]) => {
+              const value = (stage as unknown as Record<string, number>)[key];
+              return (
+                <div key={key} className="mt-2">
+                  <div className="flex justify-between text-gray-400">
+                    <span className="capitalize">{key}</span>
+                    <span>{value.toFixed(2)}</span>
+                  </div>
+                  <input
+                    type="range"
+                    min={range.min}
+                    max={range.max}
+                    step={range.step}
+                    value={value}
+                    onChange={(e) => updateStage(index, { ...stage, [key]: parseFloat(e.target.value) } as PipelineStage)}
+                    className="w-full h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+                  />
+                </div>
+              );
+            })}
+          </div>
+        );
+      })}
+
+      <button
+        onClick={toggleJson}
+        className="text-xs text-blue-400 hover:text-blue-300 flex items-center gap-1"
+      >
+        <Copy className="h-3 w-3" />
+        {showJson ? 'Hide pipeline JSON' : 'Export / import pipeline JSON'}
+      </button>
+
+      {showJson && (
+        <div className="space-y-2">
+          <textarea
+            value={jsonText}
+            onChange={(e) => setJsonText(e.target.value)}
+            rows={6}
+            className="w-full px-2 py-1 text-xs font-mono bg-gray-800 border border-gray-600 rounded text-white"
+          />
+          {jsonError && <div className="text-xs text-red-400">{jsonError}</div>}
+          <button
+            onClick={importJson}
+            className="px-3 py-1 text-xs bg-blue-600 hover:bg-blue-700 text-white rounded flex items-center gap-1"
+          >
+            <Upload className="h-3 w-3" />
+            Apply JSON
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
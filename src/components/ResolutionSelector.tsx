@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { motion } from 'framer-motion';
 import { 
   Monitor, 
@@ -11,6 +11,16 @@ import {
   Target
 } from 'lucide-react';
 import { analyzeVideoQuality, generateUpscalingConfig, getRecommendedResolutions, type VideoMetrics, type UpscalingConfig } from '../utils/aiUpscaler';
+import type { FieldOrder } from '../utils/deinterlace';
+import { BlackBarDetector, cropToContent, toPixelRect, type CropRect } from '../utils/blackBars';
+import { fromImageData, type PixelFrame } from '../utils/pixelFrame';
+import { sampleVideoFrames } from '../utils/videoExport';
+import { ASPECT_FAMILIES, getAspectFamily, getPresetsForFamily, type AspectFamily, type FitPolicy } from '../utils/resolutionPresets';
+
+// Frames sampled across the video for black-bar detection
+const BAR_SAMPLE_FRAMES = 8;
+
+type CropMode = 'auto' | 'off' | 'custom';
 
 interface ResolutionSelectorProps {
   sourceResolution: { width: number; height: number } | null;
@@ -19,10 +29,16 @@ interface ResolutionSelectorProps {
 }
 
 export function ResolutionSelector({ sourceResolution, onConfigChange, videoElement }: ResolutionSelectorProps) {
-  const [videoMetrics, setVideoMetrics] = useState<VideoMetrics | null>(null);
+  const [sourceFrame, setSourceFrame] = useState<PixelFrame | null>(null);
+  const [detectedCrop, setDetectedCrop] = useState<CropRect | null>(null);
+  const [cropMode, setCropMode] = useState<CropMode>('auto');
+  const [customCrop, setCustomCrop] = useState({ x: 0, y: 0, width: 0, height: 0 });
+  const [fitPolicy, setFitPolicy] = useState<FitPolicy>('pad');
+  const [presetFamily, setPresetFamily] = useState<'auto' | AspectFamily>('auto');
   const [selectedResolution, setSelectedResolution] = useState<{ width: number; height: number } | null>(null);
   const [upscalingConfig, setUpscalingConfig] = useState<UpscalingConfig | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [fieldOrder, setFieldOrder] = useState<FieldOrder>('tff');
 
   // Analyze video quality
   const analyzeVideo = useCallback(async () => {
@@ -39,10 +55,25 @@ export function ResolutionSelector({ sourceResolution, onConfigChange, videoElem
       // Draw current video frame
       ctx.drawImage(videoElement, 0, 0, canvas.width, canvas.height);
       // Get image data for analysis
-      const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-      // Analyze video quality
-      const metrics = analyzeVideoQuality(imageData);
-      setVideoMetrics(metrics);
+      const frame = fromImageData(ctx.getImageData(0, 0, canvas.width, canvas.height));
+
+      // One frame cannot tell a letterbox from a dark scene, so bars must hold across samples
+      const detector = new BlackBarDetector();
+      detector.addFrame(frame);
+      try {
+        for (const sample of await sampleVideoFrames(videoElement, BAR_SAMPLE_FRAMES)) {
+          detector.addFrame(sample);
+        }
+      } catch (error) {
+        console.warn('Black-bar sampling unavailable, using the current frame only:', error);
+      }
+
+      const crop = detector.getCrop();
+      setDetectedCrop(crop);
+      if (crop) {
+        setCustomCrop(toPixelRect(crop, frame.width, frame.height));
+      }
+      setSourceFrame(frame);
       // Auto-select recommended resolution
       const recommended = getRecommendedResolutions(sourceResolution.width, sourceResolution.height);
       if (recommended.length > 0) {
@@ -62,14 +93,50 @@ export function ResolutionSelector({ sourceResolution, onConfigChange, videoElem
     }
   }, [videoElement, sourceResolution, analyzeVideo]);
 
+  const activeCrop = useMemo((): CropRect | null => {
+    if (cropMode === 'off') return null;
+    if (cropMode === 'custom' && sourceResolution && customCrop.width > 0 && customCrop.height > 0) {
+      return {
+        x: customCrop.x / sourceResolution.width,
+        y: customCrop.y / sourceResolution.height,
+        width: customCrop.width / sourceResolution.width,
+        height: customCrop.height / sourceResolution.height
+      };
+    }
+    return detectedCrop;
+  }, [cropMode, customCrop, detectedCrop, sourceResolution]);
+
+  // Statistics cover the picture only; the frame size stays the source's so scale factors are unchanged
+  const videoMetrics = useMemo((): VideoMetrics | null => {
+    if (!sourceFrame) return null;
+    const metrics = analyzeVideoQuality(activeCrop ? cropToContent(sourceFrame, activeCrop) : sourceFrame);
+    return { ...metrics, width: sourceFrame.width, height: sourceFrame.height };
+  }, [sourceFrame, activeCrop]);
+
   // Generate upscaling config when resolution is selected
   useEffect(() => {
     if (videoMetrics && selectedResolution) {
       const config = generateUpscalingConfig(videoMetrics, selectedResolution);
+      if (config.deinterlace) {
+        config.fieldOrder = fieldOrder;
+      }
+      if (activeCrop) {
+        config.crop = activeCrop;
+      }
+      config.fitPolicy = fitPolicy;
       setUpscalingConfig(config);
       onConfigChange(config);
     }
-  }, [videoMetrics, selectedResolution, onConfigChange]);
+  }, [videoMetrics, selectedResolution, fieldOrder, activeCrop, fitPolicy, onConfigChange]);
+
+  const detectedPixels = detectedCrop && sourceResolution
+    ? toPixelRect(detectedCrop, sourceResolution.width, sourceResolution.height)
+    : null;
+
+  const updateCustomCrop = (key: keyof typeof customCrop, value: number) => {
+    setCustomCrop(prev => ({ ...prev, [key]: Math.max(0, Math.round(value)) }));
+    setCropMode('custom');
+  };
 
   const getQualityColor = (quality: string) => {
     switch (quality) {
@@ -89,12 +156,13 @@ export function ResolutionSelector({ sourceResolution, onConfigChange, videoElem
     }
   };
 
-  const resolutionPresets = [
-    { name: '720p HD', width: 1280, height: 720, description: 'High Definition' },
-    { name: '1080p FHD', width: 1920, height: 1080, description: 'Full HD' },
-    { name: '1440p QHD', width: 2560, height: 1440, description: 'Quad HD' },
-    { name: '4K UHD', width: 3840, height: 2160, description: 'Ultra HD' }
-  ];
+  // Presets follow the picture's own shape (after any crop) unless a family is picked
+  const picture = sourceResolution && {
+    width: sourceResolution.width * (activeCrop?.width ?? 1),
+    height: sourceResolution.height * (activeCrop?.height ?? 1)
+  };
+  const autoFamily = picture ? getAspectFamily(picture.width, picture.height) : '16:9';
+  const resolutionPresets = getPresetsForFamily(presetFamily === 'auto' ? autoFamily : presetFamily);
 
   if (!sourceResolution) {
     return (
@@ -161,6 +229,116 @@ export function ResolutionSelector({ sourceResolution, onConfigChange, videoElem
                   <span className="text-white text-xs">{Math.round(videoMetrics.noiseLevel * 100)}%</span>
                 </div>
               </div>
+
+              <div className="flex justify-between">
+                <span className="text-gray-400">Blockiness:</span>
+                <div className="flex items-center gap-2">
+                  <div className="w-16 h-2 bg-gray-700 rounded-full overflow-hidden">
+                    <div 
+                      className="h-full bg-orange-500 rounded-full"
+                      style={{ width: `${videoMetrics.blockiness * 100}%` }}
+                    />
+                  </div>
+                  <span className="text-white text-xs">{Math.round(videoMetrics.blockiness * 100)}%</span>
+                </div>
+              </div>
+
+              <div className="flex justify-between">
+                <span className="text-gray-400">Banding:</span>
+                <div className="flex items-center gap-2">
+                  <div className="w-16 h-2 bg-gray-700 rounded-full overflow-hidden">
+                    <div 
+                      className="h-full bg-purple-500 rounded-full"
+                      style={{ width: `${videoMetrics.banding * 100}%` }}
+                    />
+                  </div>
+                  <span className="text-white text-xs">{Math.round(videoMetrics.banding * 100)}%</span>
+                </div>
+              </div>
+
+              <div className="flex justify-between">
+                <span className="text-gray-400">Noise σ (R/G/B):</span>
+                <span className="text-white text-xs">
+                  {[videoMetrics.noiseSigma.r, videoMetrics.noiseSigma.g, videoMetrics.noiseSigma.b].map(sigma => sigma.toFixed(1)).join(' / ')}
+                </span>
+              </div>
+
+              <div className="flex justify-between">
+                <span className="text-gray-400">Saturation:</span>
+                <span className="text-white text-xs">
+                  {Math.round(videoMetrics.saturation.mean * 100)}% ± {Math.round(videoMetrics.saturation.spread * 100)}
+                  {videoMetrics.saturation.clipped > 0.01 && (
+                    <span className="text-yellow-400"> ({Math.round(videoMetrics.saturation.clipped * 100)}% clipped)</span>
+                  )}
+                </span>
+              </div>
+
+              <div>
+                <div className="flex justify-between">
+                  <span className="text-gray-400">Luma:</span>
+                  <span className="text-xs text-gray-400">
+                    Crushed {(videoMetrics.clippedShadows * 100).toFixed(1)}% • Blown {(videoMetrics.clippedHighlights * 100).toFixed(1)}%
+                  </span>
+                </div>
+                <div className="flex items-end h-8 gap-px mt-1">
+                  {videoMetrics.lumaHistogram.map((fraction, bin) => (
+                    <div
+                      key={bin}
+                      className="flex-1 bg-gray-400/70"
+                      style={{ height: `${Math.min(100, fraction * 100 / Math.max(...videoMetrics.lumaHistogram))}%` }}
+                    />
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex justify-between">
+                <span className="text-gray-400">Interlacing:</span>
+                <span className={videoMetrics.interlaceScore > 0.3 ? 'text-yellow-400' : 'text-white'}>
+                  {videoMetrics.interlaceScore > 0.3 ? 'Detected' : 'Progressive'}
+                </span>
+              </div>
+
+              <div className="flex justify-between">
+                <span className="text-gray-400">Black Bars:</span>
+                <span className={detectedCrop ? 'text-yellow-400' : 'text-white'}>
+                  {detectedCrop && detectedPixels
+                    ? `${detectedCrop.height < 1 ? 'Letterbox' : 'Pillarbox'} • picture ${detectedPixels.width}×${detectedPixels.height}`
+                    : 'None'}
+                </span>
+              </div>
+
+              <div className="space-y-2 pt-1">
+                <div className="flex justify-between items-center">
+                  <span className="text-gray-400">Crop:</span>
+                  <select
+                    value={cropMode}
+                    onChange={(e) => setCropMode(e.target.value as CropMode)}
+                    className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-xs text-white"
+                  >
+                    <option value="auto">Auto (detected)</option>
+                    <option value="off">Off</option>
+                    <option value="custom">Custom</option>
+                  </select>
+                </div>
+
+                {cropMode === 'custom' && (
+                  <div className="grid grid-cols-4 gap-1">
+                    {(['x', 'y', 'width', 'height'] as const).map(key => (
+                      <label key={key} className="text-xs text-gray-400">
+                        {key === 'width' ? 'W' : key === 'height' ? 'H' : key.toUpperCase()}
+                        <input
+                          type="number"
+                          min={0}
+                          step={2}
+                          value={customCrop[key]}
+                          onChange={(e) => updateCustomCrop(key, parseFloat(e.target.value) || 0)}
+                          className="w-full bg-gray-800 border border-gray-600 rounded px-1 py-0.5 text-white"
+                        />
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
             </>
           )}
         </div>
@@ -172,11 +350,42 @@ export function ResolutionSelector({ sourceResolution, onConfigChange, videoElem
           <Target className="h-5 w-5 text-green-400" />
           <h3 className="font-semibold text-white">Target Resolution</h3>
         </div>
+
+        <div className="grid grid-cols-2 gap-2 mb-3 text-xs">
+          <label className="text-gray-400">
+            Aspect
+            <select
+              value={presetFamily}
+              onChange={(e) => setPresetFamily(e.target.value as 'auto' | AspectFamily)}
+              className="w-full mt-1 bg-gray-800 border border-gray-600 rounded px-2 py-1 text-white"
+            >
+              <option value="auto">Auto (match source)</option>
+              {ASPECT_FAMILIES.map(({ family, label }) => (
+                <option key={family} value={family}>{label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="text-gray-400">
+            Framing
+            <select
+              value={fitPolicy}
+              onChange={(e) => setFitPolicy(e.target.value as FitPolicy)}
+              className="w-full mt-1 bg-gray-800 border border-gray-600 rounded px-2 py-1 text-white"
+              title="How the picture is placed when its shape differs from the target"
+            >
+              <option value="fit">Fit (keep picture shape)</option>
+              <option value="fill">Fill (crop to target)</option>
+              <option value="pad">Pad (bars to target)</option>
+            </select>
+          </label>
+        </div>
         
         <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
           {resolutionPresets.map((preset) => {
             const isSelected = selectedResolution?.width === preset.width && selectedResolution?.height === preset.height;
-            const scaleFactor = preset.width / sourceResolution.width;
+            const widthScale = preset.width / (picture?.width ?? sourceResolution.width);
+            const heightScale = preset.height / (picture?.height ?? sourceResolution.height);
+            const scaleFactor = fitPolicy === 'fill' ? Math.max(widthScale, heightScale) : Math.min(widthScale, heightScale);
             const isUpscale = scaleFactor > 1;
             
             return (
@@ -238,6 +447,20 @@ export function ResolutionSelector({ sourceResolution, onConfigChange, videoElem
               </div>
             </div>
             
+            {upscalingConfig.deinterlace && (
+              <div className="flex justify-between items-center">
+                <span className="text-gray-400">Field Order:</span>
+                <select
+                  value={fieldOrder}
+                  onChange={(e) => setFieldOrder(e.target.value as FieldOrder)}
+                  className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-xs text-white"
+                >
+                  <option value="tff">Top field first</option>
+                  <option value="bff">Bottom field first (DV)</option>
+                </select>
+              </div>
+            )}
+            
             <div className="grid grid-cols-2 gap-4 pt-2">
               <div className="text-center">
                 <div className="text-gray-400 text-xs">Noise Reduction</div>
@@ -247,6 +470,18 @@ export function ResolutionSelector({ sourceResolution, onConfigChange, videoElem
                 <div className="text-gray-400 text-xs">Edge Enhancement</div>
                 <div className="text-white font-medium">{Math.round(upscalingConfig.edgeEnhancement * 100)}%</div>
               </div>
+              {upscalingConfig.deblocking > 0 && (
+                <div className="text-center">
+                  <div className="text-gray-400 text-xs">Deblocking</div>
+                  <div className="text-white font-medium">{Math.round(upscalingConfig.deblocking * 100)}%</div>
+                </div>
+              )}
+              {!!upscalingConfig.debanding && (
+                <div className="text-center">
+                  <div className="text-gray-400 text-xs">Debanding</div>
+                  <div className="text-white font-medium">{Math.round(upscalingConfig.debanding * 100)}%</div>
+                </div>
+              )}
             </div>
           </div>
           
@@ -1,9 +1,17 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { motion } from 'framer-motion';
-import { Link, Play, Upload, Youtube, Video, Globe, AlertCircle } from 'lucide-react';
+import { Link, Play, Upload, Youtube, Video, Globe, AlertCircle, FileVideo, FolderOpen } from 'lucide-react';
 import { processVideoUrl, validateVideoUrl, getSampleUrls, type VideoInfo } from '../utils/videoUtils';
+import {
+  collectDroppedVideoFiles,
+  collectVideoFiles,
+  createLocalVideoInfo,
+  describeLocalFile,
+  readVideoMetadata,
+  type LocalVideoFile
+} from '../utils/localVideoFiles';
 
 interface UrlInputProps {
   onSubmit: (url: string, videoInfo: VideoInfo) => void;
@@ -14,6 +22,34 @@ export function UrlInput({ onSubmit }: UrlInputProps) {
   const [isValidUrl, setIsValidUrl] = useState(false);
   const [videoInfo, setVideoInfo] = useState<VideoInfo | null>(null);
   const [isValidating, setIsValidating] = useState(false);
+  const [localFiles, setLocalFiles] = useState<LocalVideoFile[]>([]);
+  const [unplayableFiles, setUnplayableFiles] = useState<Set<string>>(new Set());
+  const [isDragging, setIsDragging] = useState(false);
+  const [localError, setLocalError] = useState('');
+
+  // Read duration and frame size one file at a time so a large folder doesn't open dozens of decoders
+  useEffect(() => {
+    const pending = localFiles.filter(({ info }) => info.width === undefined && !unplayableFiles.has(info.path));
+    if (pending.length === 0) return;
+
+    let cancelled = false;
+    const next = pending[0];
+    readVideoMetadata(next.file)
+      .then(metadata => {
+        if (cancelled) return;
+        setLocalFiles(files => files.map(entry =>
+          entry === next ? { ...entry, info: { ...entry.info, ...metadata } } : entry
+        ));
+      })
+      .catch(() => {
+        if (cancelled) return;
+        setUnplayableFiles(paths => new Set(paths).add(next.info.path));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [localFiles, unplayableFiles]);
 
   const validateUrl = async (inputUrl: string) => {
     if (!inputUrl.trim()) {
@@ -50,6 +86,36 @@ export function UrlInput({ onSubmit }: UrlInputProps) {
     }
   };
 
+  const showLocalFiles = (files: LocalVideoFile[]) => {
+    setLocalFiles(files);
+    setUnplayableFiles(new Set());
+    setLocalError(files.length === 0 ? 'No video files found' : '');
+  };
+
+  const handleFilesPicked = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files) {
+      showLocalFiles(collectVideoFiles(e.target.files));
+    }
+    // Allow picking the same file again
+    e.target.value = '';
+  };
+
+  const handleDrop = async (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    try {
+      showLocalFiles(await collectDroppedVideoFiles(e.dataTransfer));
+    } catch (error) {
+      console.error('Failed to read dropped files:', error);
+      setLocalError('The dropped files could not be read');
+    }
+  };
+
+  const handleLocalFileSelect = (localFile: LocalVideoFile) => {
+    const info = createLocalVideoInfo(localFile);
+    onSubmit(info.originalUrl, info);
+  };
+
   const sampleUrls = getSampleUrls();
 
   const getVideoTypeIcon = (type: string) => {
@@ -63,6 +129,8 @@ export function UrlInput({ onSubmit }: UrlInputProps) {
         return Video;
       case 'direct':
         return Video;
+      case 'local':
+        return FileVideo;
       default:
         return Globe;
     }
@@ -82,6 +150,8 @@ export function UrlInput({ onSubmit }: UrlInputProps) {
         return 'Vimeo Video';
       case 'direct':
         return 'Direct Video';
+      case 'local':
+        return 'Local File';
       case 'instagram':
         return 'Instagram (Coming Soon)';
       case 'tiktok':
@@ -93,14 +163,74 @@ export function UrlInput({ onSubmit }: UrlInputProps) {
 
   return (
     <div className="text-center space-y-6">
-      <div className="mb-8">
-        <Upload className="h-16 w-16 text-gray-400 mx-auto mb-4" />
+      <div
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={(e) => {
+          if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDragging(false);
+        }}
+        onDrop={handleDrop}
+        className={`mb-8 p-6 rounded-xl border-2 border-dashed transition-colors ${
+          isDragging ? 'border-blue-500 bg-blue-500/10' : 'border-transparent'
+        }`}
+      >
+        <Upload className={`h-16 w-16 mx-auto mb-4 ${isDragging ? 'text-blue-400' : 'text-gray-400'}`} />
         <h3 className="text-xl font-semibold text-white mb-2">
           Load Video Stream
         </h3>
         <p className="text-gray-400">
           YouTube, Dailymotion, Vimeo videos, live streams, and direct video links
         </p>
+        <p className="text-gray-500 text-sm mt-1">
+          or drop video files or folders here
+        </p>
+        <div className="flex justify-center gap-2 mt-3">
+          <label className="px-3 py-1.5 bg-gray-800/50 hover:bg-gray-700/50 border border-gray-600 rounded-lg text-sm text-gray-300 cursor-pointer flex items-center gap-2">
+            <FileVideo className="h-4 w-4" />
+            Choose Files
+            <input type="file" accept="video/*" multiple onChange={handleFilesPicked} className="hidden" />
+          </label>
+          <label className="px-3 py-1.5 bg-gray-800/50 hover:bg-gray-700/50 border border-gray-600 rounded-lg text-sm text-gray-300 cursor-pointer flex items-center gap-2">
+            <FolderOpen className="h-4 w-4" />
+            Choose Folder
+            {/* webkitdirectory isn't in React's input props */}
+            <input
+              type="file"
+              ref={(input) => input?.setAttribute('webkitdirectory', '')}
+              onChange={handleFilesPicked}
+              className="hidden"
+            />
+          </label>
+        </div>
+        {localError && (
+          <p className="text-sm text-red-400 mt-3">{localError}</p>
+        )}
+        {localFiles.length > 0 && (
+          <div className="mt-4 max-h-64 overflow-y-auto space-y-1 text-left">
+            {localFiles.map((localFile) => {
+              const unplayable = unplayableFiles.has(localFile.info.path);
+              return (
+                <button
+                  key={localFile.info.path}
+                  type="button"
+                  onClick={() => handleLocalFileSelect(localFile)}
+                  disabled={unplayable}
+                  className="block w-full px-3 py-2 rounded-lg text-sm hover:bg-blue-600/10 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  <div className="flex items-center gap-2">
+                    <FileVideo className="h-4 w-4 text-blue-400 flex-shrink-0" />
+                    <span className="text-blue-400 font-medium truncate">{localFile.info.path}</span>
+                  </div>
+                  <span className="text-gray-400 text-xs block">
+                    {unplayable ? 'This browser cannot play this file' : describeLocalFile(localFile.info)}
+                  </span>
+                </button>
+              );
+            })}
+          </div>
+        )}
         {videoInfo && (
           <div className="flex items-center justify-center gap-2 mt-3 px-3 py-1 bg-gray-800/50 rounded-lg border border-gray-600 inline-flex">
             {(() => {
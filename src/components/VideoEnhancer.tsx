@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { motion } from 'framer-motion';
 import { 
   Zap, 
@@ -9,8 +9,15 @@ import {
 import { EnhancementControls } from './EnhancementControls';
 import { UrlInput } from './UrlInput';
 import { ResolutionSelector } from './ResolutionSelector';
-import { ConsolidatedVideoController } from './ConsolidatedVideoController';
+import { ConsolidatedVideoController, type RenderConfig } from './ConsolidatedVideoController';
 import { type VideoInfo } from '../utils/videoUtils';
+import { type EnhancementPipeline } from '../utils/enhancementPipeline';
+import type { DeinterlaceMode, FieldOrder } from '../utils/deinterlace';
+import { getTargetForScale, type AspectFamily, type FitPolicy } from '../utils/resolutionPresets';
+import type { LutSelection } from '../utils/colorLut';
+import type { CropRect } from '../utils/blackBars';
+import type { UpscalingConfig } from '../utils/aiUpscaler';
+import { describeLocalFile, releaseLocalVideo } from '../utils/localVideoFiles';
 // import { QualityDetector } from './QualityDetector';
 
 interface EnhancementSettings {
@@ -19,8 +26,16 @@ interface EnhancementSettings {
   sharpening: number;
   colorEnhancement: number;
   brightnessBoost: number;
+  debanding?: number;
+  deinterlace?: DeinterlaceMode;
+  fieldOrder?: FieldOrder;
   customResolution?: { width: number; height: number };
   useCustomResolution?: boolean;
+  fitPolicy?: FitPolicy;
+  aspectFamily?: AspectFamily;
+  lut?: LutSelection;
+  pipeline?: EnhancementPipeline;
+  memoryLimitMB?: number;
 }
 
 export function VideoEnhancer() {
@@ -29,7 +44,7 @@ export function VideoEnhancer() {
   const [videoElement, setVideoElement] = useState<HTMLVideoElement | null>(null);
   const [videoResolution, setVideoResolution] = useState<{ width: number; height: number } | null>(null);
   const [isEnhancing, setIsEnhancing] = useState(false);
-  const [enhancementSettings, setEnhancementSettings] = useState({
+  const [enhancementSettings, setEnhancementSettings] = useState<EnhancementSettings>({
     upscaling: 2,
     noiseReduction: 0.5,
     sharpening: 0.3,
@@ -38,6 +53,40 @@ export function VideoEnhancer() {
     useCustomResolution: false,
     customResolution: { width: 1920, height: 1080 }
   });
+  // Picture area from ResolutionSelector's black-bar detection or crop override
+  const [crop, setCrop] = useState<CropRect | undefined>();
+
+  // What the player renders with; rebuilt only when a setting it uses changes
+  const {
+    pipeline,
+    debanding,
+    deinterlace,
+    fieldOrder,
+    upscaling,
+    useCustomResolution,
+    customResolution,
+    aspectFamily,
+    fitPolicy,
+    lut
+  } = enhancementSettings;
+  // A picked resolution or aspect family sets the output size; otherwise the player's own scale does
+  const targetResolution = useMemo(() => {
+    if (useCustomResolution && customResolution) return customResolution;
+    if (aspectFamily && videoResolution) {
+      return getTargetForScale(videoResolution.width, videoResolution.height, upscaling, aspectFamily);
+    }
+    return undefined;
+  }, [useCustomResolution, customResolution, aspectFamily, videoResolution, upscaling]);
+  const renderConfig = useMemo<RenderConfig>(
+    () => ({ pipeline, debanding, deinterlace, fieldOrder, targetResolution, fitPolicy, lut, crop }),
+    [pipeline, debanding, deinterlace, fieldOrder, targetResolution, fitPolicy, lut, crop]
+  );
+
+  // ResolutionSelector reports a whole upscaling config; the player takes only its crop. Stable, as
+  // the selector re-reports whenever this changes.
+  const handleResolutionConfigChange = useCallback((config: UpscalingConfig) => {
+    setCrop(config.crop);
+  }, []);
 
   // Quick test function for development
   const testWithUrl = (testUrl: string, platform: string) => {
@@ -49,11 +98,20 @@ export function VideoEnhancer() {
     handleUrlSubmit(testUrl, testInfo);
   };
 
+  // Local files play from object URLs; free the file once it is replaced or the page goes away
+  const videoInfoRef = useRef<VideoInfo | null>(null);
+  useEffect(() => () => releaseLocalVideo(videoInfoRef.current), []);
+
   const handleUrlSubmit = (url: string, info: VideoInfo) => {
+    if (videoInfoRef.current !== info) {
+      releaseLocalVideo(videoInfoRef.current);
+    }
+    videoInfoRef.current = info;
     setVideoUrl(url);
     setVideoInfo(info);
     // Reset resolution when new video is loaded
     setVideoResolution(null);
+    setCrop(undefined);
   };
 
   const handleVideoElementReady = (element: HTMLVideoElement) => {
@@ -90,24 +148,13 @@ export function VideoEnhancer() {
         targetWidth = completeSettings.customResolution.width;
         targetHeight = completeSettings.customResolution.height;
       } else {
-        // Special handling for common upscaling factors
-        if (completeSettings.upscaling >= 4) {
-          // 4K upscaling
-          targetWidth = 3840;
-          targetHeight = 2160;
-        } else if (completeSettings.upscaling >= 2.5) {
-          // 1440p upscaling
-          targetWidth = 2560;
-          targetHeight = 1440;
-        } else if (completeSettings.upscaling >= 2) {
-          // 1080p upscaling
-          targetWidth = 1920;
-          targetHeight = 1080;
-        } else {
-          // Calculate based on scale factor
-          targetWidth = Math.round(videoResolution.width * completeSettings.upscaling);
-          targetHeight = Math.round(videoResolution.height * completeSettings.upscaling);
-        }
+        // Snap to a preset in the chosen aspect family (or the source's own) when one is close
+        ({ width: targetWidth, height: targetHeight } = getTargetForScale(
+          videoResolution.width,
+          videoResolution.height,
+          completeSettings.upscaling,
+          completeSettings.aspectFamily
+        ));
       }
       
       console.log(`🎯 Setting target resolution to ${targetWidth}x${targetHeight} ${completeSettings.useCustomResolution ? '(Custom)' : `(${completeSettings.upscaling}x scale)`}`);
@@ -126,10 +173,17 @@ export function VideoEnhancer() {
             className="bg-black/40 backdrop-blur-lg rounded-xl border border-gray-700 p-6"
           >
             <div className="flex items-center justify-between mb-6">
-              <h2 className="text-2xl font-bold text-white flex items-center gap-2">
-                <Monitor className="h-6 w-6" />
-                Video Stream
-              </h2>
+              <div>
+                <h2 className="text-2xl font-bold text-white flex items-center gap-2">
+                  <Monitor className="h-6 w-6" />
+                  Video Stream
+                </h2>
+                {videoUrl && videoInfo?.file && (
+                  <p className="text-sm text-gray-400 mt-1" title={videoInfo.file.path}>
+                    {videoInfo.file.name} · {describeLocalFile(videoInfo.file)}
+                  </p>
+                )}
+              </div>
               <div className="flex gap-2">
                 <motion.button
                   whileHover={{ scale: 1.05 }}
@@ -173,6 +227,7 @@ export function VideoEnhancer() {
             ) : (
               <ConsolidatedVideoController
                 url={videoUrl}
+                renderConfig={renderConfig}
                 onVideoElementReady={handleVideoElementReady}
                 onResolutionDetected={handleResolutionDetected}
               />
@@ -279,7 +334,7 @@ export function VideoEnhancer() {
           >
             <ResolutionSelector
               sourceResolution={videoResolution}
-              onConfigChange={() => {}}
+              onConfigChange={handleResolutionConfigChange}
               videoElement={videoElement}
             />
           </motion.div>
@@ -294,6 +349,7 @@ export function VideoEnhancer() {
               settings={enhancementSettings}
               onChange={handleEnhancementSettingsChange}
               isEnhancing={isEnhancing}
+              sourceResolution={videoResolution}
             />
           </motion.div>
         </div>
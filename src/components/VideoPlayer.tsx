@@ -15,6 +15,8 @@ import {
 } from 'lucide-react';
 import { type VideoInfo } from '../utils/videoUtils';
 import { upscaleVideo, type UpscalingConfig, detectVideoPlatform } from '../utils/aiUpscaler';
+import { SceneAdaptiveConfig, type SceneInfo } from '../utils/sceneDetection';
+import { fromImageData } from '../utils/pixelFrame';
 import { StealthYouTubePlayer } from './StealthYouTubePlayer';
 import { UniversalVideoPlayer } from './UniversalVideoPlayer';
 
@@ -32,6 +34,8 @@ interface VideoPlayerProps {
   upscalingConfig?: UpscalingConfig | null;
   onVideoElementReady?: (element: HTMLVideoElement) => void;
   onResolutionDetected?: (resolution: { width: number; height: number }) => void;
+  /** Called whenever scene detection finds a new scene while upscaling */
+  onScenesDetected?: (scenes: SceneInfo[]) => void;
 }
 
 export function VideoPlayer({ 
@@ -41,12 +45,16 @@ export function VideoPlayer({
   enhancementSettings, 
   upscalingConfig,
   onVideoElementReady,
-  onResolutionDetected 
+  onResolutionDetected,
+  onScenesDetected
 }: VideoPlayerProps) {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const upscaledCanvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  const sceneConfigRef = useRef<SceneAdaptiveConfig | null>(null);
+  const onScenesDetectedRef = useRef(onScenesDetected);
+  onScenesDetectedRef.current = onScenesDetected;
   
   const [isPlaying, setIsPlaying] = useState(false);
   const [isMuted, setIsMuted] = useState(false);
@@ -58,6 +66,7 @@ export function VideoPlayer({
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [playbackRate, setPlaybackRate] = useState(1);
   const [volume, setVolume] = useState(1);
+  const [scenes, setScenes] = useState<SceneInfo[]>([]);
 
   // Determine if we're using a specific platform or universal detection
   const detectedPlatform = detectVideoPlatform(url);
@@ -101,6 +110,22 @@ export function VideoPlayer({
     };
   }, [onVideoElementReady, onResolutionDetected]);
 
+  // The generated config is the base; each scene gets its own analysis on top of it
+  useEffect(() => {
+    if (!upscalingConfig) {
+      sceneConfigRef.current = null;
+    } else if (sceneConfigRef.current) {
+      sceneConfigRef.current.setBaseConfig(upscalingConfig);
+    } else {
+      sceneConfigRef.current = new SceneAdaptiveConfig(upscalingConfig);
+    }
+  }, [upscalingConfig]);
+
+  useEffect(() => {
+    sceneConfigRef.current?.reset();
+    setScenes([]);
+  }, [url]);
+
   // AI Enhancement Effect
   useEffect(() => {
     if (!isEnhancing || !videoRef.current || !canvasRef.current) return;
@@ -125,6 +150,20 @@ export function VideoPlayer({
       const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
       const data = imageData.data;
 
+      // Scene analysis must see the frame before the filters below alter it
+      let frameConfig = upscalingConfig;
+      const sceneConfig = sceneConfigRef.current;
+      if (upscalingConfig && sceneConfig) {
+        const sceneCount = sceneConfig.getScenes().length;
+        frameConfig = sceneConfig.update(fromImageData(imageData), video.currentTime);
+
+        const detected = sceneConfig.getScenes();
+        if (detected.length !== sceneCount) {
+          setScenes(detected);
+          onScenesDetectedRef.current?.(detected);
+        }
+      }
+
       // Apply basic enhancement filters
       for (let i = 0; i < data.length; i += 4) {
         // Sharpening
@@ -155,8 +194,8 @@ export function VideoPlayer({
       ctx.putImageData(imageData, 0, 0);
 
       // Handle upscaling if config is provided
-      if (upscalingConfig && upscaledCanvasRef.current) {
-        upscaleVideo(canvas, upscaledCanvasRef.current, upscalingConfig);
+      if (frameConfig && upscaledCanvasRef.current) {
+        upscaleVideo(canvas, upscaledCanvasRef.current, frameConfig);
       }
 
       animationId = requestAnimationFrame(processFrame);
@@ -394,6 +433,25 @@ export function VideoPlayer({
             />
           </div>
 
+          {/* Detected scenes */}
+          {scenes.length > 1 && duration > 0 && (
+            <div className="flex flex-wrap gap-1 text-xs">
+              <span className="text-gray-400 mr-1">Scenes:</span>
+              {scenes.map((scene, index) => (
+                <button
+                  key={scene.start}
+                  onClick={() => {
+                    if (videoRef.current) videoRef.current.currentTime = scene.start;
+                  }}
+                  className="px-2 py-0.5 bg-gray-700 hover:bg-gray-600 rounded text-gray-200"
+                  title={`Scene ${index + 1}: ${scene.metrics.quality}, lighting ${Math.round(scene.metrics.lightingQuality * 100)}%`}
+                >
+                  {formatTime(scene.start)}
+                </button>
+              ))}
+            </div>
+          )}
+
           {/* Enhanced Control Buttons */}
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-3">
@@ -0,0 +1,101 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState, type RefObject } from 'react';
+import { getBufferAhead, isDashUrl, type AdaptivePlaybackState, type StreamRendition } from '../utils/adaptiveStreaming';
+import { DashPlayer } from '../utils/dashPlayer';
+
+interface DashPlayerOptions {
+  videoRef: RefObject<HTMLVideoElement | null>;
+  src: string;
+  enabled?: boolean;
+}
+
+export interface DashPlayerState extends AdaptivePlaybackState {
+  isDash: boolean;
+}
+
+const BUFFER_POLL_MS = 500;
+
+/**
+ * Attach an MPEG-DASH (.mpd) source to a video element through Media Source Extensions.
+ * Non-DASH sources are left for the caller to set as the element's src.
+ */
+export function useDashPlayer({ videoRef, src, enabled = true }: DashPlayerOptions): DashPlayerState {
+  const playerRef = useRef<DashPlayer | null>(null);
+  const [renditions, setRenditions] = useState<StreamRendition[]>([]);
+  const [currentRendition, setCurrentRendition] = useState(-1);
+  const [autoQuality, setAutoQuality] = useState(true);
+  const [bufferAhead, setBufferAhead] = useState(0);
+  const [recovering, setRecovering] = useState<'network' | 'media' | null>(null);
+  const [error, setError] = useState('');
+
+  const isDash = enabled && !!src && isDashUrl(src);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    setRenditions([]);
+    setCurrentRendition(-1);
+    setAutoQuality(true);
+    setRecovering(null);
+    setError('');
+
+    if (!isDash || !video) return;
+
+    // No browser plays DASH natively; without MSE (older iOS) there is no way to play it
+    if (typeof MediaSource === 'undefined') {
+      setError('This browser cannot play DASH streams');
+      return;
+    }
+
+    let cancelled = false;
+    const player = new DashPlayer(video, src, {
+      onRenditions: setRenditions,
+      onRenditionChange: setCurrentRendition,
+      onRecovering: setRecovering,
+      onError: message => {
+        setRecovering(null);
+        setError(message);
+      }
+    });
+    playerRef.current = player;
+
+    player.load().catch(loadError => {
+      if (cancelled) return;
+      console.error('DASH playback failed to start:', loadError);
+      setError(loadError instanceof Error ? loadError.message : 'DASH stream could not be loaded');
+    });
+
+    return () => {
+      cancelled = true;
+      player.destroy();
+      playerRef.current = null;
+    };
+  }, [isDash, src, videoRef]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!isDash || !video) return;
+
+    const interval = setInterval(() => setBufferAhead(getBufferAhead(video)), BUFFER_POLL_MS);
+    return () => clearInterval(interval);
+  }, [isDash, videoRef]);
+
+  const selectRendition = useCallback((index: number) => {
+    const player = playerRef.current;
+    if (!player) return;
+
+    player.selectRendition(index);
+    setAutoQuality(index === -1);
+  }, []);
+
+  return {
+    isDash,
+    renditions,
+    currentRendition,
+    autoQuality,
+    bufferAhead,
+    recovering,
+    error,
+    selectRendition
+  };
+}
@@ -0,0 +1,174 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState, type RefObject } from 'react';
+import type Hls from 'hls.js';
+import type { ErrorData } from 'hls.js';
+import { createRendition, getBufferAhead, isHlsUrl, type AdaptivePlaybackState, type StreamRendition } from '../utils/adaptiveStreaming';
+
+/**
+ * native: the browser plays the manifest itself (Safari, iOS); hls.js: Media Source Extensions;
+ * none: not an HLS source, or HLS can't be played here
+ */
+export type HlsPlaybackMode = 'native' | 'hls.js' | 'none';
+
+interface HlsPlayerOptions {
+  videoRef: RefObject<HTMLVideoElement | null>;
+  src: string;
+  enabled?: boolean;
+}
+
+export interface HlsPlayerState extends AdaptivePlaybackState {
+  isHls: boolean;
+  mode: HlsPlaybackMode;
+}
+
+const HLS_MIME_TYPE = 'application/vnd.apple.mpegurl';
+const BUFFER_POLL_MS = 500;
+// Fatal errors of one kind recovered from before giving up; reset once fragments load again
+const MAX_NETWORK_RETRIES = 3;
+const MAX_MEDIA_RECOVERIES = 2;
+
+/**
+ * Attach an HLS source to a video element: natively where the browser supports it, with
+ * hls.js elsewhere. Non-HLS sources are left for the caller to set as the element's src.
+ */
+export function useHlsPlayer({ videoRef, src, enabled = true }: HlsPlayerOptions): HlsPlayerState {
+  const hlsRef = useRef<Hls | null>(null);
+  const [mode, setMode] = useState<HlsPlaybackMode>('none');
+  const [renditions, setRenditions] = useState<StreamRendition[]>([]);
+  const [currentRendition, setCurrentRendition] = useState(-1);
+  const [autoQuality, setAutoQuality] = useState(true);
+  const [bufferAhead, setBufferAhead] = useState(0);
+  const [recovering, setRecovering] = useState<'network' | 'media' | null>(null);
+  const [error, setError] = useState('');
+
+  const isHls = enabled && !!src && isHlsUrl(src);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    setRenditions([]);
+    setCurrentRendition(-1);
+    setAutoQuality(true);
+    setRecovering(null);
+    setError('');
+
+    if (!isHls || !video) {
+      setMode('none');
+      return;
+    }
+
+    // Safari and iOS play HLS themselves, with their own ABR
+    if (video.canPlayType(HLS_MIME_TYPE)) {
+      video.src = src;
+      setMode('native');
+      return () => {
+        video.removeAttribute('src');
+        video.load();
+      };
+    }
+
+    let cancelled = false;
+    let networkRetries = 0;
+    let mediaRecoveries = 0;
+
+    import('hls.js').then(({ default: HlsPlayer }) => {
+      if (cancelled) return;
+
+      if (!HlsPlayer.isSupported()) {
+        setMode('none');
+        setError('This browser cannot play HLS streams');
+        return;
+      }
+
+      const hls = new HlsPlayer({ enableWorker: true });
+      hlsRef.current = hls;
+      setMode('hls.js');
+
+      hls.on(HlsPlayer.Events.MANIFEST_PARSED, (_event, data) => {
+        setRenditions(data.levels.map((level, index) => createRendition(index, level.width, level.height, level.bitrate)));
+      });
+
+      hls.on(HlsPlayer.Events.LEVEL_SWITCHED, (_event, data) => {
+        setCurrentRendition(data.level);
+      });
+
+      hls.on(HlsPlayer.Events.FRAG_BUFFERED, () => {
+        networkRetries = 0;
+        mediaRecoveries = 0;
+        setRecovering(null);
+      });
+
+      hls.on(HlsPlayer.Events.ERROR, (_event, data: ErrorData) => {
+        if (!data.fatal) return;
+
+        if (data.type === HlsPlayer.ErrorTypes.NETWORK_ERROR && networkRetries < MAX_NETWORK_RETRIES) {
+          networkRetries++;
+          console.warn(`HLS network error (${data.details}), retrying ${networkRetries}/${MAX_NETWORK_RETRIES}`);
+          setRecovering('network');
+          hls.startLoad();
+          return;
+        }
+
+        if (data.type === HlsPlayer.ErrorTypes.MEDIA_ERROR && mediaRecoveries < MAX_MEDIA_RECOVERIES) {
+          // A second media error in a row is often an audio codec mismatch
+          if (mediaRecoveries > 0) {
+            hls.swapAudioCodec();
+          }
+          mediaRecoveries++;
+          console.warn(`HLS media error (${data.details}), recovering ${mediaRecoveries}/${MAX_MEDIA_RECOVERIES}`);
+          setRecovering('media');
+          hls.recoverMediaError();
+          return;
+        }
+
+        console.error('HLS playback failed:', data.details, data.error);
+        setRecovering(null);
+        setError(`Stream playback failed (${data.details})`);
+        hls.destroy();
+        hlsRef.current = null;
+      });
+
+      hls.loadSource(src);
+      hls.attachMedia(video);
+    }).catch(loadError => {
+      if (cancelled) return;
+      console.error('Failed to load hls.js:', loadError);
+      setError('HLS player could not be loaded');
+    });
+
+    return () => {
+      cancelled = true;
+      hlsRef.current?.destroy();
+      hlsRef.current = null;
+    };
+  }, [isHls, src, videoRef]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!isHls || !video) return;
+
+    const interval = setInterval(() => setBufferAhead(getBufferAhead(video)), BUFFER_POLL_MS);
+    return () => clearInterval(interval);
+  }, [isHls, videoRef]);
+
+  const selectRendition = useCallback((index: number) => {
+    const hls = hlsRef.current;
+    if (!hls) return;
+
+    // -1 hands selection back to the ABR controller; a manual pick switches immediately
+    hls.currentLevel = index;
+    setAutoQuality(index === -1);
+  }, []);
+
+  return {
+    isHls,
+    mode,
+    renditions,
+    currentRendition,
+    autoQuality,
+    bufferAhead,
+    recovering,
+    error,
+    selectRendition
+  };
+}
@@ -5,60 +5,186 @@ import { useRef, useEffect, useState, useCallback } from 'react';
 interface VideoFrameCaptureProps {
   videoElement?: HTMLVideoElement;
   isCapturing: boolean;
-  onFrameCaptured?: (canvas: HTMLCanvasElement) => void;
+  onFrameCaptured?: (canvas: HTMLCanvasElement, frame: CapturedFrame) => void;
   targetFPS?: number;
 }
 
-export function useVideoFrameCapture({ 
-  videoElement, 
-  isCapturing, 
+export interface CapturedFrame {
+  /** Presentation timestamp of the frame, in seconds of media time */
+  mediaTime: number;
+  /** Frames presented since playback began, counting this one */
+  presentedFrames: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * video-frame-callback: one callback per presented frame (requestVideoFrameCallback);
+ * interval: polling fallback for browsers without it, which skips frames it has already seen
+ */
+export type FrameCaptureMode = 'video-frame-callback' | 'interval';
+
+export interface FrameCaptureStats {
+  mode: FrameCaptureMode;
+  capturedFrames: number;
+  presentedFrames: number;
+  /** Presented frames that went by between two callbacks, e.g. while the main thread was busy */
+  missedFrames: number;
+  /** Frames the browser itself dropped before presenting them */
+  droppedFrames: number;
+  mediaTime: number;
+}
+
+const STATS_INTERVAL_MS = 500;
+// Leeway when throttling to targetFPS, so 30fps capture of a 29.97fps source doesn't skip frames
+const FRAME_TIME_TOLERANCE = 0.9;
+
+function supportsVideoFrameCallback(video: HTMLVideoElement): boolean {
+  return typeof video.requestVideoFrameCallback === 'function';
+}
+
+function droppedVideoFrames(video: HTMLVideoElement): number {
+  return typeof video.getVideoPlaybackQuality === 'function' ? video.getVideoPlaybackQuality().droppedVideoFrames : 0;
+}
+
+function createStats(mode: FrameCaptureMode): FrameCaptureStats {
+  return { mode, capturedFrames: 0, presentedFrames: 0, missedFrames: 0, droppedFrames: 0, mediaTime: 0 };
+}
+
+export function useVideoFrameCapture({
+  videoElement,
+  isCapturing,
   onFrameCaptured,
-  targetFPS = 30 
+  targetFPS = 30
 }: VideoFrameCaptureProps) {
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [captureRate] = useState(1000 / targetFPS);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const onFrameCapturedRef = useRef(onFrameCaptured);
+  const statsRef = useRef<FrameCaptureStats>(createStats('interval'));
+  const [stats, setStats] = useState<FrameCaptureStats>(statsRef.current);
 
-  const captureFrame = useCallback(() => {
-    if (!videoElement || !canvasRef.current || videoElement.paused || videoElement.ended) {
-      return null;
+  useEffect(() => {
+    onFrameCapturedRef.current = onFrameCaptured;
+  }, [onFrameCaptured]);
+
+  const drawFrame = useCallback((video: HTMLVideoElement, frame: CapturedFrame): HTMLCanvasElement | null => {
+    if (!frame.width || !frame.height) return null;
+
+    const canvas = canvasRef.current ?? (canvasRef.current = document.createElement('canvas'));
+    // Resizing clears and reallocates the backing store, so only do it when the video's size changes
+    if (canvas.width !== frame.width || canvas.height !== frame.height) {
+      canvas.width = frame.width;
+      canvas.height = frame.height;
     }
 
-    const canvas = canvasRef.current;
-    const ctx = canvas.getContext('2d');
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
     if (!ctx) return null;
 
-    // Set canvas to match video dimensions
-    canvas.width = videoElement.videoWidth || videoElement.clientWidth;
-    canvas.height = videoElement.videoHeight || videoElement.clientHeight;
-
     try {
       // Draw current video frame to canvas
-      ctx.drawImage(videoElement, 0, 0, canvas.width, canvas.height);
-      
-      if (onFrameCaptured) {
-        onFrameCaptured(canvas);
-      }
-      
-      return canvas;
+      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
     } catch (error) {
       // Handle CORS or other drawing errors
       console.warn('Frame capture failed:', error);
       return null;
     }
-  }, [videoElement, onFrameCaptured]);
+
+    const stats = statsRef.current;
+    stats.capturedFrames++;
+    stats.mediaTime = frame.mediaTime;
+    onFrameCapturedRef.current?.(canvas, frame);
+    return canvas;
+  }, []);
+
+  /**
+   * Capture whatever frame the video is showing now, outside the capture loop
+   */
+  const captureFrame = useCallback(() => {
+    if (!videoElement) return null;
+    return drawFrame(videoElement, {
+      mediaTime: videoElement.currentTime,
+      presentedFrames: statsRef.current.presentedFrames,
+      width: videoElement.videoWidth,
+      height: videoElement.videoHeight
+    });
+  }, [videoElement, drawFrame]);
 
   useEffect(() => {
     if (!isCapturing || !videoElement) return;
 
-    const interval = setInterval(() => {
-      captureFrame();
-    }, captureRate);
+    const video = videoElement;
+    const minFrameInterval = (1 / targetFPS) * FRAME_TIME_TOLERANCE;
+    const stats = createStats(supportsVideoFrameCallback(video) ? 'video-frame-callback' : 'interval');
+    statsRef.current = stats;
+    setStats({ ...stats });
+    let lastCapturedTime = -Infinity;
+    let lastPresentedFrames = -1;
+
+    // Called once per new frame; throttles to targetFPS by media time so playback rate doesn't matter
+    const handleFrame = (frame: CapturedFrame) => {
+      if (lastPresentedFrames >= 0 && frame.presentedFrames > lastPresentedFrames + 1) {
+        stats.missedFrames += frame.presentedFrames - lastPresentedFrames - 1;
+      }
+      lastPresentedFrames = frame.presentedFrames;
+      stats.presentedFrames = frame.presentedFrames;
+
+      // Seeking backwards restarts the throttle
+      if (frame.mediaTime < lastCapturedTime) {
+        lastCapturedTime = -Infinity;
+      }
+      if (frame.mediaTime - lastCapturedTime < minFrameInterval) return;
+
+      if (drawFrame(video, frame)) {
+        lastCapturedTime = frame.mediaTime;
+      }
+    };
+
+    let callbackId = 0;
+    let interval: ReturnType<typeof setInterval> | undefined;
+
+    if (stats.mode === 'video-frame-callback') {
+      const onVideoFrame = (_now: DOMHighResTimeStamp, metadata: VideoFrameCallbackMetadata) => {
+        callbackId = video.requestVideoFrameCallback(onVideoFrame);
+        handleFrame({
+          mediaTime: metadata.mediaTime,
+          presentedFrames: metadata.presentedFrames,
+          width: metadata.width,
+          height: metadata.height
+        });
+      };
+      callbackId = video.requestVideoFrameCallback(onVideoFrame);
+    } else {
+      // Without frame callbacks the only frame identity is currentTime; an unchanged time is a duplicate
+      let lastTime = -1;
+      let estimatedFrames = 0;
+      interval = setInterval(() => {
+        if (video.paused || video.ended || video.currentTime === lastTime) return;
+        lastTime = video.currentTime;
+        const quality = typeof video.getVideoPlaybackQuality === 'function' ? video.getVideoPlaybackQuality() : null;
+        estimatedFrames = quality ? quality.totalVideoFrames - quality.droppedVideoFrames : estimatedFrames + 1;
+        handleFrame({
+          mediaTime: video.currentTime,
+          presentedFrames: estimatedFrames,
+          width: video.videoWidth,
+          height: video.videoHeight
+        });
+      }, 1000 / targetFPS);
+    }
+
+    const statsInterval = setInterval(() => {
+      stats.droppedFrames = droppedVideoFrames(video);
+      setStats({ ...stats });
+    }, STATS_INTERVAL_MS);
 
-    return () => clearInterval(interval);
-  }, [isCapturing, videoElement, captureRate, captureFrame]);
+    return () => {
+      if (callbackId) video.cancelVideoFrameCallback(callbackId);
+      if (interval) clearInterval(interval);
+      clearInterval(statsInterval);
+    };
+  }, [isCapturing, videoElement, targetFPS, drawFrame]);
 
   return {
     captureFrame,
-    canvas: canvasRef.current
+    canvas: canvasRef.current,
+    stats
   };
 }
@@ -0,0 +1,92 @@
+/**
+ * Shared pieces of adaptive-bitrate playback: detecting manifest URLs (including ones wrapped
+ * by /api/proxy), describing renditions, and measuring how much video is buffered ahead.
+ */
+
+export interface StreamRendition {
+  /** Index in the player's level list; passed back to select this rendition */
+  index: number;
+  width: number;
+  height: number;
+  /** Peak bandwidth in bits per second */
+  bitrate: number;
+  label: string;
+}
+
+/**
+ * What adaptive players (hls.js, DASH) report to the controls
+ */
+export interface AdaptivePlaybackState {
+  renditions: StreamRendition[];
+  /** Rendition being played, or -1 before the first switch */
+  currentRendition: number;
+  /** True while the player picks renditions by bandwidth */
+  autoQuality: boolean;
+  /** Seconds buffered ahead of the playhead */
+  bufferAhead: number;
+  /** Set while recovering from a fatal error, e.g. 'network' */
+  recovering: 'network' | 'media' | null;
+  error: string;
+  /** Pick a rendition by index, or -1 for automatic selection */
+  selectRendition: (index: number) => void;
+}
+
+/**
+ * The URL a proxy or downloader route points at, or the URL itself
+ */
+export function unwrapProxyUrl(url: string): string {
+  try {
+    const parsed = new URL(url, 'http://localhost');
+    return parsed.searchParams.get('url') ?? url;
+  } catch {
+    return url;
+  }
+}
+
+function hasExtension(url: string, extension: string): boolean {
+  const target = unwrapProxyUrl(url);
+  try {
+    return new URL(target, 'http://localhost').pathname.toLowerCase().endsWith(extension);
+  } catch {
+    return target.toLowerCase().includes(extension);
+  }
+}
+
+export function isHlsUrl(url: string): boolean {
+  return hasExtension(url, '.m3u8');
+}
+
+export function isDashUrl(url: string): boolean {
+  return hasExtension(url, '.mpd');
+}
+
+export function formatBitrate(bitsPerSecond: number): string {
+  return bitsPerSecond >= 1_000_000
+    ? `${(bitsPerSecond / 1_000_000).toFixed(1)} Mbps`
+    : `${Math.round(bitsPerSecond / 1000)} kbps`;
+}
+
+export function createRendition(index: number, width: number, height: number, bitrate: number): StreamRendition {
+  const size = height ? `${height}p` : `Level ${index + 1}`;
+  return { index, width, height, bitrate, label: bitrate ? `${size} · ${formatBitrate(bitrate)}` : size };
+}
+
+/**
+ * Seconds of media buffered contiguously ahead of the playhead
+ */
+export function getBufferAhead(video: HTMLVideoElement): number {
+  return getRangeAhead(video.buffered, video.currentTime);
+}
+
+/**
+ * Seconds covered contiguously by `buffered` from `currentTime` on, e.g. for one SourceBuffer
+ */
+export function getRangeAhead(buffered: TimeRanges, currentTime: number): number {
+  for (let i = 0; i < buffered.length; i++) {
+    // Small tolerance: the playhead often sits a hair before the start of the range it is in
+    if (buffered.start(i) <= currentTime + 0.1 && buffered.end(i) >= currentTime) {
+      return buffered.end(i) - currentTime;
+    }
+  }
+  return 0;
+}
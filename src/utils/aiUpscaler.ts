@@ -3,6 +3,31 @@
  * Implements sophisticated pixel interpolation and enhancement techniques
  */
 
+import type { StripeWorkerPool } from './stripeWorkerPool';
+import { SuperResolutionModelRegistry } from './superResolutionModels';
+import { clonePixelFrame, createPixelFrame, cropPixelFrame, readCanvasFrame, writeCanvasFrame, type PixelFrame } from './pixelFrame';
+import {
+  createPipelineFromEnhancementConfig,
+  createPipelineFromUpscalingConfig,
+  getResampleSize,
+  getDebandRange,
+  getStageRadius,
+  isStageEnabled,
+  withColorMatrix,
+  type EnhancementPipeline,
+  type DeinterlaceStage,
+  type PipelineStage,
+  type ResampleStage
+} from './enhancementPipeline';
+import { exceedsMemoryLimit, runTiledPipeline, runTiledPipelineAsync, type StageContext } from './tiledProcessing';
+import { TemporalDenoiser } from './temporalDenoiser';
+import { deinterlaceFrame, estimateInterlacing, type DeinterlaceMode, type FieldOrder } from './deinterlace';
+import { cropToContent, padFrame, type CropRect } from './blackBars';
+import { getPresetsForSource, placeInTarget, type FitPolicy } from './resolutionPresets';
+import { applyLut, getLut, type LutSelection } from './colorLut';
+import { chooseColorMatrix, clampByte, fromYCbCr, toYCbCr, type ColorMatrix } from './colorSpace';
+import { boostContrast, correctLighting, measureContrast, measureLighting } from './toneCorrection';
+
 export interface UpscalingConfig {
   targetWidth: number;
   targetHeight: number;
@@ -14,115 +39,338 @@ export interface UpscalingConfig {
   lightingCorrection: number;
   contrastBoost: number;
   detailReconstruction: number;
+  /** Strength of the codec block-artifact filter, 0-1 */
+  deblocking: number;
+  /** Strength of the gradient debanding filter, 0-1 */
+  debanding?: number;
+  /** Deinterlacer to run first; omitted for progressive sources */
+  deinterlace?: DeinterlaceMode;
+  fieldOrder?: FieldOrder;
+  lanczosLobes?: 2 | 3;
+  pipeline?: EnhancementPipeline;
+  /** Per-frame memory ceiling in MB; larger jobs are processed in overlapping tiles */
+  memoryLimitMB?: number;
+  /** Picture area kept before the pipeline; letterbox or pillarbox bars outside it are dropped */
+  crop?: CropRect;
+  /**
+   * How the picture is placed when its shape differs from the target; without a policy
+   * (and without a crop) the picture is stretched to the target size
+   */
+  fitPolicy?: FitPolicy;
+  /** YCbCr matrix of the source (from its metadata); picked from the source size when omitted */
+  colorMatrix?: ColorMatrix;
+  /** Colour look applied after the other adjustments */
+  lut?: LutSelection;
 }
 
 export interface VideoMetrics {
   width: number;
   height: number;
   quality: 'poor' | 'fair' | 'good' | 'excellent';
+  /** Largest per-channel noise sigma mapped to 0-1 */
   noiseLevel: number;
+  /** Laplacian-variance sharpness after discounting noise, 0-1 */
   sharpnessScore: number;
+  /** Mean 1st-99th percentile spread of the RGB channels, 0-1 */
   colorRange: number;
+  /** Exposure of the median luma, penalized by clipping, 0-1 */
   lightingQuality: number;
+  /** 1st-99th percentile luma spread, 0-1 */
   contrastRatio: number;
+  /** How strongly 8×8 block boundaries stand out from the rest of the image, 0-1 */
+  blockiness: number;
+  /** Likelihood that the frame shows interlace combing, 0-1 */
+  interlaceScore: number;
+  /** Share of the frame covered by flat bands ending in one- or two-level steps, 0-1 */
+  banding: number;
+  /** Fraction of pixels per luma bin, LUMA_HISTOGRAM_BINS bins */
+  lumaHistogram: number[];
+  /** Fraction of pixels crushed to black */
+  clippedShadows: number;
+  /** Fraction of pixels blown out to white */
+  clippedHighlights: number;
+  /** Raw Laplacian variance of luma, the usual blur measure (below ~100 reads as blurry) */
+  laplacianVariance: number;
+  /** Estimated noise standard deviation per channel, in 8-bit levels */
+  noiseSigma: { r: number; g: number; b: number };
+  /** HSV saturation: mean, standard deviation and fraction saturated against the channel ceiling */
+  saturation: { mean: number; spread: number; clipped: number };
+}
+
+export const LUMA_HISTOGRAM_BINS = 64;
+
+// Luma at or beyond these levels holds no recoverable detail
+const SHADOW_CLIP_LEVEL = 4;
+const HIGHLIGHT_CLIP_LEVEL = 251;
+// sRGB encoding of 18% grey, where a well exposed median sits
+const MID_GREY = 118;
+// Noise sigma (8-bit levels) treated as the maximum noise level
+const NOISE_SIGMA_CEILING = 12;
+// Laplacian variance at which a frame counts as half sharp
+const LAPLACIAN_HALF_SHARP = 300;
+// Shortest flat run that, ended by a small step, reads as a band rather than texture
+const BAND_MIN_RUN = 6;
+
+function histogramPercentile(histogram: ArrayLike<number>, total: number, fraction: number): number {
+  const target = total * fraction;
+  let cumulative = 0;
+  for (let level = 0; level < histogram.length; level++) {
+    cumulative += histogram[level];
+    if (cumulative >= target) return level;
+  }
+  return histogram.length - 1;
 }
 
 /**
  * Analyze video quality and recommend upscaling settings
  */
-export function analyzeVideoQuality(imageData: ImageData): VideoMetrics {
+export function analyzeVideoQuality(imageData: PixelFrame): VideoMetrics {
   const { data, width, height } = imageData;
+  const pixelCount = width * height;
   
-  // Calculate noise level
-  let noiseLevel = 0;
-  let totalVariance = 0;
+  const luma = new Uint8Array(pixelCount);
+  const lumaHist = new Array(256).fill(0);
+  const channelHists = [new Array(256).fill(0), new Array(256).fill(0), new Array(256).fill(0)];
+  let saturationSum = 0;
+  let saturationSquares = 0;
+  let saturationClipped = 0;
   
-  for (let i = 0; i < data.length; i += 4) {
+  for (let i = 0, p = 0; i < data.length; i += 4, p++) {
     const r = data[i];
     const g = data[i + 1];
     const b = data[i + 2];
     
-    // Simple noise detection based on local variance
-    if (i >= width * 4 && i < data.length - width * 4) {
-      const prevR = data[i - width * 4];
-      const nextR = data[i + width * 4];
-      const prevG = data[i - width * 4 + 1];
-      const nextG = data[i + width * 4 + 1];
-      const prevB = data[i - width * 4 + 2];
-      const nextB = data[i + width * 4 + 2];
-      
-      const variance = Math.abs(r - prevR) + Math.abs(r - nextR) +
-                      Math.abs(g - prevG) + Math.abs(g - nextG) +
-                      Math.abs(b - prevB) + Math.abs(b - nextB);
-      totalVariance += variance;
+    luma[p] = Math.round(0.299 * r + 0.587 * g + 0.114 * b);
+    lumaHist[luma[p]]++;
+    channelHists[0][r]++;
+    channelHists[1][g]++;
+    channelHists[2][b]++;
+    
+    const max = Math.max(r, g, b);
+    const saturation = max > 0 ? (max - Math.min(r, g, b)) / max : 0;
+    saturationSum += saturation;
+    saturationSquares += saturation * saturation;
+    if (saturation > 0.9 && max >= HIGHLIGHT_CLIP_LEVEL) saturationClipped++;
+  }
+  
+  // Percentiles instead of min/max, so a few stray pixels don't decide the range
+  const colorRange = channelHists.reduce((sum, hist) => 
+    sum + histogramPercentile(hist, pixelCount, 0.99) - histogramPercentile(hist, pixelCount, 0.01), 0) / (3 * 255);
+  const contrastRatio = (histogramPercentile(lumaHist, pixelCount, 0.99) - histogramPercentile(lumaHist, pixelCount, 0.01)) / 255;
+  
+  let clipped = 0;
+  for (let level = 0; level <= SHADOW_CLIP_LEVEL; level++) clipped += lumaHist[level];
+  const clippedShadows = clipped / pixelCount;
+  clipped = 0;
+  for (let level = HIGHLIGHT_CLIP_LEVEL; level < 256; level++) clipped += lumaHist[level];
+  const clippedHighlights = clipped / pixelCount;
+  
+  const median = histogramPercentile(lumaHist, pixelCount, 0.5);
+  const exposure = 1 - Math.abs(median - MID_GREY) / (255 - MID_GREY);
+  const lightingQuality = Math.max(0, Math.min(1, exposure - 2 * (clippedShadows + clippedHighlights)));
+  
+  const lumaHistogram = new Array(LUMA_HISTOGRAM_BINS).fill(0);
+  for (let level = 0; level < 256; level++) {
+    lumaHistogram[Math.floor(level * LUMA_HISTOGRAM_BINS / 256)] += lumaHist[level] / pixelCount;
+  }
+  
+  const noiseSigma = estimateNoiseSigma(imageData, luma);
+  const maxSigma = Math.max(noiseSigma.r, noiseSigma.g, noiseSigma.b);
+  const noiseLevel = Math.min(1, maxSigma / NOISE_SIGMA_CEILING);
+  
+  // White noise of variance v adds 20·v to the variance of the 4-neighbour Laplacian;
+  // channel noise is independent, so it reaches luma in quadrature
+  const laplacianVariance = computeLaplacianVariance(luma, width, height);
+  const lumaNoiseVariance = (0.299 * noiseSigma.r) ** 2 + (0.587 * noiseSigma.g) ** 2 + (0.114 * noiseSigma.b) ** 2;
+  const detailVariance = Math.max(0, laplacianVariance - 20 * lumaNoiseVariance);
+  const sharpnessScore = detailVariance / (detailVariance + LAPLACIAN_HALF_SHARP);
+  
+  const blockiness = estimateBlockiness(imageData);
+  const banding = estimateBanding(luma, width, height);
+  
+  const saturationMean = saturationSum / pixelCount;
+  const saturation = {
+    mean: saturationMean,
+    spread: Math.sqrt(Math.max(0, saturationSquares / pixelCount - saturationMean * saturationMean)),
+    clipped: saturationClipped / pixelCount
+  };
+  
+  // Detail that survives the worst artifact, graded by resolution
+  const fidelity = sharpnessScore * (1 - Math.max(noiseLevel, blockiness, banding * 0.7));
+  let quality: VideoMetrics['quality'] = 'poor';
+  if (width >= 1920 && fidelity > 0.6) quality = 'excellent';
+  else if (width >= 1280 && fidelity > 0.4) quality = 'good';
+  else if (width >= 720 && fidelity > 0.2) quality = 'fair';
+  
+  return {
+    width,
+    height,
+    quality,
+    noiseLevel,
+    sharpnessScore,
+    colorRange,
+    lightingQuality,
+    contrastRatio,
+    blockiness,
+    interlaceScore: estimateInterlacing(imageData),
+    banding,
+    lumaHistogram,
+    clippedShadows,
+    clippedHighlights,
+    laplacianVariance,
+    noiseSigma,
+    saturation
+  };
+}
+
+function computeLaplacianVariance(luma: Uint8Array, width: number, height: number): number {
+  if (width < 3 || height < 3) return 0;
+  
+  let sum = 0;
+  let sumSquares = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const p = y * width + x;
+      const laplacian = 4 * luma[p] - luma[p - 1] - luma[p + 1] - luma[p - width] - luma[p + width];
+      sum += laplacian;
+      sumSquares += laplacian * laplacian;
     }
   }
   
-  noiseLevel = totalVariance / (data.length / 4);
+  const count = (width - 2) * (height - 2);
+  const mean = sum / count;
+  return sumSquares / count - mean * mean;
+}
+
+/**
+ * Immerkær's fast noise estimate per channel, skipping the 10% most textured pixels
+ * so edges aren't mistaken for noise
+ */
+function estimateNoiseSigma(imageData: PixelFrame, luma: Uint8Array): VideoMetrics['noiseSigma'] {
+  const { data, width, height } = imageData;
+  if (width < 3 || height < 3) return { r: 0, g: 0, b: 0 };
   
-  // Calculate sharpness score
-  let sharpnessScore = 0;
+  const gradientHist = new Array(1021).fill(0);
+  const gradients = new Uint16Array(width * height);
   for (let y = 1; y < height - 1; y++) {
     for (let x = 1; x < width - 1; x++) {
-      const idx = (y * width + x) * 4;
-      const center = data[idx];
-      const left = data[idx - 4];
-      const right = data[idx + 4];
-      const top = data[idx - width * 4];
-      const bottom = data[idx + width * 4];
-      
-      const gradient = Math.abs(center - left) + Math.abs(center - right) + 
-                      Math.abs(center - top) + Math.abs(center - bottom);
-      sharpnessScore += gradient;
+      const p = y * width + x;
+      const gradient = Math.abs(luma[p + 1] - luma[p - 1]) + Math.abs(luma[p + width] - luma[p - width]);
+      gradients[p] = gradient;
+      gradientHist[gradient]++;
     }
   }
-  sharpnessScore /= ((width - 2) * (height - 2));
+  const threshold = histogramPercentile(gradientHist, (width - 2) * (height - 2), 0.9);
   
-  // Calculate color range
-  let minR = 255, maxR = 0, minG = 255, maxG = 0, minB = 255, maxB = 0;
-  for (let i = 0; i < data.length; i += 4) {
-    minR = Math.min(minR, data[i]);
-    maxR = Math.max(maxR, data[i]);
-    minG = Math.min(minG, data[i + 1]);
-    maxG = Math.max(maxG, data[i + 1]);
-    minB = Math.min(minB, data[i + 2]);
-    maxB = Math.max(maxB, data[i + 2]);
+  const sums = [0, 0, 0];
+  let count = 0;
+  const stride = width * 4;
+  
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      if (gradients[y * width + x] > threshold) continue;
+      
+      const idx = (y * width + x) * 4;
+      for (let c = 0; c < 3; c++) {
+        const i = idx + c;
+        // [1 -2 1; -2 4 -2; 1 -2 1] cancels smooth image structure up to second order
+        const response = data[i - stride - 4] - 2 * data[i - stride] + data[i - stride + 4] -
+                         2 * data[i - 4] + 4 * data[i] - 2 * data[i + 4] +
+                         data[i + stride - 4] - 2 * data[i + stride] + data[i + stride + 4];
+        sums[c] += Math.abs(response);
+      }
+      count++;
+    }
   }
   
-  const colorRange = ((maxR - minR) + (maxG - minG) + (maxB - minB)) / 3;
+  const scale = Math.sqrt(Math.PI / 2) / (6 * Math.max(count, 1));
+  return { r: sums[0] * scale, g: sums[1] * scale, b: sums[2] * scale };
+}
+
+/**
+ * Quantized gradients show as flat runs ending in one- or two-level steps; dithered or
+ * textured areas never hold a level long enough. Half the frame banded scores 1.
+ */
+function estimateBanding(luma: Uint8Array, width: number, height: number): number {
+  let bandedPixels = 0;
+  let scanned = 0;
+  
+  const scan = (start: number, step: number, count: number) => {
+    let run = 1;
+    for (let k = 1; k < count; k++) {
+      const diff = Math.abs(luma[start + k * step] - luma[start + (k - 1) * step]);
+      if (diff === 0) {
+        run++;
+        continue;
+      }
+      if (diff <= 2 && run >= BAND_MIN_RUN) bandedPixels += run;
+      run = 1;
+    }
+    scanned += count;
+  };
   
-  // Calculate lighting quality (brightness distribution)
-  let totalBrightness = 0;
+  for (let y = 0; y < height; y++) scan(y * width, 1, width);
+  for (let x = 0; x < width; x++) scan(x, width, height);
   
-  for (let i = 0; i < data.length; i += 4) {
-    const brightness = (data[i] + data[i + 1] + data[i + 2]) / 3;
-    totalBrightness += brightness;
-  }
+  return scanned > 0 ? Math.min(1, 2 * bandedPixels / scanned) : 0;
+}
+
+// Codec transform size; 16×16 macroblock edges are a subset of the 8×8 grid
+const DEBLOCK_GRID = 8;
+
+function lumaAt(data: Uint8ClampedArray, idx: number): number {
+  return 0.299 * data[idx] + 0.587 * data[idx + 1] + 0.114 * data[idx + 2];
+}
+
+/**
+ * Compare luma steps across 8×8 grid lines with steps everywhere else.
+ * Uncompressed content scores ~0; visible macroblocking approaches 1.
+ */
+function estimateBlockiness(imageData: PixelFrame): number {
+  const { data, width, height } = imageData;
+  if (width < DEBLOCK_GRID * 2 || height < DEBLOCK_GRID * 2) return 0;
   
-  const avgBrightness = totalBrightness / (data.length / 4);
-  const lightingQuality = 1 - Math.abs(avgBrightness - 128) / 128; // Optimal at middle gray
+  let boundarySum = 0;
+  let boundaryCount = 0;
+  let interiorSum = 0;
+  let interiorCount = 0;
   
-  // Calculate contrast ratio
-  const contrastRatio = Math.min((maxR + maxG + maxB) / 3 / Math.max((minR + minG + minB) / 3, 1), 10) / 10;
+  for (let y = 1; y < height; y++) {
+    for (let x = 1; x < width; x++) {
+      const idx = (y * width + x) * 4;
+      const center = lumaAt(data, idx);
+      const stepX = Math.abs(center - lumaAt(data, idx - 4));
+      const stepY = Math.abs(center - lumaAt(data, idx - width * 4));
+      
+      if (x % DEBLOCK_GRID === 0) {
+        boundarySum += stepX;
+        boundaryCount++;
+      } else {
+        interiorSum += stepX;
+        interiorCount++;
+      }
+      
+      if (y % DEBLOCK_GRID === 0) {
+        boundarySum += stepY;
+        boundaryCount++;
+      } else {
+        interiorSum += stepY;
+        interiorCount++;
+      }
+    }
+  }
   
-  // Determine overall quality
-  let quality: VideoMetrics['quality'] = 'poor';
-  if (width >= 1920 && sharpnessScore > 15 && colorRange > 150) quality = 'excellent';
-  else if (width >= 1280 && sharpnessScore > 10 && colorRange > 100) quality = 'good';
-  else if (width >= 720 && sharpnessScore > 5 && colorRange > 50) quality = 'fair';
+  const boundaryMean = boundarySum / boundaryCount;
+  const interiorMean = interiorSum / interiorCount;
   
-  return {
-    width,
-    height,
-    quality,
-    noiseLevel: Math.min(noiseLevel / 50, 1),
-    sharpnessScore: Math.min(sharpnessScore / 20, 1),
-    colorRange: colorRange / 255,
-    lightingQuality,
-    contrastRatio
-  };
+  // Ratio of 1 means the grid is invisible; 2.5× and above is severe blocking
+  const ratio = boundaryMean / Math.max(interiorMean, 0.5);
+  return Math.max(0, Math.min(1, (ratio - 1) / 1.5));
 }
 
+// Mean HSV saturation of typical well-graded footage
+const TARGET_SATURATION = 0.35;
+
 /**
  * Generate optimal upscaling configuration based on source and target resolution
  */
@@ -142,16 +390,33 @@ export function generateUpscalingConfig(
     algorithm = 'lanczos';
   }
   
-  // Adjust enhancement parameters based on source quality
-  const sharpening = sourceMetrics.quality === 'poor' ? 0.8 : 
-                    sourceMetrics.quality === 'fair' ? 0.6 : 0.4;
+  // Lanczos-3 keeps more detail; Lanczos-2 rings less on noisy sources
+  const lanczosLobes: UpscalingConfig['lanczosLobes'] = sourceMetrics.noiseLevel > 0.5 ? 2 : 3;
+  
+  // Sharpening amplifies noise, block edges and band steps alike
+  const baseSharpening = sourceMetrics.quality === 'poor' ? 0.8 : 
+                        sourceMetrics.quality === 'fair' ? 0.6 : 0.4;
+  const sharpening = baseSharpening * (1 - sourceMetrics.blockiness * 0.5) *
+                     (1 - sourceMetrics.banding * 0.5) * (1 - sourceMetrics.noiseLevel * 0.3);
+  
+  // Below ~0.1 the grid is indistinguishable from texture
+  const deblocking = sourceMetrics.blockiness > 0.1 ? sourceMetrics.blockiness : 0;
+  const debanding = sourceMetrics.banding > 0.1 ? sourceMetrics.banding : 0;
+  const deinterlace: DeinterlaceMode | undefined = sourceMetrics.interlaceScore > 0.3 ? 'yadif' : undefined;
   
   const noiseReduction = sourceMetrics.noiseLevel;
-  const edgeEnhancement = 1 - sourceMetrics.sharpnessScore;
-  const colorEnhancement = 1 - sourceMetrics.colorRange;
-  const lightingCorrection = sourceMetrics.lightingQuality;
-  const contrastBoost = sourceMetrics.contrastRatio;
-  const detailReconstruction = sourceMetrics.sharpnessScore;
+  const edgeEnhancement = (1 - sourceMetrics.sharpnessScore) * (1 - sourceMetrics.noiseLevel * 0.5);
+  const detailReconstruction = (1 - sourceMetrics.sharpnessScore * 0.5) * (1 - sourceMetrics.noiseLevel * 0.5);
+  
+  // Lift dull colour towards a typical mean saturation, never push already clipped colour
+  const { saturation } = sourceMetrics;
+  const colorEnhancement = Math.max(0, Math.min(1, (TARGET_SATURATION - saturation.mean) / TARGET_SATURATION)) *
+                           Math.max(0, 1 - saturation.clipped * 10);
+  
+  const clipped = sourceMetrics.clippedShadows + sourceMetrics.clippedHighlights;
+  const lightingCorrection = 1 - sourceMetrics.lightingQuality;
+  // Stretching a frame that already clips would only clip more of it
+  const contrastBoost = Math.max(0, 1 - sourceMetrics.contrastRatio) * Math.max(0, 1 - clipped * 4);
   
   return {
     targetWidth: targetResolution.width,
@@ -163,14 +428,18 @@ export function generateUpscalingConfig(
     colorEnhancement,
     lightingCorrection,
     contrastBoost,
-    detailReconstruction
+    detailReconstruction,
+    deblocking,
+    debanding,
+    deinterlace,
+    lanczosLobes
   };
 }
 
 /**
  * Advanced bicubic interpolation with edge preservation
  */
-function bicubicInterpolation(src: ImageData, dst: ImageData): void {
+function bicubicInterpolation(src: PixelFrame, dst: PixelFrame): void {
   const { data: srcData, width: srcWidth, height: srcHeight } = src;
   const { data: dstData, width: dstWidth, height: dstHeight } = dst;
   
@@ -205,7 +474,7 @@ function bicubicInterpolation(src: ImageData, dst: ImageData): void {
           }
         }
         
-        dstData[dstIdx + c] = Math.max(0, Math.min(255, Math.round(value)));
+        dstData[dstIdx + c] = clampByte(value);
       }
       
       dstData[dstIdx + 3] = 255; // Alpha
@@ -213,6 +482,27 @@ function bicubicInterpolation(src: ImageData, dst: ImageData): void {
   }
 }
 
+/**
+ * Nearest-neighbour resampling, the DOM-free equivalent of drawImage without smoothing
+ */
+function nearestNeighborResample(src: PixelFrame, dst: PixelFrame): void {
+  const { data: srcData, width: srcWidth, height: srcHeight } = src;
+  const { data: dstData, width: dstWidth, height: dstHeight } = dst;
+  
+  for (let y = 0; y < dstHeight; y++) {
+    const srcY = Math.min(srcHeight - 1, Math.floor((y + 0.5) * srcHeight / dstHeight));
+    for (let x = 0; x < dstWidth; x++) {
+      const srcX = Math.min(srcWidth - 1, Math.floor((x + 0.5) * srcWidth / dstWidth));
+      const srcIdx = (srcY * srcWidth + srcX) * 4;
+      const dstIdx = (y * dstWidth + x) * 4;
+      dstData[dstIdx] = srcData[srcIdx];
+      dstData[dstIdx + 1] = srcData[srcIdx + 1];
+      dstData[dstIdx + 2] = srcData[srcIdx + 2];
+      dstData[dstIdx + 3] = srcData[srcIdx + 3];
+    }
+  }
+}
+
 /**
  * Cubic weight function for bicubic interpolation
  */
@@ -227,96 +517,234 @@ function cubicWeight(t: number): number {
 }
 
 /**
- * Super-resolution algorithm using edge-directed interpolation
+ * Windowed-sinc kernel: sinc(t) * sinc(t / lobes) inside the window, 0 outside
+ */
+function lanczosWeight(t: number, lobes: number): number {
+  if (t === 0) return 1;
+  const absT = Math.abs(t);
+  if (absT >= lobes) return 0;
+  const piT = Math.PI * t;
+  return (lobes * Math.sin(piT) * Math.sin(piT / lobes)) / (piT * piT);
+}
+
+/**
+ * Precompute normalized Lanczos taps for every output coordinate along one axis.
+ * When downscaling the kernel is stretched by the scale so it also acts as a low-pass filter.
+ */
+function computeLanczosTaps(srcSize: number, dstSize: number, lobes: number) {
+  const scale = srcSize / dstSize;
+  const filterScale = Math.max(1, scale);
+  const support = lobes * filterScale;
+  const tapCount = Math.ceil(support) * 2 + 1;
+
+  const indices = new Int32Array(dstSize * tapCount);
+  const weights = new Float32Array(dstSize * tapCount);
+
+  for (let d = 0; d < dstSize; d++) {
+    // Map pixel centers, not pixel corners, so the image does not drift by half a pixel
+    const center = (d + 0.5) * scale - 0.5;
+    const first = Math.floor(center - support) + 1;
+    let weightSum = 0;
+
+    for (let t = 0; t < tapCount; t++) {
+      const s = first + t;
+      const weight = lanczosWeight((s - center) / filterScale, lobes);
+      // Clamp to edge so border pixels are not darkened by missing samples
+      indices[d * tapCount + t] = Math.max(0, Math.min(srcSize - 1, s));
+      weights[d * tapCount + t] = weight;
+      weightSum += weight;
+    }
+
+    if (weightSum !== 0) {
+      for (let t = 0; t < tapCount; t++) {
+        weights[d * tapCount + t] /= weightSum;
+      }
+    }
+  }
+
+  return { indices, weights, tapCount };
+}
+
+/**
+ * Separable Lanczos resampling (Lanczos-2 or Lanczos-3).
+ * Color is filtered premultiplied by alpha so transparent pixels do not bleed into opaque ones.
  */
-function superResolutionUpscale(src: ImageData, dst: ImageData, config: UpscalingConfig): void {
+function lanczosResample(src: PixelFrame, dst: PixelFrame, lobes: 2 | 3 = 3): void {
+  const { data: srcData, width: srcWidth, height: srcHeight } = src;
+  const { data: dstData, width: dstWidth, height: dstHeight } = dst;
+
+  const horizontal = computeLanczosTaps(srcWidth, dstWidth, lobes);
+  const vertical = computeLanczosTaps(srcHeight, dstHeight, lobes);
+
+  // Horizontal pass: srcHeight rows x dstWidth columns, premultiplied RGBA in float
+  const intermediate = new Float32Array(dstWidth * srcHeight * 4);
+
+  for (let y = 0; y < srcHeight; y++) {
+    const rowOffset = y * srcWidth;
+    for (let x = 0; x < dstWidth; x++) {
+      let r = 0, g = 0, b = 0, a = 0;
+      const tapBase = x * horizontal.tapCount;
+
+      for (let t = 0; t < horizontal.tapCount; t++) {
+        const weight = horizontal.weights[tapBase + t];
+        if (weight === 0) continue;
+        const srcIdx = (rowOffset + horizontal.indices[tapBase + t]) * 4;
+        const alpha = srcData[srcIdx + 3] / 255;
+        r += srcData[srcIdx] * alpha * weight;
+        g += srcData[srcIdx + 1] * alpha * weight;
+        b += srcData[srcIdx + 2] * alpha * weight;
+        a += srcData[srcIdx + 3] * weight;
+      }
+
+      const idx = (y * dstWidth + x) * 4;
+      intermediate[idx] = r;
+      intermediate[idx + 1] = g;
+      intermediate[idx + 2] = b;
+      intermediate[idx + 3] = a;
+    }
+  }
+
+  // Vertical pass: un-premultiply and clamp back into 8-bit
+  for (let y = 0; y < dstHeight; y++) {
+    const tapBase = y * vertical.tapCount;
+    for (let x = 0; x < dstWidth; x++) {
+      let r = 0, g = 0, b = 0, a = 0;
+
+      for (let t = 0; t < vertical.tapCount; t++) {
+        const weight = vertical.weights[tapBase + t];
+        if (weight === 0) continue;
+        const idx = (vertical.indices[tapBase + t] * dstWidth + x) * 4;
+        r += intermediate[idx] * weight;
+        g += intermediate[idx + 1] * weight;
+        b += intermediate[idx + 2] * weight;
+        a += intermediate[idx + 3] * weight;
+      }
+
+      const dstIdx = (y * dstWidth + x) * 4;
+      const alpha = clampByte(a);
+      const unpremultiply = alpha > 0 ? 255 / alpha : 0;
+
+      dstData[dstIdx] = clampByte(r * unpremultiply);
+      dstData[dstIdx + 1] = clampByte(g * unpremultiply);
+      dstData[dstIdx + 2] = clampByte(b * unpremultiply);
+      dstData[dstIdx + 3] = alpha;
+    }
+  }
+}
+
+/**
+ * Super-resolution algorithm using edge-directed interpolation.
+ * Classical stand-in for neural upscaling while no model is available or inference is over budget.
+ */
+export function superResolutionUpscale(
+  src: PixelFrame,
+  width: number,
+  height: number,
+  edgeEnhancement = 0.5,
+  sharpening = 0.3,
+  matrix: ColorMatrix = chooseColorMatrix(src.width, src.height)
+): PixelFrame {
   // First apply bicubic interpolation
+  const dst = createPixelFrame(width, height);
   bicubicInterpolation(src, dst);
   
   // Then apply edge enhancement and sharpening
-  const enhanced = enhanceEdges(dst, config.edgeEnhancement);
-  const sharpened = applySharpeningFilter(enhanced, config.sharpening);
-  
-  // Copy results back
-  dst.data.set(sharpened.data);
+  return applySharpeningFilter(enhanceEdges(dst, edgeEnhancement, matrix), sharpening, matrix);
 }
 
 /**
- * Edge enhancement using directional gradients
+ * Edge enhancement using directional gradients, on luma only so edges gain no colour fringes
  */
-function enhanceEdges(imageData: ImageData, strength: number): ImageData {
-  const { data, width, height } = imageData;
-  const enhanced = new ImageData(width, height);
-  enhanced.data.set(data);
+function enhanceEdges(imageData: PixelFrame, strength: number, matrix: ColorMatrix): PixelFrame {
+  const { width, height } = imageData;
+  const planes = toYCbCr(imageData, matrix);
+  const luma = planes.y;
+  const enhanced = luma.slice();
   
   for (let y = 1; y < height - 1; y++) {
     for (let x = 1; x < width - 1; x++) {
-      const idx = (y * width + x) * 4;
+      const p = y * width + x;
       
-      for (let c = 0; c < 3; c++) {
-        // Calculate gradients in multiple directions
-        const center = data[idx + c];
-        const left = data[idx - 4 + c];
-        const right = data[idx + 4 + c];
-        const top = data[idx - width * 4 + c];
-        const bottom = data[idx + width * 4 + c];
-        
-        // Edge detection
-        const horizontalGrad = Math.abs(right - left);
-        const verticalGrad = Math.abs(bottom - top);
-        const edgeStrength = Math.sqrt(horizontalGrad * horizontalGrad + verticalGrad * verticalGrad);
-        
-        // Enhance edges
-        const enhancement = edgeStrength * strength * 0.1;
-        const newValue = center + (edgeStrength > 10 ? enhancement : -enhancement * 0.3);
-        
-        enhanced.data[idx + c] = Math.max(0, Math.min(255, newValue));
-      }
+      // Calculate gradients in multiple directions
+      const horizontalGrad = Math.abs(luma[p + 1] - luma[p - 1]);
+      const verticalGrad = Math.abs(luma[p + width] - luma[p - width]);
+      const edgeStrength = Math.sqrt(horizontalGrad * horizontalGrad + verticalGrad * verticalGrad);
+      
+      // Enhance edges
+      const enhancement = edgeStrength * strength * 0.1;
+      enhanced[p] = luma[p] + (edgeStrength > 10 ? enhancement : -enhancement * 0.3);
     }
   }
   
-  return enhanced;
+  return fromYCbCr({ ...planes, y: enhanced }, imageData, matrix);
 }
 
 /**
- * Advanced sharpening filter with overshoot protection
+ * Unsharp-mask sharpening of luma; chroma is left alone, as sharpening it only adds colour noise
  */
-function applySharpeningFilter(imageData: ImageData, strength: number): ImageData {
-  const { data, width, height } = imageData;
-  const sharpened = new ImageData(width, height);
-  sharpened.data.set(data);
-  
-  // Unsharp mask kernel
-  const kernel = [
-    [0, -1, 0],
-    [-1, 5, -1],
-    [0, -1, 0]
-  ];
+function applySharpeningFilter(imageData: PixelFrame, strength: number, matrix: ColorMatrix): PixelFrame {
+  const { width, height } = imageData;
+  const planes = toYCbCr(imageData, matrix);
+  const luma = planes.y;
+  const sharpened = luma.slice();
   
   for (let y = 1; y < height - 1; y++) {
     for (let x = 1; x < width - 1; x++) {
-      const idx = (y * width + x) * 4;
-      
-      for (let c = 0; c < 3; c++) {
-        let sum = 0;
-        
-        for (let ky = -1; ky <= 1; ky++) {
-          for (let kx = -1; kx <= 1; kx++) {
-            const pixelIdx = ((y + ky) * width + (x + kx)) * 4 + c;
-            sum += data[pixelIdx] * kernel[ky + 1][kx + 1];
-          }
-        }
-        
-        const original = data[idx + c];
-        const sharpValue = original + (sum - original) * strength;
-        
-        // Prevent overshoot
-        sharpened.data[idx + c] = Math.max(0, Math.min(255, sharpValue));
-      }
+      const p = y * width + x;
+      const original = luma[p];
+      // 5-point kernel: [0 -1 0; -1 5 -1; 0 -1 0]
+      const sum = 5 * original - luma[p - 1] - luma[p + 1] - luma[p - width] - luma[p + width];
+      sharpened[p] = original + (sum - original) * strength;
     }
   }
   
-  return sharpened;
+  // Overshoot is clamped once, on the way back to RGB
+  return fromYCbCr({ ...planes, y: sharpened }, imageData, matrix);
+}
+
+/**
+ * Upscale and enhance a single frame without touching the DOM.
+ * An explicit config.pipeline wins over the stage order derived from the config.
+ */
+export function upscaleFrame(srcFrame: PixelFrame, sourceConfig: UpscalingConfig): PixelFrame {
+  // Decided on the whole source: a crop or a tile is no guide to how the video was encoded
+  const config = {
+    ...sourceConfig,
+    colorMatrix: sourceConfig.colorMatrix ?? chooseColorMatrix(srcFrame.width, srcFrame.height)
+  };
+  
+  // Spend the target pixels on the picture, not on letterbox bars
+  const content = config.crop ? cropToContent(srcFrame, config.crop) : srcFrame;
+  const policy = config.fitPolicy ?? (config.crop ? 'fit' : undefined);
+
+  if (policy) {
+    const placement = placeInTarget(content.width, content.height, config.targetWidth, config.targetHeight, policy);
+    const { sourceRect } = placement;
+    const picture = sourceRect.width === content.width && sourceRect.height === content.height
+      ? content
+      : cropPixelFrame(content, sourceRect.x, sourceRect.y, sourceRect.width, sourceRect.height);
+
+    const upscaled = runUpscalingPipeline(picture, {
+      ...config,
+      targetWidth: placement.width,
+      targetHeight: placement.height
+    });
+    return padFrame(upscaled, placement.outputWidth, placement.outputHeight);
+  }
+
+  return runUpscalingPipeline(content, config);
+}
+
+function runUpscalingPipeline(srcFrame: PixelFrame, config: UpscalingConfig): PixelFrame {
+  let pipeline = config.pipeline ?? createPipelineFromUpscalingConfig(config);
+  if (config.colorMatrix) {
+    pipeline = withColorMatrix(pipeline, config.colorMatrix);
+  }
+  
+  if (exceedsMemoryLimit(pipeline, srcFrame.width, srcFrame.height, config.memoryLimitMB)) {
+    return runTiledPipeline(srcFrame, pipeline, applyPipelineStage, { memoryLimitMB: config.memoryLimitMB });
+  }
+  return runEnhancementPipeline(srcFrame, pipeline);
 }
 
 /**
@@ -327,109 +755,73 @@ export function upscaleVideo(
   targetCanvas: HTMLCanvasElement,
   config: UpscalingConfig
 ): void {
-  const srcCtx = sourceCanvas.getContext('2d')!;
-  const dstCtx = targetCanvas.getContext('2d')!;
-  
-  // Get source image data
-  const srcImageData = srcCtx.getImageData(0, 0, sourceCanvas.width, sourceCanvas.height);
-  
-  // Create target image data
-  const dstImageData = dstCtx.createImageData(config.targetWidth, config.targetHeight);
-  
-  // Apply selected upscaling algorithm
-  switch (config.algorithm) {
-    case 'deep-reconstruction':
-      // Advanced deep learning-inspired reconstruction
-      bicubicInterpolation(srcImageData, dstImageData);
-      const reconstructed = reconstructPixels(dstImageData, config.detailReconstruction);
-      const deepEnhanced = deepDetailReconstruction(reconstructed, config.detailReconstruction);
-      dstImageData.data.set(deepEnhanced.data);
-      break;
-    case 'super-resolution':
-      superResolutionUpscale(srcImageData, dstImageData, config);
-      break;
-    case 'ai-enhance':
-      // Advanced AI enhancement (placeholder for more complex algorithms)
-      bicubicInterpolation(srcImageData, dstImageData);
-      const enhanced = enhanceEdges(dstImageData, config.edgeEnhancement);
-      dstImageData.data.set(enhanced.data);
-      break;
-    case 'lanczos':
-      // Lanczos resampling (simplified)
-      bicubicInterpolation(srcImageData, dstImageData);
-      break;
-    default:
-      bicubicInterpolation(srcImageData, dstImageData);
-  }
-  
-  // Apply additional enhancements
-  if (config.noiseReduction > 0) {
-    applyNoiseReduction(dstImageData, config.noiseReduction);
-  }
-  
-  if (config.colorEnhancement > 0) {
-    enhanceColors(dstImageData, config.colorEnhancement);
-  }
-  
-  if (config.lightingCorrection > 0) {
-    const lightingCorrected = correctLighting(dstImageData, config.lightingCorrection);
-    dstImageData.data.set(lightingCorrected.data);
-  }
-  
-  if (config.contrastBoost > 0) {
-    const contrastEnhanced = enhanceContrast(dstImageData, config.contrastBoost);
-    dstImageData.data.set(contrastEnhanced.data);
-  }
+  const enhanced = upscaleFrame(readCanvasFrame(sourceCanvas), config);
   
   // Put the enhanced image data to target canvas
-  dstCtx.putImageData(dstImageData, 0, 0);
+  writeCanvasFrame(targetCanvas, enhanced);
 }
 
+// Chroma noise carries no detail worth keeping, so chroma is smoothed this much harder than luma
+const CHROMA_DENOISE_FACTOR = 2;
+
 /**
- * Noise reduction using bilateral filtering
+ * Bilateral filter over one plane, writing the interior into output
  */
-function applyNoiseReduction(imageData: ImageData, strength: number): void {
-  const { data, width, height } = imageData;
-  const filtered = new Uint8ClampedArray(data);
-  
-  const radius = Math.ceil(strength * 3);
-  const sigma = strength * 50;
-  
+function bilateralPlane(
+  plane: Float32Array,
+  output: Float32Array,
+  width: number,
+  height: number,
+  radius: number,
+  spatialSigma: number,
+  rangeSigma: number
+): void {
   for (let y = radius; y < height - radius; y++) {
     for (let x = radius; x < width - radius; x++) {
-      const centerIdx = (y * width + x) * 4;
+      const centerValue = plane[y * width + x];
+      let sum = 0;
+      let weightSum = 0;
       
-      for (let c = 0; c < 3; c++) {
-        let sum = 0;
-        let weightSum = 0;
-        const centerValue = data[centerIdx + c];
-        
-        for (let dy = -radius; dy <= radius; dy++) {
-          for (let dx = -radius; dx <= radius; dx++) {
-            const neighborIdx = ((y + dy) * width + (x + dx)) * 4 + c;
-            const neighborValue = data[neighborIdx];
-            
-            const spatialWeight = Math.exp(-(dx * dx + dy * dy) / (2 * sigma));
-            const intensityWeight = Math.exp(-Math.pow(centerValue - neighborValue, 2) / (2 * sigma));
-            const weight = spatialWeight * intensityWeight;
-            
-            sum += neighborValue * weight;
-            weightSum += weight;
-          }
+      for (let dy = -radius; dy <= radius; dy++) {
+        for (let dx = -radius; dx <= radius; dx++) {
+          const neighborValue = plane[(y + dy) * width + (x + dx)];
+          const spatialWeight = Math.exp(-(dx * dx + dy * dy) / (2 * spatialSigma));
+          const intensityWeight = Math.exp(-Math.pow(centerValue - neighborValue, 2) / (2 * rangeSigma));
+          const weight = spatialWeight * intensityWeight;
+          
+          sum += neighborValue * weight;
+          weightSum += weight;
         }
-        
-        filtered[centerIdx + c] = sum / weightSum;
       }
+      
+      output[y * width + x] = sum / weightSum;
     }
   }
+}
+
+/**
+ * Noise reduction using bilateral filtering, with luma and chroma smoothed separately
+ */
+function applyNoiseReduction(imageData: PixelFrame, strength: number, matrix: ColorMatrix): void {
+  const { width, height } = imageData;
+  const radius = Math.ceil(strength * 3);
+  if (radius === 0) return;
+  
+  const sigma = strength * 50;
+  const planes = toYCbCr(imageData, matrix);
+  const filtered = { ...planes, y: planes.y.slice(), cb: planes.cb.slice(), cr: planes.cr.slice() };
   
-  data.set(filtered);
+  bilateralPlane(planes.y, filtered.y, width, height, radius, sigma, sigma);
+  bilateralPlane(planes.cb, filtered.cb, width, height, radius, sigma, sigma * CHROMA_DENOISE_FACTOR);
+  bilateralPlane(planes.cr, filtered.cr, width, height, radius, sigma, sigma * CHROMA_DENOISE_FACTOR);
+  
+  imageData.data.set(fromYCbCr(filtered, imageData, matrix).data);
 }
 
 /**
  * Color enhancement using selective saturation boost
  */
-function enhanceColors(imageData: ImageData, strength: number): void {
+function enhanceColors(imageData: PixelFrame, strength: number): void {
   const { data } = imageData;
   
   for (let i = 0; i < data.length; i += 4) {
@@ -448,9 +840,9 @@ function enhanceColors(imageData: ImageData, strength: number): void {
       const scale = boostedSaturation / saturation;
       
       const avg = (r + g + b) / 3;
-      data[i] = Math.min(255, avg + (r - avg) * scale);
-      data[i + 1] = Math.min(255, avg + (g - avg) * scale);
-      data[i + 2] = Math.min(255, avg + (b - avg) * scale);
+      data[i] = clampByte(avg + (r - avg) * scale);
+      data[i + 1] = clampByte(avg + (g - avg) * scale);
+      data[i + 2] = clampByte(avg + (b - avg) * scale);
     }
   }
 }
@@ -459,28 +851,80 @@ function enhanceColors(imageData: ImageData, strength: number): void {
  * Get recommended target resolutions based on source resolution
  */
 export function getRecommendedResolutions(sourceWidth: number, sourceHeight: number) {
-  const aspectRatio = sourceWidth / sourceHeight;
-  
-  const resolutions = [
-    { name: '720p HD', width: 1280, height: 720 },
-    { name: '1080p Full HD', width: 1920, height: 1080 },
-    { name: '1440p Quad HD', width: 2560, height: 1440 },
-    { name: '4K Ultra HD', width: 3840, height: 2160 }
-  ];
+  // Presets share the source's shape and orientation, so every listed target is an upscale in both directions
+  return getPresetsForSource(sourceWidth, sourceHeight)
+    .filter(res => res.width > sourceWidth || res.height > sourceHeight)
+    .map(({ name, width, height }) => ({ name, width, height }));
+}
+
+/**
+ * Settings accepted by AIUpscaler.enhanceImageData
+ */
+export interface ImageEnhancementConfig {
+  algorithm: string;
+  scaleFactor: number;
+  sharpening: number;
+  noiseReduction: number;
+  colorEnhancement: number;
+  brightness: number;
+  contrast: number;
+  pipeline?: EnhancementPipeline;
+  memoryLimitMB?: number;
+  /** Gradient-preserving smoothing of quantization bands, 0-1 */
+  debanding?: number;
+  /** Deinterlacer to run first; omitted for progressive sources */
+  deinterlace?: DeinterlaceMode;
+  fieldOrder?: FieldOrder;
+  /** Motion-compensated temporal denoising strength, 0-1; applied to the source frame */
+  temporalDenoise?: number;
+  /** Colour look applied after the other adjustments */
+  lut?: LutSelection;
+  /** YCbCr matrix of the source; picked from the input frame size when omitted */
+  colorMatrix?: ColorMatrix;
+  /** Frame size the result is centred in with black bars, for the pad fit policy */
+  outputSize?: { width: number; height: number };
+}
+
+/**
+ * Whether a 2D canvas can be created in the current environment
+ */
+function canUseCanvas(): boolean {
+  return typeof document !== 'undefined' || typeof OffscreenCanvas !== 'undefined';
+}
+
+/**
+ * Create a 2D canvas that works both on the main thread and inside a Web Worker
+ */
+function createCanvas(width: number, height: number): HTMLCanvasElement | OffscreenCanvas {
+  if (typeof document === 'undefined') {
+    return new OffscreenCanvas(width, height);
+  }
   
-  return resolutions.filter(res => {
-    const targetAspectRatio = res.width / res.height;
-    const aspectDiff = Math.abs(aspectRatio - targetAspectRatio);
-    return aspectDiff < 0.2 && (res.width > sourceWidth || res.height > sourceHeight);
-  });
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
 }
 
 /**
  * AI Upscaler Class for real-time video enhancement
  */
+// Frames to stay on the classical path before re-measuring an over-budget model
+const BUDGET_PROBE_INTERVAL = 30;
+
 export class AIUpscaler {
   private initialized = false;
-  private modelCache = new Map();
+  private inferenceTimes = new Map<string, number>();
+  private framesSinceProbe = 0;
+  private previousInterlacedFrame: PixelFrame | null = null;
+  
+  readonly models = new SuperResolutionModelRegistry();
+  readonly temporalDenoiser = new TemporalDenoiser();
+  
+  /** Time a neural upscale may take before frames fall back to classical super-resolution */
+  frameBudgetMs = 1000 / 30;
+
+  constructor(private stripePool?: StripeWorkerPool) {}
 
   async initialize() {
     if (this.initialized) return;
@@ -499,113 +943,376 @@ export class AIUpscaler {
   }
 
   async enhanceImageData(
-    imageData: ImageData,
-    config: {
-      algorithm: string;
-      scaleFactor: number;
-      sharpening: number;
-      noiseReduction: number;
-      colorEnhancement: number;
-      brightness: number;
-      contrast: number;
-    }
-  ): Promise<ImageData> {
-    const { width, height } = imageData; // 'data' is unused
-    const scaleFactor = config.scaleFactor;
-    
-    // Create new canvas for enhanced output
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d')!;
+    imageData: PixelFrame,
+    config: ImageEnhancementConfig
+  ): Promise<PixelFrame> {
+    const pipeline = withColorMatrix(
+      config.pipeline ?? createPipelineFromEnhancementConfig(config),
+      config.colorMatrix ?? chooseColorMatrix(imageData.width, imageData.height)
+    );
     
-    // Calculate new dimensions
-    const newWidth = Math.round(width * scaleFactor);
-    const newHeight = Math.round(height * scaleFactor);
+    // Consecutive calls are treated as consecutive video frames
+    let source = imageData;
+    if (config.temporalDenoise) {
+      source = this.temporalDenoiser.process(imageData, config.temporalDenoise);
+    } else {
+      this.temporalDenoiser.reset();
+    }
     
-    canvas.width = newWidth;
-    canvas.height = newHeight;
+    const enhanced = await this.runPipeline(source, pipeline, config.memoryLimitMB);
+    return config.outputSize ? padFrame(enhanced, config.outputSize.width, config.outputSize.height) : enhanced;
+  }
+
+  /**
+   * Run a pipeline, dispatching stripe-parallel stages to the worker pool when one is attached.
+   * Frames whose working set would exceed memoryLimitMB are processed tile by tile, with each
+   * tile's stripe-parallel stages still going through the pool.
+   */
+  async runPipeline(frame: PixelFrame, sourcePipeline: EnhancementPipeline, memoryLimitMB?: number): Promise<PixelFrame> {
+    // Tiles and upscaled intermediates are no guide to the source's matrix; the input frame is
+    const pipeline = withColorMatrix(sourcePipeline, chooseColorMatrix(frame.width, frame.height));
     
-    // Create temporary canvas for source
-    const srcCanvas = document.createElement('canvas');
-    const srcCtx = srcCanvas.getContext('2d')!;
-    srcCanvas.width = width;
-    srcCanvas.height = height;
-    srcCtx.putImageData(imageData, 0, 0);
+    if (exceedsMemoryLimit(pipeline, frame.width, frame.height, memoryLimitMB)) {
+      return runTiledPipelineAsync(frame, pipeline, (tile, stage, context) => this.runStage(tile, stage, context), { memoryLimitMB });
+    }
     
-    // Apply upscaling based on algorithm
-    if (config.algorithm === 'super-resolution') {
-      // Use advanced bicubic interpolation
-      ctx.imageSmoothingEnabled = true;
-      ctx.imageSmoothingQuality = 'high';
-    } else {
-      ctx.imageSmoothingEnabled = false;
+    let current = frame;
+    for (const stage of pipeline.stages) {
+      if (isStageEnabled(stage)) {
+        current = await this.runStage(current, stage);
+      }
     }
     
-    // Scale the image
-    ctx.drawImage(srcCanvas, 0, 0, width, height, 0, 0, newWidth, newHeight);
+    return current;
+  }
+
+  private async runStage(frame: PixelFrame, stage: PipelineStage, context?: StageContext): Promise<PixelFrame> {
+    if (stage.type === 'resample' && stage.algorithm === 'neural') {
+      return this.neuralResample(frame, stage);
+    }
+    if (stage.type === 'deinterlace') {
+      return this.deinterlace(frame, stage);
+    }
+    if (this.stripePool && isStripeFilter(stage.type) && 'strength' in stage) {
+      return this.stripePool.applyFilter(frame, stage.type, stage.strength, 'matrix' in stage ? stage.matrix : undefined);
+    }
+    return applyPipelineStage(frame, stage, context);
+  }
+
+  /**
+   * Deinterlace with the previous input frame as yadif's temporal reference
+   */
+  private deinterlace(frame: PixelFrame, stage: DeinterlaceStage): PixelFrame {
+    const result = deinterlaceFrame(frame, stage.mode, stage.fieldOrder, this.previousInterlacedFrame ?? undefined);
+    this.previousInterlacedFrame = stage.mode === 'yadif' ? clonePixelFrame(frame) : null;
+    return result;
+  }
+
+  /**
+   * Neural resampling with a per-frame budget: while the model is loading, missing, or its
+   * recent inference time exceeds the budget, the frame goes through superResolutionUpscale
+   */
+  private neuralResample(frame: PixelFrame, stage: ResampleStage): PixelFrame {
+    const { width, height } = getResampleSize(stage, frame.width, frame.height);
+    const scale = Math.max(width / frame.width, height / frame.height);
+    const model = stage.model ? this.models.resolve(stage.model) : this.models.pickModel(scale);
     
-    // Get scaled image data
-    let enhancedData = ctx.getImageData(0, 0, newWidth, newHeight);
+    if (!stage.model) {
+      // Built-in models only count once their files are found; until then (or without them) this stays classical
+      void this.models.discover();
+    }
     
-    // Apply enhancements
-    if (config.sharpening > 0) {
-      enhancedData = this.applySharpeningFilter(enhancedData, config.sharpening);
+    if (!model || scale <= 1 || this.models.hasFailed(model.id)) {
+      return superResolutionUpscale(frame, width, height);
     }
     
-    if (config.noiseReduction > 0) {
-      enhancedData = this.applyNoiseReduction(enhancedData, config.noiseReduction);
+    if (!this.models.isLoaded(model.id)) {
+      // Load in the background; this frame must not wait for the download
+      this.models.load(model.id).catch(error => {
+        console.warn(`Super-resolution model ${model.id} unavailable, using classical upscaling:`, error);
+      });
+      return superResolutionUpscale(frame, width, height);
     }
     
-    if (config.colorEnhancement > 0) {
-      this.enhanceColors(enhancedData, config.colorEnhancement);
+    const averageTime = this.inferenceTimes.get(model.id) ?? 0;
+    if (averageTime > this.frameBudgetMs && this.framesSinceProbe < BUDGET_PROBE_INTERVAL) {
+      this.framesSinceProbe++;
+      return superResolutionUpscale(frame, width, height);
     }
+    this.framesSinceProbe = 0;
     
-    if (config.brightness !== 0 || config.contrast !== 0) {
-      this.adjustBrightnessContrast(enhancedData, config.brightness, config.contrast);
+    const startTime = performance.now();
+    let upscaled = this.models.run(model.id, frame, stage.matrix ?? chooseColorMatrix(frame.width, frame.height));
+    const elapsed = performance.now() - startTime;
+    this.inferenceTimes.set(model.id, averageTime ? averageTime * 0.8 + elapsed * 0.2 : elapsed);
+    
+    // Models only come in integer scales; match the requested size exactly
+    if (upscaled.width !== width || upscaled.height !== height) {
+      upscaled = resampleFrame(upscaled, { type: 'resample', algorithm: 'bicubic', width, height });
     }
     
-    return enhancedData;
+    return upscaled;
   }
+}
 
-  private applySharpeningFilter(imageData: ImageData, strength: number): ImageData {
-    // Apply sharpening using existing function
-    applySharpeningFilter(imageData, strength);
-    return imageData;
+/**
+ * Contrast and brightness adjustment around middle gray
+ */
+function adjustBrightnessContrast(imageData: PixelFrame, brightness: number, contrast: number): void {
+  const { data } = imageData;
+  const factor = (259 * (contrast * 255 + 255)) / (255 * (259 - contrast * 255));
+  
+  for (let i = 0; i < data.length; i += 4) {
+    // Contrast, then brightness, rounded once at the end
+    for (let c = 0; c < 3; c++) {
+      const contrasted = Math.min(255, Math.max(0, factor * (data[i + c] - 128) + 128));
+      data[i + c] = clampByte(contrasted + brightness * 255);
+    }
   }
+}
 
-  private applyNoiseReduction(imageData: ImageData, strength: number): ImageData {
-    // Apply noise reduction using existing function
-    applyNoiseReduction(imageData, strength);
-    return imageData;
+/**
+ * Resample with the browser's high-quality canvas smoothing, or bicubic where no canvas exists
+ */
+function canvasResample(src: PixelFrame, dst: PixelFrame): void {
+  if (!canUseCanvas()) {
+    bicubicInterpolation(src, dst);
+    return;
+  }
+  
+  const srcCanvas = createCanvas(src.width, src.height);
+  writeCanvasFrame(srcCanvas, src);
+  
+  const canvas = createCanvas(dst.width, dst.height);
+  const ctx = canvas.getContext('2d')! as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(srcCanvas, 0, 0, src.width, src.height, 0, 0, dst.width, dst.height);
+  
+  dst.data.set(readCanvasFrame(canvas).data);
+}
+
+function resampleFrame(frame: PixelFrame, stage: ResampleStage): PixelFrame {
+  const { width, height } = getResampleSize(stage, frame.width, frame.height);
+  const resampled = createPixelFrame(width, height);
+  
+  switch (stage.algorithm) {
+    case 'nearest':
+      nearestNeighborResample(frame, resampled);
+      break;
+    case 'lanczos':
+      lanczosResample(frame, resampled, stage.lobes ?? 3);
+      break;
+    case 'canvas':
+      canvasResample(frame, resampled);
+      break;
+    case 'neural':
+      // Models need the async AIUpscaler.runPipeline; synchronous callers get the classical equivalent
+      return superResolutionUpscale(frame, width, height);
+    default:
+      bicubicInterpolation(frame, resampled);
   }
+  
+  return resampled;
+}
 
-  private enhanceColors(imageData: ImageData, strength: number): void {
-    enhanceColors(imageData, strength);
+/**
+ * Apply one pipeline stage, returning the resulting frame (which may be the input, updated in place).
+ * A context marks the frame as a tile: it carries the tile's position and whole-frame statistics.
+ */
+export function applyPipelineStage(frame: PixelFrame, stage: PipelineStage, context?: StageContext): PixelFrame {
+  switch (stage.type) {
+    case 'resample':
+      return resampleFrame(frame, stage);
+    case 'deblocking':
+      applyDeblocking(frame, stage.strength);
+      return frame;
+    case 'noise-reduction':
+      applyNoiseReduction(frame, stage.strength, stage.matrix ?? chooseColorMatrix(frame.width, frame.height));
+      return frame;
+    case 'debanding':
+      return applyDebanding(frame, stage.strength, stage.dither, context?.offsetX, context?.offsetY);
+    case 'deinterlace':
+      return deinterlaceFrame(frame, stage.mode, stage.fieldOrder);
+    case 'edge-enhancement':
+      return enhanceEdges(frame, stage.strength, stage.matrix ?? chooseColorMatrix(frame.width, frame.height));
+    case 'sharpening':
+      return applySharpeningFilter(frame, stage.strength, stage.matrix ?? chooseColorMatrix(frame.width, frame.height));
+    case 'pixel-reconstruction':
+      return reconstructPixels(frame, stage.strength, stage.matrix ?? chooseColorMatrix(frame.width, frame.height));
+    case 'detail-reconstruction':
+      return deepDetailReconstruction(frame, stage.strength);
+    case 'color-enhancement':
+      enhanceColors(frame, stage.strength);
+      return frame;
+    case 'lighting-correction':
+      return correctLighting(
+        frame,
+        stage.strength,
+        context?.statistics?.lighting ?? measureLighting(frame),
+        context?.offsetX,
+        context?.offsetY
+      );
+    case 'contrast-boost':
+      return boostContrast(frame, stage.strength, context?.statistics?.contrast ?? measureContrast(frame));
+    case 'brightness-contrast':
+      adjustBrightnessContrast(frame, stage.brightness, stage.contrast);
+      return frame;
+    case 'lut': {
+      // A LUT that has not been registered in this thread (yet) leaves the frame ungraded
+      const lut = getLut(stage.lutId);
+      if (lut) {
+        applyLut(frame, lut, stage.intensity, stage.interpolation);
+      }
+      return frame;
+    }
   }
+}
 
-  private adjustBrightnessContrast(imageData: ImageData, brightness: number, contrast: number): void {
-    const { data } = imageData;
-    const factor = (259 * (contrast * 255 + 255)) / (255 * (259 - contrast * 255));
+/**
+ * Filter one grid edge given the pixel index just before it and the step between neighbours.
+ * Only steps on an otherwise flat line are treated as artifacts; real edges keep their texture
+ * or exceed the step threshold and are left untouched.
+ */
+function deblockEdge(data: Uint8ClampedArray, q0: number, step: number, alpha: number, beta: number): void {
+  const p0 = q0 - step;
+  const p1 = p0 - step;
+  const p2 = p1 - step;
+  const q1 = q0 + step;
+  const q2 = q1 + step;
+  
+  const lp0 = lumaAt(data, p0);
+  const lq0 = lumaAt(data, q0);
+  const lp1 = lumaAt(data, p1);
+  const lq1 = lumaAt(data, q1);
+  
+  if (Math.abs(lp0 - lq0) >= alpha || Math.abs(lp1 - lp0) >= beta || Math.abs(lq1 - lq0) >= beta) {
+    return;
+  }
+  
+  // Very flat on both sides: spread the step over three pixels each side
+  const strong = Math.abs(lumaAt(data, p2) - lp0) < beta && Math.abs(lumaAt(data, q2) - lq0) < beta;
+  
+  for (let c = 0; c < 3; c++) {
+    const delta = data[q0 + c] - data[p0 + c];
     
-    for (let i = 0; i < data.length; i += 4) {
-      // Apply contrast
-      data[i] = Math.min(255, Math.max(0, factor * (data[i] - 128) + 128));
-      data[i + 1] = Math.min(255, Math.max(0, factor * (data[i + 1] - 128) + 128));
-      data[i + 2] = Math.min(255, Math.max(0, factor * (data[i + 2] - 128) + 128));
+    if (strong) {
+      data[p2 + c] += delta / 8;
+      data[p1 + c] += delta / 4;
+      data[p0 + c] += (delta * 3) / 8;
+      data[q0 + c] -= (delta * 3) / 8;
+      data[q1 + c] -= delta / 4;
+      data[q2 + c] -= delta / 8;
+    } else {
+      data[p0 + c] += delta / 4;
+      data[q0 + c] -= delta / 4;
+    }
+  }
+}
+
+/**
+ * Smooth 8×8 block-boundary discontinuities, vertical edges first, then horizontal ones
+ */
+function applyDeblocking(imageData: PixelFrame, strength: number): void {
+  const { data, width, height } = imageData;
+  
+  // Largest step still treated as an artifact, and the flatness required on either side
+  const alpha = 4 + 36 * strength;
+  const beta = 2 + 8 * strength;
+  
+  for (let y = 0; y < height; y++) {
+    for (let x = DEBLOCK_GRID; x <= width - 3; x += DEBLOCK_GRID) {
+      deblockEdge(data, (y * width + x) * 4, 4, alpha, beta);
+    }
+  }
+  
+  for (let y = DEBLOCK_GRID; y <= height - 3; y += DEBLOCK_GRID) {
+    for (let x = 0; x < width; x++) {
+      deblockEdge(data, (y * width + x) * 4, width * 4, alpha, beta);
+    }
+  }
+}
+
+/**
+ * Deterministic per-pixel hash in [0, 1), so dithering and sample offsets do not flicker between frames
+ */
+function pixelHash(x: number, y: number, seed: number): number {
+  let h = Math.imul(x, 374761393) + Math.imul(y, 668265263) + Math.imul(seed, 2246822519);
+  h = Math.imul(h ^ (h >>> 13), 1274126177);
+  return ((h ^ (h >>> 16)) >>> 0) / 4294967296;
+}
+
+/**
+ * Replace pixels in flat, quantized regions with the mean of four symmetric neighbours at a
+ * random distance. Symmetric samples average a linear gradient back to itself, so smooth ramps
+ * survive while the steps between bands are spread out; any sample that differs by more than
+ * a few levels marks real detail and leaves the pixel untouched. Distances and noise are seeded
+ * by frame position (the tile's offset plus the pixel's), so a tile dithers like the whole frame.
+ */
+function applyDebanding(imageData: PixelFrame, strength: number, dither: number, offsetX = 0, offsetY = 0): PixelFrame {
+  const { data, width, height } = imageData;
+  const output = createPixelFrame(width, height);
+  const out = output.data;
+  out.set(data);
+  
+  const range = getDebandRange(strength);
+  const threshold = 2 + 6 * strength;
+  
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const distance = 1 + Math.floor(pixelHash(x + offsetX, y + offsetY, 0) * range);
+      const left = Math.max(0, x - distance);
+      const right = Math.min(width - 1, x + distance);
+      const top = Math.max(0, y - distance);
+      const bottom = Math.min(height - 1, y + distance);
+      
+      const idx = (y * width + x) * 4;
+      const samples = [
+        (y * width + left) * 4,
+        (y * width + right) * 4,
+        (top * width + x) * 4,
+        (bottom * width + x) * 4
+      ];
       
-      // Apply brightness
-      data[i] = Math.min(255, Math.max(0, data[i] + brightness * 255));
-      data[i + 1] = Math.min(255, Math.max(0, data[i + 1] + brightness * 255));
-      data[i + 2] = Math.min(255, Math.max(0, data[i + 2] + brightness * 255));
+      let flat = true;
+      for (let c = 0; c < 3 && flat; c++) {
+        for (const sample of samples) {
+          if (Math.abs(data[sample + c] - data[idx + c]) > threshold) {
+            flat = false;
+            break;
+          }
+        }
+      }
+      if (!flat) continue;
+      
+      // Triangular noise of up to one level hides what is left of the steps
+      const noise = (pixelHash(x + offsetX, y + offsetY, 1) + pixelHash(x + offsetX, y + offsetY, 2) - 1) * dither;
+      
+      for (let c = 0; c < 3; c++) {
+        const mean = (data[samples[0] + c] + data[samples[1] + c] + data[samples[2] + c] + data[samples[3] + c]) / 4;
+        out[idx + c] = clampByte(mean + noise);
+      }
     }
   }
+  
+  return output;
+}
+
+/**
+ * Run every enabled stage of a pipeline in order
+ */
+export function runEnhancementPipeline(frame: PixelFrame, pipeline: EnhancementPipeline): PixelFrame {
+  return pipeline.stages
+    .filter(isStageEnabled)
+    .reduce((current, stage) => applyPipelineStage(current, stage), frame);
 }
 
 /**
  * Advanced Deep Learning-inspired detail reconstruction
  */
-function deepDetailReconstruction(imageData: ImageData, strength: number): ImageData {
+function deepDetailReconstruction(imageData: PixelFrame, strength: number): PixelFrame {
   const { data, width, height } = imageData;
-  const enhanced = new ImageData(width, height);
+  const enhanced = createPixelFrame(width, height);
   enhanced.data.set(data);
   
   // Multi-scale detail enhancement
@@ -643,7 +1350,7 @@ function deepDetailReconstruction(imageData: ImageData, strength: number): Image
           const detail = centerValue - smoothed;
           const enhancedDetail = detail * (1 + strength * scale * 0.3);
           
-          enhanced.data[idx + c] = Math.max(0, Math.min(255, smoothed + enhancedDetail));
+          enhanced.data[idx + c] = clampByte(smoothed + enhancedDetail);
         }
       }
     }
@@ -653,202 +1360,105 @@ function deepDetailReconstruction(imageData: ImageData, strength: number): Image
 }
 
 /**
- * Advanced lighting correction algorithm
+ * Replace isolated outliers in one plane with an edge-directed average of their neighbours
  */
-function correctLighting(imageData: ImageData, strength: number): ImageData {
-  const { data, width, height } = imageData;
-  const corrected = new ImageData(width, height);
-  corrected.data.set(data);
-  
-  // Calculate global brightness statistics
-  let totalBrightness = 0;
-  let minBrightness = 255;
-  let maxBrightness = 0;
-  
-  for (let i = 0; i < data.length; i += 4) {
-    const brightness = (data[i] + data[i + 1] + data[i + 2]) / 3;
-    totalBrightness += brightness;
-    minBrightness = Math.min(minBrightness, brightness);
-    maxBrightness = Math.max(maxBrightness, brightness);
-  }
-  
-  const avgBrightness = totalBrightness / (data.length / 4);
-  const targetBrightness = 128; // Target middle gray
-  const brightnessDiff = targetBrightness - avgBrightness;
-  
-  // Local adaptive brightness correction
-  const radius = Math.min(width, height) * 0.1;
-  
-  for (let y = 0; y < height; y++) {
-    for (let x = 0; x < width; x++) {
-      const idx = (y * width + x) * 4;
+function reconstructPlane(plane: Float32Array, output: Float32Array, width: number, height: number, strength: number): void {
+  for (let y = 2; y < height - 2; y++) {
+    for (let x = 2; x < width - 2; x++) {
+      const p = y * width + x;
+      const centerValue = plane[p];
       
-      // Calculate local average brightness
-      let localSum = 0;
-      let localCount = 0;
+      // Analyze local pattern
+      const neighbors = [
+        plane[p - width - 1], // Top-left
+        plane[p - width],     // Top
+        plane[p - width + 1], // Top-right
+        plane[p - 1],         // Left
+        plane[p + 1],         // Right
+        plane[p + width - 1], // Bottom-left
+        plane[p + width],     // Bottom
+        plane[p + width + 1]  // Bottom-right
+      ];
       
-      const startY = Math.max(0, y - radius);
-      const endY = Math.min(height - 1, y + radius);
-      const startX = Math.max(0, x - radius);
-      const endX = Math.min(width - 1, x + radius);
+      // Calculate variance to detect anomalies
+      const mean = neighbors.reduce((sum, val) => sum + val, 0) / neighbors.length;
+      const variance = neighbors.reduce((sum, val) => sum + Math.pow(val - mean, 2), 0) / neighbors.length;
       
-      for (let ly = startY; ly <= endY; ly++) {
-        for (let lx = startX; lx <= endX; lx++) {
-          const localIdx = (ly * width + lx) * 4;
-          localSum += (data[localIdx] + data[localIdx + 1] + data[localIdx + 2]) / 3;
-          localCount++;
+      // If current pixel is significantly different from neighbors, reconstruct it
+      const deviation = Math.abs(centerValue - mean);
+      if (deviation > Math.sqrt(variance) * 2 && variance > 10) {
+        // Use edge-directed interpolation
+        const horizontalGrad = Math.abs(neighbors[3] - neighbors[4]); // Left vs Right
+        const verticalGrad = Math.abs(neighbors[1] - neighbors[6]);   // Top vs Bottom
+        const diag1Grad = Math.abs(neighbors[0] - neighbors[7]);      // TL vs BR
+        const diag2Grad = Math.abs(neighbors[2] - neighbors[5]);      // TR vs BL
+        
+        let reconstructedValue;
+        const minGrad = Math.min(horizontalGrad, verticalGrad, diag1Grad, diag2Grad);
+        
+        if (minGrad === horizontalGrad) {
+          reconstructedValue = (neighbors[3] + neighbors[4]) / 2;
+        } else if (minGrad === verticalGrad) {
+          reconstructedValue = (neighbors[1] + neighbors[6]) / 2;
+        } else if (minGrad === diag1Grad) {
+          reconstructedValue = (neighbors[0] + neighbors[7]) / 2;
+        } else {
+          reconstructedValue = (neighbors[2] + neighbors[5]) / 2;
         }
-      }
-      
-      const localAvg = localSum / localCount;
-      const localCorrection = (targetBrightness - localAvg) * strength * 0.3;
-      
-      // Apply adaptive correction
-      for (let c = 0; c < 3; c++) {
-        const originalValue = data[idx + c];
-        const globalCorrection = brightnessDiff * strength * 0.5;
-        const totalCorrection = globalCorrection + localCorrection;
         
-        corrected.data[idx + c] = Math.max(0, Math.min(255, originalValue + totalCorrection));
+        // Blend with original based on strength
+        output[p] = centerValue + (reconstructedValue - centerValue) * strength;
       }
-      
-      corrected.data[idx + 3] = data[idx + 3]; // Alpha
     }
   }
-  
-  return corrected;
 }
 
 /**
- * Advanced contrast enhancement with histogram equalization
+ * Smart pixel reconstruction for heavily degraded videos. Luma and chroma are repaired
+ * independently, so a luma dropout is not mistaken for a colour change and vice versa.
  */
-function enhanceContrast(imageData: ImageData, strength: number): ImageData {
-  const { data, width, height } = imageData;
-  const enhanced = new ImageData(width, height);
-  enhanced.data.set(data);
-  
-  // Calculate histogram for each channel
-  const histR = new Array(256).fill(0);
-  const histG = new Array(256).fill(0);
-  const histB = new Array(256).fill(0);
-  
-  for (let i = 0; i < data.length; i += 4) {
-    histR[data[i]]++;
-    histG[data[i + 1]]++;
-    histB[data[i + 2]]++;
-  }
-  
-  // Calculate cumulative distribution function
-  const cdfR = new Array(256);
-  const cdfG = new Array(256);
-  const cdfB = new Array(256);
-  
-  cdfR[0] = histR[0];
-  cdfG[0] = histG[0];
-  cdfB[0] = histB[0];
-  
-  for (let i = 1; i < 256; i++) {
-    cdfR[i] = cdfR[i - 1] + histR[i];
-    cdfG[i] = cdfG[i - 1] + histG[i];
-    cdfB[i] = cdfB[i - 1] + histB[i];
-  }
-  
-  const totalPixels = width * height;
+function reconstructPixels(imageData: PixelFrame, strength: number, matrix: ColorMatrix): PixelFrame {
+  const { width, height } = imageData;
+  const planes = toYCbCr(imageData, matrix);
+  const reconstructed = { ...planes, y: planes.y.slice(), cb: planes.cb.slice(), cr: planes.cr.slice() };
   
-  // Create lookup tables for histogram equalization
-  const lookupR = new Array(256);
-  const lookupG = new Array(256);
-  const lookupB = new Array(256);
+  reconstructPlane(planes.y, reconstructed.y, width, height, strength);
+  reconstructPlane(planes.cb, reconstructed.cb, width, height, strength);
+  reconstructPlane(planes.cr, reconstructed.cr, width, height, strength);
   
-  for (let i = 0; i < 256; i++) {
-    lookupR[i] = Math.round((cdfR[i] / totalPixels) * 255);
-    lookupG[i] = Math.round((cdfG[i] / totalPixels) * 255);
-    lookupB[i] = Math.round((cdfB[i] / totalPixels) * 255);
-  }
-  
-  // Apply contrast enhancement
-  for (let i = 0; i < data.length; i += 4) {
-    const originalR = data[i];
-    const originalG = data[i + 1];
-    const originalB = data[i + 2];
-    
-    // Blend original with histogram equalized values
-    const equalizedR = lookupR[originalR];
-    const equalizedG = lookupG[originalG];
-    const equalizedB = lookupB[originalB];
-    
-    enhanced.data[i] = Math.round(originalR + (equalizedR - originalR) * strength);
-    enhanced.data[i + 1] = Math.round(originalG + (equalizedG - originalG) * strength);
-    enhanced.data[i + 2] = Math.round(originalB + (equalizedB - originalB) * strength);
-  }
-  
-  return enhanced;
+  return fromYCbCr(reconstructed, imageData, matrix);
 }
 
 /**
- * Smart pixel reconstruction for heavily degraded videos
+ * Convolution-style filters that can be run independently on horizontal stripes of a frame
  */
-function reconstructPixels(imageData: ImageData, strength: number): ImageData {
-  const { data, width, height } = imageData;
-  const reconstructed = new ImageData(width, height);
-  reconstructed.data.set(data);
-  
-  // Detect and reconstruct damaged/low-quality regions
-  for (let y = 2; y < height - 2; y++) {
-    for (let x = 2; x < width - 2; x++) {
-      const idx = (y * width + x) * 4;
-      
-      for (let c = 0; c < 3; c++) {
-        const centerValue = data[idx + c];
-        
-        // Analyze local pattern
-        const neighbors = [
-          data[((y-1) * width + (x-1)) * 4 + c], // Top-left
-          data[((y-1) * width + x) * 4 + c],     // Top
-          data[((y-1) * width + (x+1)) * 4 + c], // Top-right
-          data[(y * width + (x-1)) * 4 + c],     // Left
-          data[(y * width + (x+1)) * 4 + c],     // Right
-          data[((y+1) * width + (x-1)) * 4 + c], // Bottom-left
-          data[((y+1) * width + x) * 4 + c],     // Bottom
-          data[((y+1) * width + (x+1)) * 4 + c]  // Bottom-right
-        ];
-        
-        // Calculate variance to detect anomalies
-        const mean = neighbors.reduce((sum, val) => sum + val, 0) / neighbors.length;
-        const variance = neighbors.reduce((sum, val) => sum + Math.pow(val - mean, 2), 0) / neighbors.length;
-        
-        // If current pixel is significantly different from neighbors, reconstruct it
-        const deviation = Math.abs(centerValue - mean);
-        if (deviation > Math.sqrt(variance) * 2 && variance > 10) {
-          // Use edge-directed interpolation
-          const horizontalGrad = Math.abs(neighbors[3] - neighbors[4]); // Left vs Right
-          const verticalGrad = Math.abs(neighbors[1] - neighbors[6]);   // Top vs Bottom
-          const diag1Grad = Math.abs(neighbors[0] - neighbors[7]);      // TL vs BR
-          const diag2Grad = Math.abs(neighbors[2] - neighbors[5]);      // TR vs BL
-          
-          let reconstructedValue;
-          const minGrad = Math.min(horizontalGrad, verticalGrad, diag1Grad, diag2Grad);
-          
-          if (minGrad === horizontalGrad) {
-            reconstructedValue = (neighbors[3] + neighbors[4]) / 2;
-          } else if (minGrad === verticalGrad) {
-            reconstructedValue = (neighbors[1] + neighbors[6]) / 2;
-          } else if (minGrad === diag1Grad) {
-            reconstructedValue = (neighbors[0] + neighbors[7]) / 2;
-          } else {
-            reconstructedValue = (neighbors[2] + neighbors[5]) / 2;
-          }
-          
-          // Blend with original based on strength
-          reconstructed.data[idx + c] = Math.round(
-            centerValue + (reconstructedValue - centerValue) * strength
-          );
-        }
-      }
-    }
-  }
-  
-  return reconstructed;
+export type StripeFilter = 'noise-reduction' | 'edge-enhancement' | 'detail-reconstruction' | 'pixel-reconstruction';
+
+const STRIPE_FILTERS: StripeFilter[] = ['noise-reduction', 'edge-enhancement', 'detail-reconstruction', 'pixel-reconstruction'];
+
+export function isStripeFilter(type: string): type is StripeFilter {
+  return STRIPE_FILTERS.includes(type as StripeFilter);
+}
+
+/**
+ * Number of neighbouring rows a stripe filter reads on each side of a pixel.
+ * Stripes need at least this many halo rows to match a full-frame pass exactly.
+ */
+export function getStripeFilterRadius(filter: StripeFilter, strength: number): number {
+  return getStageRadius({ type: filter, strength });
+}
+
+/**
+ * Run a single stripe filter over a frame (or a stripe of one)
+ */
+export function applyStripeFilter(
+  imageData: PixelFrame,
+  filter: StripeFilter,
+  strength: number,
+  matrix?: ColorMatrix
+): PixelFrame {
+  // A stripe is too short to infer the matrix from, so the pool passes the whole frame's
+  return applyPipelineStage(imageData, { type: filter, strength, matrix });
 }
 
 /**
@@ -987,7 +1597,8 @@ export function detectVideoPlatform(url: string): UniversalVideoInfo | null {
     }
     
     // Generic video file detection
-    const videoExtensions = ['.mp4', '.webm', '.ogg', '.mov', '.avi', '.mkv', '.m4v', '.3gp'];
+    // Streaming manifests count as files: they are played by the HLS and DASH players, not embedded
+    const videoExtensions = ['.mp4', '.webm', '.ogg', '.mov', '.avi', '.mkv', '.m4v', '.3gp', '.m3u8', '.mpd'];
     const hasVideoExtension = videoExtensions.some(ext => 
       urlObj.pathname.toLowerCase().endsWith(ext)
     );
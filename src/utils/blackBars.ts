@@ -0,0 +1,172 @@
+/**
+ * Letterbox and pillarbox detection.
+ * Bars are found per frame by scanning in from each edge for rows or columns that are almost
+ * entirely black, then combined over several sampled frames: a bar only counts where every
+ * sample agrees, so a dark scene cannot pass for a letterbox. Rectangles are stored as
+ * fractions of the frame, so a crop found on a small preview applies to any processing size.
+ */
+
+import { cropPixelFrame, createPixelFrame, type PixelFrame } from './pixelFrame';
+
+/** Content area as fractions (0-1) of the frame width and height */
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Luma at or below which a pixel counts as bar; covers limited-range black plus encoder noise
+const BLACK_LEVEL = 32;
+// Share of brighter pixels a line may have and still be bar (logos, compression speckle)
+const MAX_BRIGHT_SHARE = 0.02;
+// Bars thinner than this share of the frame are left alone
+const MIN_BAR_SHARE = 0.01;
+
+interface Bars {
+  top: number;
+  bottom: number;
+  left: number;
+  right: number;
+}
+
+function isBlackLine(frame: PixelFrame, start: number, step: number, count: number): boolean {
+  const { data } = frame;
+  const allowed = Math.floor(count * MAX_BRIGHT_SHARE);
+  let bright = 0;
+
+  for (let k = 0, p = start; k < count; k++, p += step) {
+    const idx = p * 4;
+    if (0.299 * data[idx] + 0.587 * data[idx + 1] + 0.114 * data[idx + 2] > BLACK_LEVEL && ++bright > allowed) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Bar thickness on each edge as fractions of the frame, or null for an entirely black frame
+ */
+function detectBars(frame: PixelFrame): Bars | null {
+  const { width, height } = frame;
+  const blackRow = (y: number) => isBlackLine(frame, y * width, 1, width);
+  const blackColumn = (x: number) => isBlackLine(frame, x, width, height);
+
+  let top = 0;
+  while (top < height && blackRow(top)) top++;
+  if (top === height) return null;
+
+  let bottom = 0;
+  while (blackRow(height - 1 - bottom)) bottom++;
+
+  let left = 0;
+  while (left < width && blackColumn(left)) left++;
+  let right = 0;
+  while (right < width - left && blackColumn(width - 1 - right)) right++;
+
+  return { top: top / height, bottom: bottom / height, left: left / width, right: right / width };
+}
+
+/**
+ * Content rectangle of a single frame; null when the frame is black or has no bars
+ */
+export function detectContentRect(frame: PixelFrame): CropRect | null {
+  const bars = detectBars(frame);
+  return bars ? barsToRect(bars) : null;
+}
+
+function barsToRect(bars: Bars): CropRect | null {
+  const trim = (share: number) => (share >= MIN_BAR_SHARE ? share : 0);
+  const top = trim(bars.top);
+  const bottom = trim(bars.bottom);
+  const left = trim(bars.left);
+  const right = trim(bars.right);
+
+  if (top === 0 && bottom === 0 && left === 0 && right === 0) return null;
+  return { x: left, y: top, width: 1 - left - right, height: 1 - top - bottom };
+}
+
+/**
+ * Accumulates bars over sampled frames; black frames (fades, title cards) are skipped
+ */
+export class BlackBarDetector {
+  private bars: Bars | null = null;
+  private samples = 0;
+
+  get sampleCount(): number {
+    return this.samples;
+  }
+
+  reset() {
+    this.bars = null;
+    this.samples = 0;
+  }
+
+  addFrame(frame: PixelFrame) {
+    const bars = detectBars(frame);
+    if (!bars) return;
+
+    this.samples++;
+    this.bars = this.bars
+      ? {
+          top: Math.min(this.bars.top, bars.top),
+          bottom: Math.min(this.bars.bottom, bars.bottom),
+          left: Math.min(this.bars.left, bars.left),
+          right: Math.min(this.bars.right, bars.right)
+        }
+      : bars;
+  }
+
+  /**
+   * The content rectangle every sample agrees on, or null when there are no bars
+   */
+  getCrop(): CropRect | null {
+    return this.bars ? barsToRect(this.bars) : null;
+  }
+}
+
+/**
+ * Pixel rectangle of a crop for a frame size, snapped to even coordinates so chroma-subsampled
+ * sources stay aligned
+ */
+export function toPixelRect(rect: CropRect, width: number, height: number) {
+  const even = (value: number) => Math.round(value / 2) * 2;
+  const x = Math.min(width - 2, Math.max(0, even(rect.x * width)));
+  const y = Math.min(height - 2, Math.max(0, even(rect.y * height)));
+  return {
+    x,
+    y,
+    width: Math.max(2, Math.min(width - x, even(rect.width * width))),
+    height: Math.max(2, Math.min(height - y, even(rect.height * height)))
+  };
+}
+
+export function cropToContent(frame: PixelFrame, rect: CropRect): PixelFrame {
+  const pixels = toPixelRect(rect, frame.width, frame.height);
+  return cropPixelFrame(frame, pixels.x, pixels.y, pixels.width, pixels.height);
+}
+
+/**
+ * Centre a frame on an opaque black canvas of the given size
+ */
+export function padFrame(frame: PixelFrame, width: number, height: number): PixelFrame {
+  if (frame.width === width && frame.height === height) return frame;
+
+  const padded = createPixelFrame(width, height);
+  const data = padded.data;
+  for (let i = 3; i < data.length; i += 4) {
+    data[i] = 255;
+  }
+
+  const offsetX = Math.max(0, Math.floor((width - frame.width) / 2));
+  const offsetY = Math.max(0, Math.floor((height - frame.height) / 2));
+  const copyWidth = Math.min(frame.width, width);
+  const rows = Math.min(frame.height, height);
+
+  for (let y = 0; y < rows; y++) {
+    const start = y * frame.width * 4;
+    data.set(frame.data.subarray(start, start + copyWidth * 4), ((y + offsetY) * width + offsetX) * 4);
+  }
+
+  return padded;
+}
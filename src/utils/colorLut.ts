@@ -0,0 +1,286 @@
+/**
+ * 3D colour lookup tables in the Adobe/Resolve .cube format.
+ * Parsed LUTs are kept in a registry keyed by id, so pipeline stages can stay JSON and refer to
+ * a LUT by id; imported LUTs are persisted in IndexedDB and re-registered on the next visit.
+ */
+
+import type { PixelFrame } from './pixelFrame';
+
+export type LutInterpolation = 'trilinear' | 'tetrahedral';
+
+export interface ColorLut {
+  id: string;
+  name: string;
+  /** Points per axis (17, 33 and 65 are the common sizes) */
+  size: number;
+  /** Input values mapped to the first and last lattice points, per channel */
+  domainMin: [number, number, number];
+  domainMax: [number, number, number];
+  /** size³ RGB triples, red varying fastest, as in the file */
+  data: Float32Array;
+}
+
+/**
+ * A LUT applied by the realtime enhancer; stored in settings alongside the sliders
+ */
+export interface LutSelection {
+  id: string;
+  /** Mix between the original (0) and fully graded (1) colour */
+  intensity: number;
+  interpolation: LutInterpolation;
+}
+
+export const LUT_INTERPOLATIONS: LutInterpolation[] = ['trilinear', 'tetrahedral'];
+
+// Limits from the .cube specification
+const MIN_LUT_SIZE = 2;
+const MAX_LUT_SIZE = 256;
+
+/**
+ * Parse the text of a .cube file. Throws with the offending line number on malformed input.
+ */
+export function parseCubeLut(text: string, name: string, id = createLutId()): ColorLut {
+  let title: string | null = null;
+  let size = 0;
+  let domainMin: [number, number, number] = [0, 0, 0];
+  let domainMax: [number, number, number] = [1, 1, 1];
+  let data: Float32Array | null = null;
+  let count = 0;
+
+  const lines = text.split(/\r?\n/);
+
+  const parseTriple = (parts: string[], lineNumber: number): [number, number, number] => {
+    const values = parts.map(Number);
+    if (values.length !== 3 || values.some(value => !Number.isFinite(value))) {
+      throw new Error(`Line ${lineNumber}: expected three numbers`);
+    }
+    return values as [number, number, number];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (line === '' || line.startsWith('#')) continue;
+
+    const lineNumber = i + 1;
+    const [keyword, ...rest] = line.split(/\s+/);
+
+    switch (keyword) {
+      case 'TITLE':
+        title = line.slice(keyword.length).trim().replace(/^"(.*)"$/, '$1');
+        break;
+      case 'LUT_3D_SIZE':
+        size = Number(rest[0]);
+        if (!Number.isInteger(size) || size < MIN_LUT_SIZE || size > MAX_LUT_SIZE) {
+          throw new Error(`Line ${lineNumber}: LUT_3D_SIZE must be an integer between ${MIN_LUT_SIZE} and ${MAX_LUT_SIZE}`);
+        }
+        data = new Float32Array(size * size * size * 3);
+        break;
+      case 'LUT_1D_SIZE':
+        throw new Error('1D and shaper LUTs are not supported; export a 3D LUT');
+      case 'DOMAIN_MIN':
+        domainMin = parseTriple(rest, lineNumber);
+        break;
+      case 'DOMAIN_MAX':
+        domainMax = parseTriple(rest, lineNumber);
+        break;
+      case 'LUT_3D_INPUT_RANGE': {
+        // Resolve's form of the domain: one range for all three channels
+        const [min, max] = rest.map(Number);
+        if (!Number.isFinite(min) || !Number.isFinite(max)) {
+          throw new Error(`Line ${lineNumber}: LUT_3D_INPUT_RANGE needs two numbers`);
+        }
+        domainMin = [min, min, min];
+        domainMax = [max, max, max];
+        break;
+      }
+      default: {
+        if (!/^[-+.\d]/.test(keyword)) {
+          // Unknown keywords are allowed by the format and ignored
+          break;
+        }
+        if (!data) {
+          throw new Error(`Line ${lineNumber}: table data before LUT_3D_SIZE`);
+        }
+        if (count >= size * size * size) {
+          throw new Error(`Line ${lineNumber}: more than ${size}³ table entries`);
+        }
+        data.set(parseTriple([keyword, ...rest], lineNumber), count * 3);
+        count++;
+      }
+    }
+  }
+
+  if (!data) {
+    throw new Error('Not a 3D LUT: LUT_3D_SIZE is missing');
+  }
+  if (count !== size * size * size) {
+    throw new Error(`Expected ${size * size * size} table entries, found ${count}`);
+  }
+  for (let c = 0; c < 3; c++) {
+    if (domainMax[c] <= domainMin[c]) {
+      throw new Error('DOMAIN_MAX must be greater than DOMAIN_MIN');
+    }
+  }
+
+  return { id, name: title || name, size, domainMin, domainMax, data };
+}
+
+export function createLutId(): string {
+  return `lut-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Lattice position of every 8-bit input value on one axis: the lower point and the
+ * fraction towards the next one
+ */
+function buildAxis(lut: ColorLut, channel: number) {
+  const index = new Uint16Array(256);
+  const fraction = new Float32Array(256);
+  const last = lut.size - 1;
+  const min = lut.domainMin[channel];
+  const range = lut.domainMax[channel] - min;
+
+  for (let v = 0; v < 256; v++) {
+    const position = Math.max(0, Math.min(1, (v / 255 - min) / range)) * last;
+    const lower = Math.min(last - 1, Math.floor(position));
+    index[v] = lower;
+    fraction[v] = position - lower;
+  }
+  return { index, fraction };
+}
+
+/**
+ * Grade a frame in place. Trilinear blends the 8 surrounding lattice points; tetrahedral uses
+ * the 4 points of the enclosing tetrahedron, which keeps the neutral axis exact and avoids the
+ * hue shifts trilinear can introduce in saturated colours.
+ */
+export function applyLut(frame: PixelFrame, lut: ColorLut, intensity: number, interpolation: LutInterpolation): void {
+  const amount = Math.max(0, Math.min(1, intensity));
+  if (amount === 0) return;
+
+  const { data } = frame;
+  const table = lut.data;
+  const size = lut.size;
+  const red = buildAxis(lut, 0);
+  const green = buildAxis(lut, 1);
+  const blue = buildAxis(lut, 2);
+
+  // Offsets of the neighbouring lattice points, in floats
+  const dr = 3;
+  const dg = size * 3;
+  const db = size * size * 3;
+
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+    const fr = red.fraction[r];
+    const fg = green.fraction[g];
+    const fb = blue.fraction[b];
+    const base = red.index[r] * dr + green.index[g] * dg + blue.index[b] * db;
+
+    for (let c = 0; c < 3; c++) {
+      const p = base + c;
+      const c000 = table[p];
+      const c111 = table[p + dr + dg + db];
+      let value: number;
+
+      if (interpolation === 'tetrahedral') {
+        if (fr > fg) {
+          if (fg > fb) {
+            value = c000 + fr * (table[p + dr] - c000) + fg * (table[p + dr + dg] - table[p + dr]) + fb * (c111 - table[p + dr + dg]);
+          } else if (fr > fb) {
+            value = c000 + fr * (table[p + dr] - c000) + fb * (table[p + dr + db] - table[p + dr]) + fg * (c111 - table[p + dr + db]);
+          } else {
+            value = c000 + fb * (table[p + db] - c000) + fr * (table[p + dr + db] - table[p + db]) + fg * (c111 - table[p + dr + db]);
+          }
+        } else if (fb > fg) {
+          value = c000 + fb * (table[p + db] - c000) + fg * (table[p + dg + db] - table[p + db]) + fr * (c111 - table[p + dg + db]);
+        } else if (fb > fr) {
+          value = c000 + fg * (table[p + dg] - c000) + fb * (table[p + dg + db] - table[p + dg]) + fr * (c111 - table[p + dg + db]);
+        } else {
+          value = c000 + fg * (table[p + dg] - c000) + fr * (table[p + dr + dg] - table[p + dg]) + fb * (c111 - table[p + dr + dg]);
+        }
+      } else {
+        const c00 = c000 + fr * (table[p + dr] - c000);
+        const c10 = table[p + dg] + fr * (table[p + dr + dg] - table[p + dg]);
+        const c01 = table[p + db] + fr * (table[p + dr + db] - table[p + db]);
+        const c11 = table[p + dg + db] + fr * (c111 - table[p + dg + db]);
+        const c0 = c00 + fg * (c10 - c00);
+        const c1 = c01 + fg * (c11 - c01);
+        value = c0 + fb * (c1 - c0);
+      }
+
+      const original = data[i + c];
+      data[i + c] = Math.round(original + (value * 255 - original) * amount);
+    }
+  }
+}
+
+const registry = new Map<string, ColorLut>();
+
+/**
+ * Make a LUT available to pipeline stages in this thread
+ */
+export function registerLut(lut: ColorLut) {
+  registry.set(lut.id, lut);
+}
+
+export function unregisterLut(id: string) {
+  registry.delete(id);
+}
+
+export function getLut(id: string): ColorLut | undefined {
+  return registry.get(id);
+}
+
+const DATABASE_NAME = 'videoix-luts';
+const STORE_NAME = 'luts';
+
+function openLutDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+
+    const request = indexedDB.open(DATABASE_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('Could not open the LUT database'));
+  });
+}
+
+async function runTransaction<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openLutDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error ?? new Error('LUT storage failed'));
+    });
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Imported LUTs saved in this browser, registered so stages can use them straight away
+ */
+export async function loadStoredLuts(): Promise<ColorLut[]> {
+  const luts = await runTransaction('readonly', store => store.getAll() as IDBRequest<ColorLut[]>);
+  luts.forEach(registerLut);
+  return luts.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function storeLut(lut: ColorLut): Promise<void> {
+  registerLut(lut);
+  await runTransaction('readwrite', store => store.put(lut));
+}
+
+export async function deleteStoredLut(id: string): Promise<void> {
+  unregisterLut(id);
+  await runTransaction('readwrite', store => store.delete(id));
+}
@@ -0,0 +1,103 @@
+/**
+ * YCbCr conversion for filters that treat luma and chroma differently.
+ * Canvas pixels are full-range RGB, so the full-range (JPEG-style) form of each matrix is used;
+ * the matrix itself follows the source: BT.709 for HD, BT.601 for SD, unless metadata says otherwise.
+ */
+
+import { createPixelFrame, type PixelFrame } from './pixelFrame';
+
+export type ColorMatrix = 'bt601' | 'bt709';
+
+export const COLOR_MATRICES: ColorMatrix[] = ['bt601', 'bt709'];
+
+/** Red and blue luma weights; green is the remainder */
+const LUMA_WEIGHTS: Record<ColorMatrix, { kr: number; kb: number }> = {
+  bt601: { kr: 0.299, kb: 0.114 },
+  bt709: { kr: 0.2126, kb: 0.0722 }
+};
+
+// Matrix names as reported by WebCodecs (VideoColorSpace.matrix) and container metadata
+const METADATA_MATRICES: Record<string, ColorMatrix> = {
+  bt709: 'bt709',
+  bt470bg: 'bt601',
+  smpte170m: 'bt601',
+  bt601: 'bt601'
+};
+
+/**
+ * The matrix a source was encoded with: from metadata when it names one we support, otherwise
+ * by the usual convention that anything larger than SD (576 lines) is BT.709
+ */
+export function chooseColorMatrix(width: number, height: number, metadataMatrix?: string | null): ColorMatrix {
+  const fromMetadata = metadataMatrix ? METADATA_MATRICES[metadataMatrix.toLowerCase()] : undefined;
+  if (fromMetadata) return fromMetadata;
+  return width > 1024 || height > 576 ? 'bt709' : 'bt601';
+}
+
+/**
+ * Round and clamp to a byte; every filter writes its results through this so values are
+ * rounded the same way everywhere instead of truncated by the typed array
+ */
+export function clampByte(value: number): number {
+  return value <= 0 ? 0 : value >= 255 ? 255 : Math.round(value);
+}
+
+/**
+ * Planar YCbCr frame; chroma is centred on 128 and kept at full resolution
+ */
+export interface YCbCrFrame {
+  y: Float32Array;
+  cb: Float32Array;
+  cr: Float32Array;
+  width: number;
+  height: number;
+}
+
+export function toYCbCr(frame: PixelFrame, matrix: ColorMatrix): YCbCrFrame {
+  const { data, width, height } = frame;
+  const { kr, kb } = LUMA_WEIGHTS[matrix];
+  const kg = 1 - kr - kb;
+  const cbScale = 1 / (2 * (1 - kb));
+  const crScale = 1 / (2 * (1 - kr));
+  const count = width * height;
+  const y = new Float32Array(count);
+  const cb = new Float32Array(count);
+  const cr = new Float32Array(count);
+
+  for (let p = 0, i = 0; p < count; p++, i += 4) {
+    const r = data[i];
+    const b = data[i + 2];
+    const luma = kr * r + kg * data[i + 1] + kb * b;
+    y[p] = luma;
+    cb[p] = (b - luma) * cbScale + 128;
+    cr[p] = (r - luma) * crScale + 128;
+  }
+
+  return { y, cb, cr, width, height };
+}
+
+/**
+ * Convert back to RGB, taking alpha from the frame the planes were made from
+ */
+export function fromYCbCr(planes: YCbCrFrame, alphaSource: PixelFrame, matrix: ColorMatrix): PixelFrame {
+  const { y, cb, cr, width, height } = planes;
+  const { kr, kb } = LUMA_WEIGHTS[matrix];
+  const kg = 1 - kr - kb;
+  const crToR = 2 * (1 - kr);
+  const cbToB = 2 * (1 - kb);
+  const output = createPixelFrame(width, height);
+  const data = output.data;
+  const alpha = alphaSource.data;
+
+  for (let p = 0, i = 0; p < y.length; p++, i += 4) {
+    const luma = y[p];
+    const r = luma + crToR * (cr[p] - 128);
+    const b = luma + cbToB * (cb[p] - 128);
+    data[i] = clampByte(r);
+    data[i + 1] = clampByte((luma - kr * r - kb * b) / kg);
+    data[i + 2] = clampByte(b);
+    data[i + 3] = alpha[i + 3];
+  }
+
+  return output;
+}
@@ -0,0 +1,544 @@
+/**
+ * MPEG-DASH manifest (.mpd) parsing without the DOM, so the same code runs in the browser
+ * player and in API routes. Every addressing scheme is resolved to explicit segment lists:
+ * SegmentTemplate (with or without a SegmentTimeline), SegmentList and SegmentBase, the last
+ * via the file's sidx box once the player has fetched it.
+ */
+
+export type DashContentType = 'video' | 'audio' | 'text' | 'other';
+
+export interface ByteRange {
+  start: number;
+  /** Inclusive, as in HTTP Range headers */
+  end: number;
+}
+
+export interface DashSegment {
+  url: string;
+  byteRange?: ByteRange;
+  /** Seconds from the start of the period */
+  start: number;
+  duration: number;
+}
+
+export interface DashInitSegment {
+  url: string;
+  byteRange?: ByteRange;
+}
+
+export interface DashRepresentation {
+  id: string;
+  bandwidth: number;
+  width: number;
+  height: number;
+  codecs: string;
+  mimeType: string;
+  contentType: DashContentType;
+  initialization?: DashInitSegment;
+  segments: DashSegment[];
+  /** SegmentBase only: where the sidx box is; segments stays empty until it is parsed */
+  segmentIndex?: { url: string; byteRange: ByteRange; timescale: number };
+  /** Media time (seconds) that lines up with the start of the period */
+  timeOffset: number;
+}
+
+export interface DashAdaptationSet {
+  id: string;
+  contentType: DashContentType;
+  lang?: string;
+  representations: DashRepresentation[];
+}
+
+export interface DashPeriod {
+  id: string;
+  /** Seconds from the start of the presentation */
+  start: number;
+  /** Infinity when neither the period nor the manifest says */
+  duration: number;
+  adaptationSets: DashAdaptationSet[];
+}
+
+export interface DashManifest {
+  type: 'static' | 'dynamic';
+  duration: number;
+  minBufferTime: number;
+  periods: DashPeriod[];
+}
+
+interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+}
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return XML_ENTITIES[entity] ?? match;
+  });
+}
+
+// Namespace prefixes are dropped: MPDs put the DASH elements in the default namespace
+function localName(name: string): string {
+  const colon = name.indexOf(':');
+  return colon === -1 ? name : name.slice(colon + 1);
+}
+
+/**
+ * Just enough XML for manifests: elements, attributes and text; comments, processing
+ * instructions and doctypes are skipped
+ */
+function parseXml(text: string): XmlElement {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [], text: '' };
+  const stack: XmlElement[] = [root];
+  const tokenPattern = /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!\[CDATA\[([\s\S]*?)\]\]>|<!DOCTYPE[^>]*>|<\/([^\s>]+)\s*>|<([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/g;
+  const attributePattern = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = tokenPattern.exec(text)) !== null) {
+    const current = stack[stack.length - 1];
+    const [, cdata, closingName, openingName, attributeText, selfClosing, textContent] = match;
+
+    if (cdata !== undefined) {
+      current.text += cdata;
+    } else if (closingName !== undefined) {
+      if (stack.length === 1 || current.name !== localName(closingName)) {
+        throw new Error(`Malformed XML: unexpected </${closingName}>`);
+      }
+      stack.pop();
+    } else if (openingName !== undefined) {
+      const element: XmlElement = { name: localName(openingName), attributes: {}, children: [], text: '' };
+      let attribute: RegExpExecArray | null;
+      attributePattern.lastIndex = 0;
+      while ((attribute = attributePattern.exec(attributeText)) !== null) {
+        element.attributes[localName(attribute[1])] = decodeEntities(attribute[2] ?? attribute[3]);
+      }
+      current.children.push(element);
+      if (!selfClosing) stack.push(element);
+    } else if (textContent !== undefined) {
+      current.text += decodeEntities(textContent);
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new Error(`Malformed XML: <${stack[stack.length - 1].name}> is never closed`);
+  }
+  return root;
+}
+
+function child(element: XmlElement | undefined, name: string): XmlElement | undefined {
+  return element?.children.find(c => c.name === name);
+}
+
+function childrenNamed(element: XmlElement, name: string): XmlElement[] {
+  return element.children.filter(c => c.name === name);
+}
+
+function numberAttribute(element: XmlElement | undefined, name: string, fallback: number): number {
+  const value = element?.attributes[name];
+  if (value === undefined) return fallback;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+/**
+ * ISO 8601 durations as used by MPDs, e.g. PT1H2M3.5S or P1DT12H
+ */
+export function parseIsoDuration(value: string | undefined): number {
+  if (!value) return NaN;
+  const match = value.trim().match(/^(-)?P(?:(\d+(?:\.\d+)?)Y)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/);
+  if (!match) return NaN;
+  const [, sign, years, months, days, hours, minutes, seconds] = match;
+  const total =
+    Number(years ?? 0) * 365 * 86400 +
+    Number(months ?? 0) * 30 * 86400 +
+    Number(days ?? 0) * 86400 +
+    Number(hours ?? 0) * 3600 +
+    Number(minutes ?? 0) * 60 +
+    Number(seconds ?? 0);
+  return sign ? -total : total;
+}
+
+function parseByteRange(value: string | undefined): ByteRange | undefined {
+  const match = value?.match(/^\s*(\d+)\s*-\s*(\d+)\s*$/);
+  return match ? { start: Number(match[1]), end: Number(match[2]) } : undefined;
+}
+
+function resolveUrl(url: string, base: string): string {
+  try {
+    return new URL(url, base).href;
+  } catch {
+    return url;
+  }
+}
+
+function resolveBaseUrl(element: XmlElement, base: string): string {
+  const baseUrl = child(element, 'BaseURL')?.text.trim();
+  return baseUrl ? resolveUrl(baseUrl, base) : base;
+}
+
+/**
+ * Segment addressing is inherited Period -> AdaptationSet -> Representation: attributes and
+ * child elements on the inner level override the outer one
+ */
+function mergeSegmentElement(outer: XmlElement | undefined, inner: XmlElement | undefined): XmlElement | undefined {
+  if (!outer) return inner;
+  if (!inner) return outer;
+  const children = [...inner.children];
+  for (const outerChild of outer.children) {
+    if (!children.some(c => c.name === outerChild.name)) children.push(outerChild);
+  }
+  return { name: inner.name, attributes: { ...outer.attributes, ...inner.attributes }, children, text: inner.text };
+}
+
+interface SegmentContext {
+  template?: XmlElement;
+  list?: XmlElement;
+  base?: XmlElement;
+}
+
+function segmentContext(element: XmlElement, outer: SegmentContext): SegmentContext {
+  return {
+    template: mergeSegmentElement(outer.template, child(element, 'SegmentTemplate')),
+    list: mergeSegmentElement(outer.list, child(element, 'SegmentList')),
+    base: mergeSegmentElement(outer.base, child(element, 'SegmentBase'))
+  };
+}
+
+/**
+ * Fill $RepresentationID$, $Number$, $Bandwidth$ and $Time$ (each optionally with a %0Nd
+ * width) in a SegmentTemplate URL
+ */
+export function expandTemplate(
+  template: string,
+  values: { representationId: string; bandwidth: number; number?: number; time?: number }
+): string {
+  return template.replace(/\$(RepresentationID|Number|Bandwidth|Time|)(?:%0(\d+)d)?\$/g, (match, name: string, width?: string) => {
+    if (name === '') return '$';
+    const value =
+      name === 'RepresentationID' ? values.representationId :
+      name === 'Number' ? values.number :
+      name === 'Bandwidth' ? values.bandwidth :
+      values.time;
+    if (value === undefined) return match;
+    const text = String(value);
+    return width && name !== 'RepresentationID' ? text.padStart(Number(width), '0') : text;
+  });
+}
+
+interface TimelineEntry {
+  /** In timescale units, before the presentation time offset is removed */
+  time: number;
+  duration: number;
+}
+
+/**
+ * Expand a SegmentTimeline, including negative repeat counts that run to the next entry or
+ * the end of the period
+ */
+function expandTimeline(timeline: XmlElement, timescale: number, offset: number, periodDuration: number): TimelineEntry[] {
+  const entries: TimelineEntry[] = [];
+  const items = childrenNamed(timeline, 'S');
+  let time = 0;
+
+  items.forEach((item, index) => {
+    time = numberAttribute(item, 't', time);
+    const duration = numberAttribute(item, 'd', 0);
+    if (duration <= 0) return;
+    let repeat = numberAttribute(item, 'r', 0);
+
+    if (repeat < 0) {
+      const next = items[index + 1]?.attributes.t;
+      const end = next !== undefined ? Number(next) : offset + periodDuration * timescale;
+      repeat = Number.isFinite(end) ? Math.ceil((end - time) / duration) - 1 : 0;
+    }
+
+    for (let r = 0; r <= repeat; r++) {
+      entries.push({ time, duration });
+      time += duration;
+    }
+  });
+
+  return entries;
+}
+
+function segmentCount(duration: number, timescale: number, periodDuration: number): number {
+  if (!Number.isFinite(periodDuration)) {
+    throw new Error('Segment count is unknown: the period has no duration');
+  }
+  return Math.max(0, Math.ceil((periodDuration * timescale) / duration - 1e-9));
+}
+
+function contentTypeOf(mimeType: string, codecs: string, declared?: string): DashContentType {
+  const type = declared || mimeType.split('/')[0];
+  if (type === 'video' || type === 'audio' || type === 'text') return type;
+  if (type === 'application' && /ttml|vtt/.test(mimeType)) return 'text';
+  if (/^(avc|hvc|hev|vp0?[89]|av01)/.test(codecs)) return 'video';
+  if (/^(mp4a|opus|ac-3|ec-3|flac|vorbis)/.test(codecs)) return 'audio';
+  return 'other';
+}
+
+function parseRepresentation(
+  element: XmlElement,
+  adaptationSet: XmlElement,
+  baseUrl: string,
+  context: SegmentContext,
+  periodDuration: number
+): DashRepresentation {
+  const attribute = (name: string) => element.attributes[name] ?? adaptationSet.attributes[name] ?? '';
+  const id = element.attributes.id ?? '';
+  const bandwidth = numberAttribute(element, 'bandwidth', 0);
+  const mimeType = attribute('mimeType');
+  const codecs = attribute('codecs');
+  const representationBase = resolveBaseUrl(element, baseUrl);
+  const { template, list, base } = segmentContext(element, context);
+
+  const representation: DashRepresentation = {
+    id,
+    bandwidth,
+    width: numberAttribute(element, 'width', numberAttribute(adaptationSet, 'width', 0)),
+    height: numberAttribute(element, 'height', numberAttribute(adaptationSet, 'height', 0)),
+    codecs,
+    mimeType,
+    contentType: contentTypeOf(mimeType, codecs, adaptationSet.attributes.contentType),
+    segments: [],
+    timeOffset: 0
+  };
+
+  if (template) {
+    const timescale = numberAttribute(template, 'timescale', 1);
+    const offset = numberAttribute(template, 'presentationTimeOffset', 0);
+    const startNumber = numberAttribute(template, 'startNumber', 1);
+    const media = template.attributes.media;
+    representation.timeOffset = offset / timescale;
+
+    if (template.attributes.initialization) {
+      representation.initialization = {
+        url: resolveUrl(expandTemplate(template.attributes.initialization, { representationId: id, bandwidth }), representationBase)
+      };
+    }
+
+    if (!media) {
+      throw new Error(`Representation ${id} has a SegmentTemplate without a media attribute`);
+    }
+
+    const timeline = child(template, 'SegmentTimeline');
+    if (timeline) {
+      representation.segments = expandTimeline(timeline, timescale, offset, periodDuration).map((entry, index) => ({
+        url: resolveUrl(expandTemplate(media, { representationId: id, bandwidth, number: startNumber + index, time: entry.time }), representationBase),
+        start: (entry.time - offset) / timescale,
+        duration: entry.duration / timescale
+      }));
+    } else {
+      const duration = numberAttribute(template, 'duration', 0);
+      if (duration <= 0) {
+        throw new Error(`Representation ${id} has a SegmentTemplate without a duration or SegmentTimeline`);
+      }
+      const count = segmentCount(duration, timescale, periodDuration);
+      for (let index = 0; index < count; index++) {
+        representation.segments.push({
+          url: resolveUrl(expandTemplate(media, { representationId: id, bandwidth, number: startNumber + index, time: index * duration + offset }), representationBase),
+          start: (index * duration) / timescale,
+          duration: Math.min(duration / timescale, periodDuration - (index * duration) / timescale)
+        });
+      }
+    }
+    return representation;
+  }
+
+  if (list) {
+    const timescale = numberAttribute(list, 'timescale', 1);
+    const offset = numberAttribute(list, 'presentationTimeOffset', 0);
+    const duration = numberAttribute(list, 'duration', 0);
+    const timeline = child(list, 'SegmentTimeline');
+    const entries = timeline ? expandTimeline(timeline, timescale, offset, periodDuration) : [];
+    const initialization = child(list, 'Initialization');
+    representation.timeOffset = offset / timescale;
+
+    if (initialization) {
+      representation.initialization = {
+        url: resolveUrl(initialization.attributes.sourceURL ?? '', representationBase),
+        byteRange: parseByteRange(initialization.attributes.range)
+      };
+    }
+
+    representation.segments = childrenNamed(list, 'SegmentURL').map((segment, index) => {
+      const entry = entries[index];
+      return {
+        url: resolveUrl(segment.attributes.media ?? '', representationBase),
+        byteRange: parseByteRange(segment.attributes.mediaRange),
+        start: entry ? (entry.time - offset) / timescale : (index * duration) / timescale,
+        duration: entry ? entry.duration / timescale : duration / timescale
+      };
+    });
+    return representation;
+  }
+
+  if (base) {
+    const timescale = numberAttribute(base, 'timescale', 1);
+    const indexRange = parseByteRange(base.attributes.indexRange);
+    const initialization = child(base, 'Initialization');
+    representation.timeOffset = numberAttribute(base, 'presentationTimeOffset', 0) / timescale;
+
+    if (initialization) {
+      representation.initialization = {
+        url: resolveUrl(initialization.attributes.sourceURL ?? '', representationBase),
+        byteRange: parseByteRange(initialization.attributes.range)
+      };
+    } else if (indexRange) {
+      // Without an explicit range, everything before the index is the init segment
+      representation.initialization = { url: representationBase, byteRange: { start: 0, end: indexRange.start - 1 } };
+    }
+
+    if (indexRange) {
+      representation.segmentIndex = { url: representationBase, byteRange: indexRange, timescale };
+      return representation;
+    }
+  }
+
+  // No addressing at all: the BaseURL is one self-initialising file covering the period
+  representation.segments = [{ url: representationBase, start: 0, duration: periodDuration }];
+  return representation;
+}
+
+/**
+ * Parse an MPD, resolving relative URLs against the manifest's own URL
+ */
+export function parseMpd(text: string, manifestUrl: string): DashManifest {
+  const mpd = child(parseXml(text), 'MPD');
+  if (!mpd) {
+    throw new Error('Not a DASH manifest: no <MPD> element');
+  }
+
+  const type = mpd.attributes.type === 'dynamic' ? 'dynamic' : 'static';
+  const presentationDuration = parseIsoDuration(mpd.attributes.mediaPresentationDuration);
+  const mpdBase = resolveBaseUrl(mpd, manifestUrl);
+  const periodElements = childrenNamed(mpd, 'Period');
+  if (periodElements.length === 0) {
+    throw new Error('DASH manifest has no periods');
+  }
+
+  const periods: DashPeriod[] = [];
+  let previousEnd = 0;
+
+  periodElements.forEach((periodElement, index) => {
+    const start = parseIsoDuration(periodElement.attributes.start);
+    const periodStart = Number.isFinite(start) ? start : previousEnd;
+    const nextStart = parseIsoDuration(periodElements[index + 1]?.attributes.start);
+    let duration = parseIsoDuration(periodElement.attributes.duration);
+    if (!Number.isFinite(duration)) {
+      duration = Number.isFinite(nextStart)
+        ? nextStart - periodStart
+        : Number.isFinite(presentationDuration) && index === periodElements.length - 1
+          ? presentationDuration - periodStart
+          : Infinity;
+    }
+
+    const periodBase = resolveBaseUrl(periodElement, mpdBase);
+    const periodContext = segmentContext(periodElement, {});
+
+    const adaptationSets = childrenNamed(periodElement, 'AdaptationSet').map((setElement, setIndex): DashAdaptationSet => {
+      const setBase = resolveBaseUrl(setElement, periodBase);
+      const setContext = segmentContext(setElement, periodContext);
+      const representations = childrenNamed(setElement, 'Representation')
+        .map(element => parseRepresentation(element, setElement, setBase, setContext, duration));
+
+      return {
+        id: setElement.attributes.id ?? String(setIndex),
+        contentType: representations[0]?.contentType ?? contentTypeOf(setElement.attributes.mimeType ?? '', '', setElement.attributes.contentType),
+        lang: setElement.attributes.lang,
+        representations
+      };
+    });
+
+    periods.push({
+      id: periodElement.attributes.id ?? String(index),
+      start: periodStart,
+      duration,
+      adaptationSets
+    });
+    previousEnd = periodStart + duration;
+  });
+
+  const last = periods[periods.length - 1];
+  return {
+    type,
+    duration: Number.isFinite(presentationDuration) ? presentationDuration : last.start + last.duration,
+    minBufferTime: parseIsoDuration(mpd.attributes.minBufferTime) || 2,
+    periods
+  };
+}
+
+function readUint64(view: DataView, offset: number): number {
+  return view.getUint32(offset) * 2 ** 32 + view.getUint32(offset + 4);
+}
+
+/**
+ * Segments listed in a SegmentBase file's sidx box. `data` holds the bytes of `byteRange`,
+ * which must contain the whole box; offsets in the result are absolute file offsets.
+ */
+export function parseSidx(data: ArrayBuffer, byteRange: ByteRange, url: string, timeOffset: number): DashSegment[] {
+  const view = new DataView(data);
+  let boxStart = 0;
+
+  // indexRange sometimes starts a few boxes early, so walk to the sidx
+  while (boxStart + 8 <= view.byteLength) {
+    const size = view.getUint32(boxStart);
+    const type = String.fromCharCode(...new Uint8Array(data, boxStart + 4, 4));
+    if (type === 'sidx') break;
+    if (size < 8) throw new Error('Malformed segment index');
+    boxStart += size;
+  }
+  if (boxStart + 8 > view.byteLength) {
+    throw new Error('Segment index range does not contain a sidx box');
+  }
+
+  const boxSize = view.getUint32(boxStart);
+  const version = view.getUint8(boxStart + 8);
+  const timescale = view.getUint32(boxStart + 16);
+  let cursor = boxStart + 20;
+  let earliestTime: number;
+  let firstOffset: number;
+  if (version === 0) {
+    earliestTime = view.getUint32(cursor);
+    firstOffset = view.getUint32(cursor + 4);
+    cursor += 8;
+  } else {
+    earliestTime = readUint64(view, cursor);
+    firstOffset = readUint64(view, cursor + 8);
+    cursor += 16;
+  }
+  const referenceCount = view.getUint16(cursor + 2);
+  cursor += 4;
+
+  const segments: DashSegment[] = [];
+  let offset = byteRange.start + boxStart + boxSize + firstOffset;
+  let time = earliestTime;
+
+  for (let i = 0; i < referenceCount; i++) {
+    const reference = view.getUint32(cursor);
+    const duration = view.getUint32(cursor + 4);
+    cursor += 12;
+    // Hierarchical indexes (reference_type 1) point at further sidx boxes; not used in practice for VOD
+    if (reference >>> 31) {
+      throw new Error('Hierarchical segment indexes are not supported');
+    }
+    const size = reference & 0x7fffffff;
+    segments.push({
+      url,
+      byteRange: { start: offset, end: offset + size - 1 },
+      start: time / timescale - timeOffset,
+      duration: duration / timescale
+    });
+    offset += size;
+    time += duration;
+  }
+
+  return segments;
+}
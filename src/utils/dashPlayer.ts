@@ -0,0 +1,425 @@
+/**
+ * MPEG-DASH playback through Media Source Extensions: one SourceBuffer per track (video, audio),
+ * each filled by its own loop that keeps a fixed amount of media buffered ahead of the playhead.
+ * Video renditions are picked by measured throughput unless one is chosen by hand; multiple
+ * periods play back to back by shifting each period's media to its start time.
+ */
+
+import { createRendition, getRangeAhead, unwrapProxyUrl, type StreamRendition } from './adaptiveStreaming';
+import { parseMpd, parseSidx, type ByteRange, type DashManifest, type DashPeriod, type DashRepresentation, type DashSegment } from './dashManifest';
+
+export interface DashPlayerCallbacks {
+  onRenditions: (renditions: StreamRendition[]) => void;
+  onRenditionChange: (index: number) => void;
+  onRecovering: (kind: 'network' | null) => void;
+  onError: (message: string) => void;
+}
+
+type TrackKind = 'video' | 'audio';
+
+interface Track {
+  kind: TrackKind;
+  buffer: SourceBuffer;
+  periodIndex: number;
+  segmentIndex: number;
+  /** Set after a seek: the next segment is looked up by this time (seconds into the period) */
+  seekTarget?: number;
+  /** Representation whose init segment the buffer last received */
+  representation?: DashRepresentation;
+  /** Bumped on seeks and switches so segments requested for the old position are dropped */
+  generation: number;
+  finished: boolean;
+  controller?: AbortController;
+  /** SourceBuffer operations run one at a time */
+  queue: Promise<void>;
+}
+
+const BUFFER_TARGET_SECONDS = 30;
+const BACK_BUFFER_SECONDS = 30;
+const IDLE_POLL_MS = 250;
+const MAX_NETWORK_RETRIES = 3;
+const RETRY_DELAY_MS = 1000;
+// Share of measured throughput a rendition may use, leaving headroom for variance
+const ABR_SAFETY_FACTOR = 0.8;
+const THROUGHPUT_SMOOTHING = 0.3;
+// A manual switch keeps this much of the current rendition so playback doesn't stall
+const SWITCH_MARGIN_SECONDS = 1;
+
+function mimeCodec(representation: DashRepresentation): string {
+  return `${representation.mimeType}; codecs="${representation.codecs}"`;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+function updateBuffer(buffer: SourceBuffer, operation: () => void): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      buffer.removeEventListener('updateend', handleEnd);
+      buffer.removeEventListener('error', handleError);
+    };
+    const handleEnd = () => {
+      cleanup();
+      resolve();
+    };
+    const handleError = () => {
+      cleanup();
+      reject(new Error('Stream media could not be decoded'));
+    };
+    buffer.addEventListener('updateend', handleEnd);
+    buffer.addEventListener('error', handleError);
+    try {
+      operation();
+    } catch (error) {
+      cleanup();
+      reject(error);
+    }
+  });
+}
+
+export class DashPlayer {
+  private mediaSource = new MediaSource();
+  private objectUrl = '';
+  private manifest: DashManifest | null = null;
+  /** Playable representations per period, lowest bandwidth first */
+  private periodRepresentations: Array<Record<TrackKind, DashRepresentation[]>> = [];
+  private tracks: Track[] = [];
+  private renditions: StreamRendition[] = [];
+  private manualRendition = -1;
+  private currentRendition = -1;
+  /** Smoothed video download rate in bits per second; 0 until the first segment */
+  private throughput = 0;
+  private segmentIndexes = new Map<DashRepresentation, Promise<DashSegment[]>>();
+  private destroyed = false;
+  private manifestBase: string;
+  private proxied: boolean;
+
+  constructor(private video: HTMLVideoElement, private manifestUrl: string, private callbacks: DashPlayerCallbacks) {
+    // A proxied manifest's segments are relative to the original URL, not to the proxy route
+    const target = unwrapProxyUrl(manifestUrl);
+    this.proxied = target !== manifestUrl;
+    this.manifestBase = new URL(target, window.location.href).href;
+  }
+
+  async load(): Promise<void> {
+    const response = await fetch(this.manifestUrl);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch manifest: ${response.status}`);
+    }
+    const manifest = parseMpd(await response.text(), this.manifestBase);
+    if (this.destroyed) return;
+    if (manifest.type === 'dynamic') {
+      throw new Error('Live DASH streams are not supported yet');
+    }
+
+    this.manifest = manifest;
+    this.periodRepresentations = manifest.periods.map(period => ({
+      video: this.playableRepresentations(period, 'video'),
+      audio: this.playableRepresentations(period, 'audio')
+    }));
+
+    const { video: videoRepresentations, audio: audioRepresentations } = this.periodRepresentations[0];
+    if (videoRepresentations.length === 0 && audioRepresentations.length === 0) {
+      throw new Error('This browser cannot play any of the stream\'s renditions');
+    }
+    this.renditions = videoRepresentations.map((representation, index) =>
+      createRendition(index, representation.width, representation.height, representation.bandwidth)
+    );
+    this.callbacks.onRenditions(this.renditions);
+
+    this.objectUrl = URL.createObjectURL(this.mediaSource);
+    this.video.src = this.objectUrl;
+    await new Promise<void>(resolve => this.mediaSource.addEventListener('sourceopen', () => resolve(), { once: true }));
+    if (this.destroyed) return;
+
+    if (Number.isFinite(manifest.duration)) {
+      this.mediaSource.duration = manifest.duration;
+    }
+
+    for (const [kind, representations] of [['video', videoRepresentations], ['audio', audioRepresentations]] as const) {
+      if (representations.length === 0) continue;
+      this.tracks.push({
+        kind,
+        buffer: this.mediaSource.addSourceBuffer(mimeCodec(representations[0])),
+        periodIndex: 0,
+        segmentIndex: 0,
+        generation: 0,
+        finished: false,
+        queue: Promise.resolve()
+      });
+    }
+
+    this.video.addEventListener('seeking', this.handleSeeking);
+    this.tracks.forEach(track => void this.pump(track));
+  }
+
+  /**
+   * Pick a video rendition by index, or -1 to choose by throughput again
+   */
+  selectRendition(index: number): void {
+    this.manualRendition = index;
+    const track = this.tracks.find(t => t.kind === 'video');
+    if (!track || index === -1) return;
+
+    // Replace what is buffered past the switch point instead of waiting for it to play out
+    const from = this.video.currentTime + SWITCH_MARGIN_SECONDS;
+    const end = Number.isFinite(this.mediaSource.duration) ? this.mediaSource.duration : Infinity;
+    this.reposition(track, from);
+    if (from < end) {
+      void this.onBuffer(track, () => updateBuffer(track.buffer, () => track.buffer.remove(from, end)));
+    }
+  }
+
+  destroy(): void {
+    this.destroyed = true;
+    this.video.removeEventListener('seeking', this.handleSeeking);
+    for (const track of this.tracks) {
+      track.generation++;
+      track.controller?.abort();
+    }
+    if (this.objectUrl) {
+      URL.revokeObjectURL(this.objectUrl);
+      this.video.removeAttribute('src');
+      this.video.load();
+    }
+  }
+
+  private handleSeeking = () => {
+    const time = this.video.currentTime;
+    for (const track of this.tracks) {
+      // Continue after whatever is already buffered at the new position
+      this.reposition(track, time + getRangeAhead(track.buffer.buffered, time));
+    }
+  };
+
+  private reposition(track: Track, time: number): void {
+    const periods = this.manifest?.periods ?? [];
+    const periodIndex = periods.findIndex(period => time < period.start + period.duration);
+
+    track.generation++;
+    track.controller?.abort();
+    track.representation = undefined;
+    track.finished = false;
+    track.periodIndex = periodIndex === -1 ? periods.length : periodIndex;
+    track.segmentIndex = 0;
+    track.seekTarget = periodIndex === -1 ? undefined : time - periods[periodIndex].start;
+  }
+
+  private playableRepresentations(period: DashPeriod, kind: TrackKind): DashRepresentation[] {
+    for (const adaptationSet of period.adaptationSets) {
+      if (adaptationSet.contentType !== kind) continue;
+      const playable = adaptationSet.representations.filter(representation =>
+        MediaSource.isTypeSupported(mimeCodec(representation))
+      );
+      if (playable.length > 0) {
+        return playable.sort((a, b) => a.bandwidth - b.bandwidth);
+      }
+    }
+    return [];
+  }
+
+  private targetRendition(): number {
+    if (this.manualRendition >= 0) return this.manualRendition;
+    // Start at the bottom, like hls.js, until a download has been measured
+    let index = 0;
+    this.renditions.forEach((rendition, i) => {
+      if (rendition.bitrate <= this.throughput * ABR_SAFETY_FACTOR) index = i;
+    });
+    return index;
+  }
+
+  private chooseRepresentation(track: Track): DashRepresentation | undefined {
+    const candidates = this.periodRepresentations[track.periodIndex]?.[track.kind] ?? [];
+    if (candidates.length === 0) return undefined;
+    // Audio is cheap next to video; always take the best
+    if (track.kind === 'audio') return candidates[candidates.length - 1];
+
+    const index = this.targetRendition();
+    if (index !== this.currentRendition) {
+      this.currentRendition = index;
+      this.callbacks.onRenditionChange(index);
+    }
+    if (track.periodIndex === 0) return candidates[index];
+
+    // Later periods may have a different ladder; take the closest height
+    const target = this.renditions[index];
+    return candidates.reduce((best, candidate) =>
+      Math.abs(candidate.height - target.height) < Math.abs(best.height - target.height) ? candidate : best
+    );
+  }
+
+  private segmentsOf(representation: DashRepresentation): Promise<DashSegment[]> {
+    const index = representation.segmentIndex;
+    if (!index) return Promise.resolve(representation.segments);
+
+    let pending = this.segmentIndexes.get(representation);
+    if (!pending) {
+      pending = this.fetchBytes(index.url, index.byteRange)
+        .then(data => parseSidx(data, index.byteRange, index.url, representation.timeOffset))
+        .catch(error => {
+          this.segmentIndexes.delete(representation);
+          throw error;
+        });
+      this.segmentIndexes.set(representation, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Fetch a segment, retrying network failures with a growing delay
+   */
+  private async fetchBytes(url: string, byteRange?: ByteRange, signal?: AbortSignal): Promise<ArrayBuffer> {
+    // The downloader route streams binary and passes Range through; the page proxy only does text
+    const requestUrl = this.proxied ? `/api/video-downloader?url=${encodeURIComponent(url)}` : url;
+    const headers: Record<string, string> = byteRange ? { Range: `bytes=${byteRange.start}-${byteRange.end}` } : {};
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await fetch(requestUrl, { headers, signal });
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+        const data = await response.arrayBuffer();
+        if (attempt > 0) this.callbacks.onRecovering(null);
+        return data;
+      } catch (error) {
+        if (signal?.aborted || this.destroyed || attempt >= MAX_NETWORK_RETRIES) throw error;
+        console.warn(`DASH request failed (${error instanceof Error ? error.message : error}), retrying ${attempt + 1}/${MAX_NETWORK_RETRIES}`);
+        this.callbacks.onRecovering('network');
+        await sleep(RETRY_DELAY_MS * (attempt + 1));
+      }
+    }
+  }
+
+  private measureThroughput(bytes: number, milliseconds: number): void {
+    // Tiny or cached responses say nothing about the network
+    if (milliseconds < 20) return;
+    const sample = (bytes * 8 * 1000) / milliseconds;
+    this.throughput = this.throughput
+      ? this.throughput * (1 - THROUGHPUT_SMOOTHING) + sample * THROUGHPUT_SMOOTHING
+      : sample;
+  }
+
+  private onBuffer(track: Track, operation: () => Promise<void>): Promise<void> {
+    const run = track.queue.then(operation);
+    track.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async append(track: Track, data: ArrayBuffer): Promise<void> {
+    try {
+      await updateBuffer(track.buffer, () => track.buffer.appendBuffer(data));
+    } catch (error) {
+      if (!(error instanceof DOMException && error.name === 'QuotaExceededError')) throw error;
+      // Buffer full: drop everything already played and try once more
+      const playedEnd = this.video.currentTime - SWITCH_MARGIN_SECONDS;
+      if (playedEnd <= 0) throw error;
+      await updateBuffer(track.buffer, () => track.buffer.remove(0, playedEnd));
+      await updateBuffer(track.buffer, () => track.buffer.appendBuffer(data));
+    }
+
+    const backBufferEnd = this.video.currentTime - BACK_BUFFER_SECONDS;
+    const { buffered } = track.buffer;
+    if (backBufferEnd > 0 && buffered.length > 0 && buffered.start(0) < backBufferEnd) {
+      await updateBuffer(track.buffer, () => track.buffer.remove(0, backBufferEnd));
+    }
+  }
+
+  private async pump(track: Track): Promise<void> {
+    while (!this.destroyed) {
+      try {
+        if (track.finished || getRangeAhead(track.buffer.buffered, this.video.currentTime) >= BUFFER_TARGET_SECONDS) {
+          await sleep(IDLE_POLL_MS);
+          continue;
+        }
+        await this.loadNextSegment(track);
+      } catch (error) {
+        if (this.destroyed || isAbortError(error)) continue;
+        console.error(`DASH ${track.kind} playback failed:`, error);
+        this.callbacks.onError(`Stream playback failed (${error instanceof Error ? error.message : 'unknown error'})`);
+        return;
+      }
+    }
+  }
+
+  private async loadNextSegment(track: Track): Promise<void> {
+    const period = this.manifest?.periods[track.periodIndex];
+    if (!period) {
+      track.finished = true;
+      this.endStreamWhenDone();
+      return;
+    }
+
+    const generation = track.generation;
+    const representation = this.chooseRepresentation(track);
+    const segments = representation ? await this.segmentsOf(representation) : [];
+    if (generation !== track.generation) return;
+
+    if (track.seekTarget !== undefined) {
+      const target = track.seekTarget;
+      const index = segments.findIndex(segment => target < segment.start + segment.duration);
+      track.segmentIndex = index === -1 ? segments.length : index;
+      track.seekTarget = undefined;
+    }
+
+    if (!representation || track.segmentIndex >= segments.length) {
+      track.periodIndex++;
+      track.segmentIndex = 0;
+      return;
+    }
+
+    const segment = segments[track.segmentIndex];
+    const initialization = track.representation !== representation ? representation.initialization : undefined;
+    const controller = new AbortController();
+    track.controller = controller;
+
+    const started = performance.now();
+    const [initData, mediaData] = await Promise.all([
+      initialization ? this.fetchBytes(initialization.url, initialization.byteRange, controller.signal) : undefined,
+      this.fetchBytes(segment.url, segment.byteRange, controller.signal)
+    ]);
+    if (generation !== track.generation) return;
+    if (track.kind === 'video') {
+      this.measureThroughput(mediaData.byteLength + (initData?.byteLength ?? 0), performance.now() - started);
+    }
+
+    await this.onBuffer(track, async () => {
+      if (track.representation !== representation) {
+        const previous = track.representation;
+        if (previous && mimeCodec(previous) !== mimeCodec(representation)) {
+          track.buffer.changeType(mimeCodec(representation));
+        }
+        if (initData) await this.append(track, initData);
+        track.representation = representation;
+      }
+      // Media timestamps start at the representation's own offset; line them up with the period
+      const offset = period.start - representation.timeOffset;
+      if (track.buffer.timestampOffset !== offset) {
+        track.buffer.timestampOffset = offset;
+      }
+      await this.append(track, mediaData);
+    });
+
+    if (generation === track.generation) {
+      track.segmentIndex++;
+    }
+  }
+
+  private endStreamWhenDone(): void {
+    if (!this.tracks.every(track => track.finished)) return;
+    void Promise.all(this.tracks.map(track => track.queue)).then(() => {
+      if (
+        !this.destroyed &&
+        this.mediaSource.readyState === 'open' &&
+        this.tracks.every(track => track.finished && !track.buffer.updating)
+      ) {
+        this.mediaSource.endOfStream();
+      }
+    });
+  }
+}
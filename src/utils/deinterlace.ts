@@ -0,0 +1,162 @@
+/**
+ * Deinterlacing for legacy DV and broadcast captures delivered as progressive video.
+ * Output has the same frame rate and size as the input: the kept field is copied and the
+ * other field's lines are rebuilt (bob), left alone (weave) or rebuilt only where the picture
+ * moved between fields (yadif-style motion adaptive).
+ */
+
+import { createPixelFrame, type PixelFrame } from './pixelFrame';
+
+export type DeinterlaceMode = 'bob' | 'weave' | 'yadif';
+
+/** Top field first (most HD broadcast) or bottom field first (DV) */
+export type FieldOrder = 'tff' | 'bff';
+
+// Squared luma deviation above which a woven line is treated as combing rather than detail
+const COMB_THRESHOLD = 64;
+
+function lumaRow(frame: PixelFrame, y: number, out: Float32Array): Float32Array {
+  const { data, width } = frame;
+  for (let x = 0, i = y * width * 4; x < width; x++, i += 4) {
+    out[x] = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+  }
+  return out;
+}
+
+/**
+ * Edge-directed spatial interpolation (ELA): pick the diagonal through the missing pixel along
+ * which the lines above and below agree best, so slanted edges stay smooth instead of stair-stepped
+ */
+function spatialDirection(above: Float32Array, below: Float32Array, x: number, width: number): number {
+  const at = (row: Float32Array, i: number) => row[Math.min(width - 1, Math.max(0, i))];
+
+  let bestDirection = 0;
+  let bestScore = Infinity;
+
+  for (const d of [0, -1, 1]) {
+    const score = Math.abs(at(above, x - 1 + d) - at(below, x - 1 - d)) +
+                  Math.abs(at(above, x + d) - at(below, x - d)) +
+                  Math.abs(at(above, x + 1 + d) - at(below, x + 1 - d));
+    if (score < bestScore) {
+      bestScore = score;
+      bestDirection = d;
+    }
+  }
+
+  return bestDirection;
+}
+
+/**
+ * Deinterlace one frame. The yadif mode uses the previous input frame, when given, as the
+ * temporal predictor; without one it falls back to detecting combing within the frame.
+ */
+export function deinterlaceFrame(
+  frame: PixelFrame,
+  mode: DeinterlaceMode,
+  fieldOrder: FieldOrder,
+  previous?: PixelFrame
+): PixelFrame {
+  if (mode === 'weave') return frame;
+
+  const { data, width, height } = frame;
+  const output = createPixelFrame(width, height);
+  const out = output.data;
+  out.set(data);
+
+  const hasPrevious = previous !== undefined && previous.width === width && previous.height === height;
+  // Lines of the field that is rebuilt: odd lines when the top field comes first
+  const firstMissing = fieldOrder === 'tff' ? 1 : 0;
+
+  const above = new Float32Array(width);
+  const below = new Float32Array(width);
+  const current = new Float32Array(width);
+  const prevAbove = new Float32Array(width);
+  const prevBelow = new Float32Array(width);
+  const prevCurrent = new Float32Array(width);
+
+  for (let y = firstMissing; y < height; y += 2) {
+    const yAbove = y > 0 ? y - 1 : y + 1;
+    const yBelow = y < height - 1 ? y + 1 : y - 1;
+    lumaRow(frame, yAbove, above);
+    lumaRow(frame, yBelow, below);
+
+    if (mode === 'yadif') {
+      lumaRow(frame, y, current);
+      if (hasPrevious) {
+        lumaRow(previous, yAbove, prevAbove);
+        lumaRow(previous, yBelow, prevBelow);
+        lumaRow(previous, y, prevCurrent);
+      }
+    }
+
+    for (let x = 0; x < width; x++) {
+      const idx = (y * width + x) * 4;
+      const d = spatialDirection(above, below, x, width);
+      const aboveIdx = (yAbove * width + Math.min(width - 1, Math.max(0, x + d))) * 4;
+      const belowIdx = (yBelow * width + Math.min(width - 1, Math.max(0, x - d))) * 4;
+
+      if (mode === 'bob') {
+        for (let c = 0; c < 3; c++) {
+          out[idx + c] = (data[aboveIdx + c] + data[belowIdx + c] + 1) >> 1;
+        }
+        continue;
+      }
+
+      if (hasPrevious) {
+        // yadif: the woven pixel and its predecessor on the same line predict the missing one;
+        // the spatial interpolation may only deviate from that by as much as the area moved
+        const change = Math.max(
+          Math.abs(current[x] - prevCurrent[x]) / 2,
+          (Math.abs(above[x] - prevAbove[x]) + Math.abs(below[x] - prevBelow[x])) / 2
+        );
+
+        for (let c = 0; c < 3; c++) {
+          const temporal = (data[idx + c] + previous.data[idx + c]) / 2;
+          const spatial = (data[aboveIdx + c] + data[belowIdx + c]) / 2;
+          out[idx + c] = Math.round(Math.min(temporal + change, Math.max(temporal - change, spatial)));
+        }
+        continue;
+      }
+
+      // No history: rebuild only pixels that deviate from both neighbours in the same direction
+      const comb = (current[x] - above[x]) * (current[x] - below[x]);
+      if (comb > COMB_THRESHOLD) {
+        for (let c = 0; c < 3; c++) {
+          out[idx + c] = (data[aboveIdx + c] + data[belowIdx + c] + 1) >> 1;
+        }
+      }
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Likelihood (0-1) that a frame is interlaced with motion: adjacent lines (opposite fields)
+ * differ far more than lines two apart (same field) only when the fields were captured apart
+ */
+export function estimateInterlacing(frame: PixelFrame): number {
+  const { width, height } = frame;
+  if (height < 4) return 0;
+
+  let interField = 0;
+  let intraField = 0;
+  const rows = [0, 1, 2].map(() => new Float32Array(width));
+
+  lumaRow(frame, 0, rows[0]);
+  lumaRow(frame, 1, rows[1]);
+
+  for (let y = 2; y < height; y++) {
+    const [top, middle] = [rows[(y - 2) % 3], rows[(y - 1) % 3]];
+    const bottom = lumaRow(frame, y, rows[y % 3]);
+
+    for (let x = 0; x < width; x++) {
+      interField += Math.abs(middle[x] - top[x]) + Math.abs(middle[x] - bottom[x]);
+      intraField += 2 * Math.abs(top[x] - bottom[x]);
+    }
+  }
+
+  // Progressive content sits around or below 1; combed frames run well above
+  const ratio = interField / Math.max(intraField, 1);
+  return Math.max(0, Math.min(1, (ratio - 1.2) / 1.3));
+}
@@ -0,0 +1,492 @@
+/**
+ * Declarative enhancement pipeline: an ordered, JSON-serializable list of typed stages.
+ * upscaleFrame, AIUpscaler.enhanceImageData and the UI all describe processing this way,
+ * so presets can carry a complete pipeline instead of a bag of sliders.
+ */
+
+import type { ImageEnhancementConfig, UpscalingConfig } from './aiUpscaler';
+import type { DeinterlaceMode, FieldOrder } from './deinterlace';
+import { LUT_INTERPOLATIONS, type LutInterpolation } from './colorLut';
+import { COLOR_MATRICES, type ColorMatrix } from './colorSpace';
+
+export const PIPELINE_VERSION = 1;
+
+export type ResampleAlgorithm = 'nearest' | 'bicubic' | 'lanczos' | 'canvas' | 'neural';
+
+export type StrengthStageType =
+  | 'deblocking'
+  | 'noise-reduction'
+  | 'edge-enhancement'
+  | 'sharpening'
+  | 'pixel-reconstruction'
+  | 'detail-reconstruction'
+  | 'color-enhancement'
+  | 'lighting-correction'
+  | 'contrast-boost';
+
+export interface StrengthStage {
+  type: StrengthStageType;
+  enabled?: boolean;
+  strength: number;
+  /** YCbCr matrix for stages that filter luma and chroma separately; picked from the frame size when omitted */
+  matrix?: ColorMatrix;
+}
+
+export interface ResampleStage {
+  type: 'resample';
+  enabled?: boolean;
+  algorithm: ResampleAlgorithm;
+  /** Relative scale; mutually exclusive with width/height */
+  scale?: number;
+  width?: number;
+  height?: number;
+  /** Lanczos window size, only used by the lanczos algorithm */
+  lobes?: 2 | 3;
+  /**
+   * Model for the neural algorithm: a registered model id, or the URL of a TF.js graph model's
+   * model.json. Picked by scale from the deployed built-in models when omitted.
+   */
+  model?: string;
+  /** YCbCr matrix the neural algorithm's luma models split the frame with */
+  matrix?: ColorMatrix;
+}
+
+export interface BrightnessContrastStage {
+  type: 'brightness-contrast';
+  enabled?: boolean;
+  brightness: number;
+  contrast: number;
+}
+
+export interface DebandStage {
+  type: 'debanding';
+  enabled?: boolean;
+  strength: number;
+  /** Noise added to smoothed pixels to hide the remaining steps, 0-1 */
+  dither: number;
+}
+
+export interface DeinterlaceStage {
+  type: 'deinterlace';
+  enabled?: boolean;
+  mode: DeinterlaceMode;
+  fieldOrder: FieldOrder;
+}
+
+export interface LutStage {
+  type: 'lut';
+  enabled?: boolean;
+  /** Id of a LUT registered with registerLut; the table itself is not part of the pipeline */
+  lutId: string;
+  intensity: number;
+  interpolation: LutInterpolation;
+}
+
+export type PipelineStage =
+  | StrengthStage
+  | ResampleStage
+  | BrightnessContrastStage
+  | DebandStage
+  | DeinterlaceStage
+  | LutStage;
+
+export type PipelineStageType = PipelineStage['type'];
+
+export interface EnhancementPipeline {
+  version: typeof PIPELINE_VERSION;
+  stages: PipelineStage[];
+}
+
+export interface PipelineValidationResult {
+  valid: boolean;
+  errors: string[];
+}
+
+interface NumericParam {
+  min: number;
+  max: number;
+  step: number;
+}
+
+/**
+ * Stage metadata shared by validation and the pipeline editor UI
+ */
+export const STAGE_DEFINITIONS: Record<PipelineStageType, { label: string; params: Record<string, NumericParam> }> = {
+  'deinterlace': { label: 'Deinterlace', params: {} },
+  'deblocking': { label: 'Deblocking', params: { strength: { min: 0, max: 1, step: 0.05 } } },
+  'noise-reduction': { label: 'Noise Reduction', params: { strength: { min: 0, max: 1, step: 0.05 } } },
+  'edge-enhancement': { label: 'Edge Enhancement', params: { strength: { min: 0, max: 1, step: 0.05 } } },
+  'sharpening': { label: 'Sharpening', params: { strength: { min: 0, max: 1, step: 0.05 } } },
+  'pixel-reconstruction': { label: 'Pixel Reconstruction', params: { strength: { min: 0, max: 1, step: 0.05 } } },
+  'detail-reconstruction': { label: 'Detail Reconstruction', params: { strength: { min: 0, max: 1, step: 0.05 } } },
+  'color-enhancement': { label: 'Color Enhancement', params: { strength: { min: 0, max: 1, step: 0.05 } } },
+  'lighting-correction': { label: 'Lighting Correction', params: { strength: { min: 0, max: 1, step: 0.05 } } },
+  'contrast-boost': { label: 'Contrast Boost', params: { strength: { min: 0, max: 1, step: 0.05 } } },
+  'debanding': {
+    label: 'Debanding',
+    params: {
+      strength: { min: 0, max: 1, step: 0.05 },
+      dither: { min: 0, max: 1, step: 0.05 }
+    }
+  },
+  'resample': { label: 'Resample', params: { scale: { min: 0.25, max: 8, step: 0.1 } } },
+  'brightness-contrast': {
+    label: 'Brightness / Contrast',
+    params: {
+      brightness: { min: -1, max: 1, step: 0.05 },
+      contrast: { min: -1, max: 1, step: 0.05 }
+    }
+  },
+  'lut': { label: '3D LUT', params: { intensity: { min: 0, max: 1, step: 0.05 } } }
+};
+
+const RESAMPLE_ALGORITHMS: ResampleAlgorithm[] = ['nearest', 'bicubic', 'lanczos', 'canvas', 'neural'];
+const DEINTERLACE_MODES: DeinterlaceMode[] = ['bob', 'weave', 'yadif'];
+const FIELD_ORDERS: FieldOrder[] = ['tff', 'bff'];
+const MAX_DIMENSION = 16384;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function checkNumber(
+  errors: string[],
+  where: string,
+  stage: Record<string, unknown>,
+  key: string,
+  range: { min: number; max: number }
+) {
+  const value = stage[key];
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    errors.push(`${where}.${key} must be a number`);
+  } else if (value < range.min || value > range.max) {
+    errors.push(`${where}.${key} must be between ${range.min} and ${range.max}`);
+  }
+}
+
+function validateStage(stage: unknown, index: number, errors: string[]) {
+  const where = `stages[${index}]`;
+
+  if (!isRecord(stage)) {
+    errors.push(`${where} must be an object`);
+    return;
+  }
+
+  const type = stage.type;
+  if (typeof type !== 'string' || !(type in STAGE_DEFINITIONS)) {
+    errors.push(`${where}.type "${String(type)}" is not a known stage`);
+    return;
+  }
+
+  if (stage.enabled !== undefined && typeof stage.enabled !== 'boolean') {
+    errors.push(`${where}.enabled must be a boolean`);
+  }
+
+  const definition = STAGE_DEFINITIONS[type as PipelineStageType];
+
+  if (type === 'deinterlace') {
+    if (!DEINTERLACE_MODES.includes(stage.mode as DeinterlaceMode)) {
+      errors.push(`${where}.mode must be one of ${DEINTERLACE_MODES.join(', ')}`);
+    }
+    if (!FIELD_ORDERS.includes(stage.fieldOrder as FieldOrder)) {
+      errors.push(`${where}.fieldOrder must be one of ${FIELD_ORDERS.join(', ')}`);
+    }
+    return;
+  }
+
+  if (type === 'lut') {
+    if (typeof stage.lutId !== 'string' || stage.lutId === '') {
+      errors.push(`${where}.lutId must be a non-empty string`);
+    }
+    if (!LUT_INTERPOLATIONS.includes(stage.interpolation as LutInterpolation)) {
+      errors.push(`${where}.interpolation must be one of ${LUT_INTERPOLATIONS.join(', ')}`);
+    }
+    checkNumber(errors, where, stage, 'intensity', definition.params.intensity);
+    return;
+  }
+
+  if (type === 'resample') {
+    if (!RESAMPLE_ALGORITHMS.includes(stage.algorithm as ResampleAlgorithm)) {
+      errors.push(`${where}.algorithm must be one of ${RESAMPLE_ALGORITHMS.join(', ')}`);
+    }
+
+    const hasScale = stage.scale !== undefined;
+    const hasSize = stage.width !== undefined || stage.height !== undefined;
+    if (hasScale === hasSize) {
+      errors.push(`${where} needs either scale or width and height`);
+    } else if (hasScale) {
+      checkNumber(errors, where, stage, 'scale', definition.params.scale);
+    } else {
+      for (const key of ['width', 'height']) {
+        const value = stage[key];
+        if (typeof value !== 'number' || !Number.isInteger(value) || value < 1 || value > MAX_DIMENSION) {
+          errors.push(`${where}.${key} must be an integer between 1 and ${MAX_DIMENSION}`);
+        }
+      }
+    }
+
+    if (stage.lobes !== undefined && stage.lobes !== 2 && stage.lobes !== 3) {
+      errors.push(`${where}.lobes must be 2 or 3`);
+    }
+
+    if (stage.model !== undefined && typeof stage.model !== 'string') {
+      errors.push(`${where}.model must be a string`);
+    }
+    if (stage.matrix !== undefined && !COLOR_MATRICES.includes(stage.matrix as ColorMatrix)) {
+      errors.push(`${where}.matrix must be one of ${COLOR_MATRICES.join(', ')}`);
+    }
+    return;
+  }
+
+  if (stage.matrix !== undefined && !COLOR_MATRICES.includes(stage.matrix as ColorMatrix)) {
+    errors.push(`${where}.matrix must be one of ${COLOR_MATRICES.join(', ')}`);
+  }
+
+  for (const [key, range] of Object.entries(definition.params)) {
+    checkNumber(errors, where, stage, key, range);
+  }
+}
+
+/**
+ * Validate an untrusted value (e.g. parsed preset JSON) against the pipeline schema
+ */
+export function validatePipeline(value: unknown): PipelineValidationResult {
+  const errors: string[] = [];
+
+  if (!isRecord(value)) {
+    return { valid: false, errors: ['Pipeline must be an object'] };
+  }
+
+  if (value.version !== PIPELINE_VERSION) {
+    errors.push(`Unsupported pipeline version: ${String(value.version)}`);
+  }
+
+  if (!Array.isArray(value.stages)) {
+    errors.push('stages must be an array');
+  } else {
+    value.stages.forEach((stage, index) => validateStage(stage, index, errors));
+  }
+
+  return { valid: errors.length === 0, errors };
+}
+
+export function serializePipeline(pipeline: EnhancementPipeline): string {
+  return JSON.stringify(pipeline);
+}
+
+/**
+ * Parse and validate pipeline JSON, throwing with every validation error listed
+ */
+export function parsePipeline(json: string): EnhancementPipeline {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    throw new Error('Pipeline is not valid JSON');
+  }
+
+  const { valid, errors } = validatePipeline(value);
+  if (!valid) {
+    throw new Error(`Invalid enhancement pipeline: ${errors.join('; ')}`);
+  }
+
+  return value as EnhancementPipeline;
+}
+
+export function isStageEnabled(stage: PipelineStage): boolean {
+  return stage.enabled !== false;
+}
+
+/**
+ * Output size of a resample stage for a given source size
+ */
+export function getResampleSize(stage: ResampleStage, width: number, height: number) {
+  if (stage.scale !== undefined) {
+    return {
+      width: Math.max(1, Math.round(width * stage.scale)),
+      height: Math.max(1, Math.round(height * stage.scale))
+    };
+  }
+  return { width: stage.width ?? width, height: stage.height ?? height };
+}
+
+/**
+ * Distance at which the debanding filter samples neighbours; bands are wide, so this grows with strength
+ */
+export function getDebandRange(strength: number): number {
+  return Math.round(4 + 12 * strength);
+}
+
+/**
+ * Pixels a stage reads beyond the one it writes, in its input's coordinate space
+ */
+export function getStageRadius(stage: PipelineStage): number {
+  switch (stage.type) {
+    case 'noise-reduction':
+      return Math.ceil(stage.strength * 3);
+    case 'edge-enhancement':
+    case 'sharpening':
+      return 1;
+    case 'pixel-reconstruction':
+      return 2;
+    case 'detail-reconstruction':
+      return 3;
+    case 'debanding':
+      return getDebandRange(stage.strength);
+    case 'deinterlace':
+      return 2;
+    case 'resample':
+      return stage.algorithm === 'lanczos' ? stage.lobes ?? 3 : 2;
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Stages that convert to YCbCr and so depend on the source's colour matrix
+ */
+export function usesColorMatrix(stage: PipelineStage): stage is StrengthStage | ResampleStage {
+  return (stage.type === 'resample' && stage.algorithm === 'neural') ||
+    stage.type === 'noise-reduction' ||
+    stage.type === 'edge-enhancement' ||
+    stage.type === 'sharpening' ||
+    stage.type === 'pixel-reconstruction';
+}
+
+/**
+ * Fill in the source's matrix on stages that don't name one. After a resample the frame size
+ * no longer says anything about the source, so this is done up front, while the source is known.
+ */
+export function withColorMatrix(pipeline: EnhancementPipeline, matrix: ColorMatrix): EnhancementPipeline {
+  return {
+    ...pipeline,
+    stages: pipeline.stages.map(stage =>
+      usesColorMatrix(stage) && stage.matrix === undefined ? { ...stage, matrix } : stage
+    )
+  };
+}
+
+/**
+ * Stages that cannot be computed tile by tile: a block grid or field parity anchored at the frame origin
+ */
+export function isGlobalStage(stage: PipelineStage): boolean {
+  return stage.type === 'deblocking' || stage.type === 'deinterlace';
+}
+
+/**
+ * Stages that apply whole-frame statistics pixel by pixel: measured once on the frame they
+ * see, they can then run tile by tile
+ */
+export function needsFrameStatistics(stage: PipelineStage): boolean {
+  return stage.type === 'lighting-correction' || stage.type === 'contrast-boost';
+}
+
+/**
+ * Express the legacy UpscalingConfig as a pipeline.
+ * Denoising runs before resampling, where it is both cheaper and more effective.
+ */
+export function createPipelineFromUpscalingConfig(config: UpscalingConfig): EnhancementPipeline {
+  const stages: PipelineStage[] = [];
+  const resize = { width: config.targetWidth, height: config.targetHeight };
+
+  // Fields and block edges must be fixed before anything that would sharpen or resample them
+  if (config.deinterlace) {
+    stages.push({ type: 'deinterlace', mode: config.deinterlace, fieldOrder: config.fieldOrder ?? 'tff' });
+  }
+  if (config.deblocking > 0) {
+    stages.push({ type: 'deblocking', strength: config.deblocking });
+  }
+  if (config.noiseReduction > 0) {
+    stages.push({ type: 'noise-reduction', strength: config.noiseReduction });
+  }
+  if (config.debanding) {
+    stages.push({ type: 'debanding', strength: config.debanding, dither: 0.5 });
+  }
+
+  switch (config.algorithm) {
+    case 'deep-reconstruction':
+      stages.push(
+        { type: 'resample', algorithm: 'bicubic', ...resize },
+        { type: 'pixel-reconstruction', strength: config.detailReconstruction },
+        { type: 'detail-reconstruction', strength: config.detailReconstruction }
+      );
+      break;
+    case 'super-resolution':
+      stages.push(
+        { type: 'resample', algorithm: 'bicubic', ...resize },
+        { type: 'edge-enhancement', strength: config.edgeEnhancement },
+        { type: 'sharpening', strength: config.sharpening }
+      );
+      break;
+    case 'ai-enhance':
+      stages.push(
+        { type: 'resample', algorithm: 'bicubic', ...resize },
+        { type: 'edge-enhancement', strength: config.edgeEnhancement }
+      );
+      break;
+    case 'lanczos':
+      stages.push({ type: 'resample', algorithm: 'lanczos', lobes: config.lanczosLobes ?? 3, ...resize });
+      break;
+    default:
+      stages.push({ type: 'resample', algorithm: 'bicubic', ...resize });
+  }
+
+  if (config.colorEnhancement > 0) {
+    stages.push({ type: 'color-enhancement', strength: config.colorEnhancement });
+  }
+  if (config.lightingCorrection > 0) {
+    stages.push({ type: 'lighting-correction', strength: config.lightingCorrection });
+  }
+  if (config.contrastBoost > 0) {
+    stages.push({ type: 'contrast-boost', strength: config.contrastBoost });
+  }
+  // The look goes last so it grades the corrected picture
+  if (config.lut) {
+    const { id, intensity, interpolation } = config.lut;
+    stages.push({ type: 'lut', lutId: id, intensity, interpolation });
+  }
+
+  return { version: PIPELINE_VERSION, stages };
+}
+
+/**
+ * Express the realtime enhancer settings (AIUpscaler.enhanceImageData) as a pipeline
+ */
+export function createPipelineFromEnhancementConfig(
+  config: Omit<ImageEnhancementConfig, 'pipeline'>
+): EnhancementPipeline {
+  const algorithm: ResampleAlgorithm = config.algorithm === 'neural'
+    ? 'neural'
+    : config.algorithm === 'super-resolution' ? 'canvas' : 'nearest';
+  const debanding = config.debanding ?? 0;
+  const { lut } = config;
+
+  return {
+    version: PIPELINE_VERSION,
+    stages: [
+      {
+        type: 'deinterlace',
+        mode: config.deinterlace ?? 'yadif',
+        fieldOrder: config.fieldOrder ?? 'tff',
+        enabled: config.deinterlace !== undefined
+      },
+      { type: 'noise-reduction', strength: config.noiseReduction, enabled: config.noiseReduction > 0 },
+      { type: 'debanding', strength: debanding, dither: 0.5, enabled: debanding > 0 },
+      {
+        type: 'resample',
+        algorithm,
+        scale: config.scaleFactor
+      },
+      { type: 'sharpening', strength: config.sharpening, enabled: config.sharpening > 0 },
+      { type: 'color-enhancement', strength: config.colorEnhancement, enabled: config.colorEnhancement > 0 },
+      {
+        type: 'brightness-contrast',
+        brightness: config.brightness,
+        contrast: config.contrast,
+        enabled: config.brightness !== 0 || config.contrast !== 0
+      },
+      // The look goes last so it grades the corrected picture
+      ...(lut ? [{ type: 'lut' as const, lutId: lut.id, intensity: lut.intensity, interpolation: lut.interpolation }] : [])
+    ]
+  };
+}
@@ -0,0 +1,188 @@
+/**
+ * Off-main-thread frame enhancement backed by a dedicated Web Worker.
+ * Frames are transferred (never copied) and dropped when the worker falls behind.
+ */
+
+import type { ImageEnhancementConfig } from './aiUpscaler';
+import type { ColorLut } from './colorLut';
+
+export interface EnhancementWorkerRequest {
+  type: 'frame';
+  id: number;
+  frame: ImageBitmap | ArrayBuffer;
+  width: number;
+  height: number;
+  config: ImageEnhancementConfig;
+}
+
+/**
+ * Drop the worker's temporal history, e.g. after a seek
+ */
+export interface EnhancementWorkerResetRequest {
+  type: 'reset';
+}
+
+/**
+ * Make a LUT available to the worker's pipeline; stages only carry its id
+ */
+export interface EnhancementWorkerLutRequest {
+  type: 'lut';
+  lut: ColorLut;
+}
+
+export type EnhancementWorkerMessage =
+  | EnhancementWorkerRequest
+  | EnhancementWorkerResetRequest
+  | EnhancementWorkerLutRequest;
+
+export type EnhancementWorkerResponse =
+  | {
+      id: number;
+      type: 'frame';
+      buffer: ArrayBuffer;
+      width: number;
+      height: number;
+      processingTime: number;
+    }
+  | {
+      id: number;
+      type: 'error';
+      message: string;
+    };
+
+export interface EnhancedFrame {
+  imageData: ImageData;
+  processingTime: number;
+}
+
+export interface EnhancementServiceStats {
+  submitted: number;
+  completed: number;
+  dropped: number;
+}
+
+interface PendingFrame {
+  resolve: (frame: EnhancedFrame) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Enhancement service that runs AIUpscaler filters inside a Web Worker with OffscreenCanvas
+ */
+export class EnhancementWorkerService {
+  private worker: Worker | null = null;
+  private pending = new Map<number, PendingFrame>();
+  private nextId = 0;
+  private stats: EnhancementServiceStats = { submitted: 0, completed: 0, dropped: 0 };
+
+  constructor(private maxInFlight = 1) {}
+
+  /**
+   * Whether this environment can run the enhancement worker
+   */
+  static isSupported(): boolean {
+    return typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined';
+  }
+
+  start() {
+    if (this.worker) return;
+
+    this.worker = new Worker(new URL('../workers/enhancementWorker.ts', import.meta.url), {
+      type: 'module'
+    });
+    this.worker.onmessage = (event: MessageEvent<EnhancementWorkerResponse>) => this.handleResponse(event.data);
+    this.worker.onerror = (event) => {
+      console.error('Enhancement worker error:', event.message);
+      this.rejectAll(new Error(event.message || 'Enhancement worker crashed'));
+    };
+  }
+
+  /**
+   * True when another frame would exceed the in-flight limit and be dropped
+   */
+  get isBusy(): boolean {
+    return this.pending.size >= this.maxInFlight;
+  }
+
+  getStats(): EnhancementServiceStats {
+    return { ...this.stats };
+  }
+
+  /**
+   * Submit a frame for enhancement. Ownership of the frame moves to the service:
+   * ImageBitmaps and ImageData buffers are transferred to the worker, or released when dropped.
+   * Returns null when the frame was dropped because the worker is still busy.
+   */
+  enhance(frame: ImageBitmap | ImageData, config: ImageEnhancementConfig): Promise<EnhancedFrame> | null {
+    if (!this.worker) {
+      this.start();
+    }
+
+    if (this.isBusy) {
+      this.stats.dropped++;
+      if (frame instanceof ImageBitmap) {
+        frame.close();
+      }
+      return null;
+    }
+
+    const id = this.nextId++;
+    this.stats.submitted++;
+
+    const request: EnhancementWorkerRequest = frame instanceof ImageBitmap
+      ? { type: 'frame', id, frame, width: frame.width, height: frame.height, config }
+      : { type: 'frame', id, frame: frame.data.buffer as ArrayBuffer, width: frame.width, height: frame.height, config };
+
+    return new Promise<EnhancedFrame>((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      this.worker!.postMessage(request, [request.frame]);
+    });
+  }
+
+  /**
+   * Forget previous frames used for temporal denoising
+   */
+  resetTemporalHistory() {
+    const request: EnhancementWorkerResetRequest = { type: 'reset' };
+    this.worker?.postMessage(request);
+  }
+
+  /**
+   * Copy a LUT into the worker; needed before frames whose pipeline references it
+   */
+  registerLut(lut: ColorLut) {
+    if (!this.worker) {
+      this.start();
+    }
+    const request: EnhancementWorkerLutRequest = { type: 'lut', lut };
+    this.worker!.postMessage(request);
+  }
+
+  terminate() {
+    this.worker?.terminate();
+    this.worker = null;
+    this.rejectAll(new Error('Enhancement worker terminated'));
+  }
+
+  private handleResponse(response: EnhancementWorkerResponse) {
+    const pending = this.pending.get(response.id);
+    if (!pending) return;
+    this.pending.delete(response.id);
+
+    if (response.type === 'error') {
+      pending.reject(new Error(response.message));
+      return;
+    }
+
+    this.stats.completed++;
+    pending.resolve({
+      imageData: new ImageData(new Uint8ClampedArray(response.buffer), response.width, response.height),
+      processingTime: response.processingTime
+    });
+  }
+
+  private rejectAll(error: Error) {
+    this.pending.forEach(({ reject }) => reject(error));
+    this.pending.clear();
+  }
+}
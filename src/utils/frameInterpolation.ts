@@ -0,0 +1,370 @@
+/**
+ * Motion-compensated frame interpolation for raising 24/25/30fps clips to 50/60fps.
+ * Optical flow is estimated both ways between two frames with coarse-to-fine block matching;
+ * intermediate frames warp both neighbours towards time t and weight each by how consistent
+ * its flow is, so regions uncovered or hidden between the frames come from the side that sees them.
+ */
+
+import { createPixelFrame, type PixelFrame } from './pixelFrame';
+
+export type InterpolationMode = 'motion' | 'blend';
+
+export interface FlowField {
+  /** Flow vectors are stored per block and interpolated per pixel */
+  blockSize: number;
+  columns: number;
+  rows: number;
+  dx: Float32Array;
+  dy: Float32Array;
+}
+
+interface LumaPlane {
+  data: Float32Array;
+  width: number;
+  height: number;
+}
+
+const FLOW_BLOCK_SIZE = 8;
+const PYRAMID_LEVELS = 3;
+const COARSE_SEARCH_RADIUS = 4;
+const REFINE_SEARCH_RADIUS = 1;
+
+function toLuma(frame: PixelFrame): LumaPlane {
+  const { data, width, height } = frame;
+  const luma = new Float32Array(width * height);
+  for (let i = 0, p = 0; i < data.length; i += 4, p++) {
+    luma[p] = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+  }
+  return { data: luma, width, height };
+}
+
+function halve(plane: LumaPlane): LumaPlane {
+  const width = Math.max(1, plane.width >> 1);
+  const height = Math.max(1, plane.height >> 1);
+  const data = new Float32Array(width * height);
+
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.min(plane.height - 1, y * 2);
+    const y1 = Math.min(plane.height - 1, y * 2 + 1);
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.min(plane.width - 1, x * 2);
+      const x1 = Math.min(plane.width - 1, x * 2 + 1);
+      data[y * width + x] = (
+        plane.data[y0 * plane.width + x0] + plane.data[y0 * plane.width + x1] +
+        plane.data[y1 * plane.width + x0] + plane.data[y1 * plane.width + x1]
+      ) / 4;
+    }
+  }
+
+  return { data, width, height };
+}
+
+function blockCost(from: LumaPlane, to: LumaPlane, x0: number, y0: number, size: number, dx: number, dy: number): number {
+  const { width, height } = from;
+  const x1 = Math.min(width, x0 + size);
+  const y1 = Math.min(height, y0 + size);
+  let sad = 0;
+
+  for (let y = y0; y < y1; y++) {
+    const ty = Math.min(height - 1, Math.max(0, y + dy)) * width;
+    for (let x = x0; x < x1; x++) {
+      sad += Math.abs(from.data[y * width + x] - to.data[ty + Math.min(width - 1, Math.max(0, x + dx))]);
+    }
+  }
+
+  return sad / ((x1 - x0) * (y1 - y0));
+}
+
+/**
+ * Flow from one frame to the next: for each block of `from`, where its content sits in `to`
+ */
+export function estimateOpticalFlow(from: PixelFrame, to: PixelFrame): FlowField {
+  const fromPyramid = [toLuma(from)];
+  const toPyramid = [toLuma(to)];
+  for (let level = 1; level < PYRAMID_LEVELS; level++) {
+    fromPyramid.push(halve(fromPyramid[level - 1]));
+    toPyramid.push(halve(toPyramid[level - 1]));
+  }
+
+  let previous: FlowField | null = null;
+
+  for (let level = PYRAMID_LEVELS - 1; level >= 0; level--) {
+    const a = fromPyramid[level];
+    const b = toPyramid[level];
+    const columns = Math.ceil(a.width / FLOW_BLOCK_SIZE);
+    const rows = Math.ceil(a.height / FLOW_BLOCK_SIZE);
+    const dx = new Float32Array(columns * rows);
+    const dy = new Float32Array(columns * rows);
+    const radius = previous ? REFINE_SEARCH_RADIUS : COARSE_SEARCH_RADIUS;
+
+    for (let row = 0; row < rows; row++) {
+      for (let column = 0; column < columns; column++) {
+        const block = row * columns + column;
+
+        // Start from the coarser level's vector, doubled to this level's resolution
+        let startX = 0;
+        let startY = 0;
+        if (previous) {
+          const coarse = Math.min(previous.rows - 1, row >> 1) * previous.columns + Math.min(previous.columns - 1, column >> 1);
+          startX = Math.round(previous.dx[coarse] * 2);
+          startY = Math.round(previous.dy[coarse] * 2);
+        }
+
+        let bestX = startX;
+        let bestY = startY;
+        let best = blockCost(a, b, column * FLOW_BLOCK_SIZE, row * FLOW_BLOCK_SIZE, FLOW_BLOCK_SIZE, startX, startY);
+
+        for (let oy = -radius; oy <= radius; oy++) {
+          for (let ox = -radius; ox <= radius; ox++) {
+            if (ox === 0 && oy === 0) continue;
+            const cost = blockCost(a, b, column * FLOW_BLOCK_SIZE, row * FLOW_BLOCK_SIZE, FLOW_BLOCK_SIZE, startX + ox, startY + oy);
+            // Prefer shorter vectors on ties so flat areas do not drift
+            if (cost < best - 0.01) {
+              best = cost;
+              bestX = startX + ox;
+              bestY = startY + oy;
+            }
+          }
+        }
+
+        dx[block] = bestX;
+        dy[block] = bestY;
+      }
+    }
+
+    previous = { blockSize: FLOW_BLOCK_SIZE, columns, rows, dx, dy };
+  }
+
+  return previous!;
+}
+
+/**
+ * Bilinearly interpolated flow at a pixel position
+ */
+function sampleFlow(flow: FlowField, x: number, y: number): [number, number] {
+  const { blockSize, columns, rows, dx, dy } = flow;
+  const fx = Math.min(columns - 1, Math.max(0, x / blockSize - 0.5));
+  const fy = Math.min(rows - 1, Math.max(0, y / blockSize - 0.5));
+  const c0 = Math.floor(fx);
+  const r0 = Math.floor(fy);
+  const c1 = Math.min(columns - 1, c0 + 1);
+  const r1 = Math.min(rows - 1, r0 + 1);
+  const wx = fx - c0;
+  const wy = fy - r0;
+
+  const i00 = r0 * columns + c0;
+  const i01 = r0 * columns + c1;
+  const i10 = r1 * columns + c0;
+  const i11 = r1 * columns + c1;
+
+  return [
+    (dx[i00] * (1 - wx) + dx[i01] * wx) * (1 - wy) + (dx[i10] * (1 - wx) + dx[i11] * wx) * wy,
+    (dy[i00] * (1 - wx) + dy[i01] * wx) * (1 - wy) + (dy[i10] * (1 - wx) + dy[i11] * wx) * wy
+  ];
+}
+
+/**
+ * Bilinear colour sample, clamped to the frame, written into out[0..2]
+ */
+function sampleColor(frame: PixelFrame, x: number, y: number, out: Float32Array) {
+  const { data, width, height } = frame;
+  const cx = Math.min(width - 1, Math.max(0, x));
+  const cy = Math.min(height - 1, Math.max(0, y));
+  const x0 = Math.floor(cx);
+  const y0 = Math.floor(cy);
+  const x1 = Math.min(width - 1, x0 + 1);
+  const y1 = Math.min(height - 1, y0 + 1);
+  const wx = cx - x0;
+  const wy = cy - y0;
+
+  for (let c = 0; c < 3; c++) {
+    const top = data[(y0 * width + x0) * 4 + c] * (1 - wx) + data[(y0 * width + x1) * 4 + c] * wx;
+    const bottom = data[(y1 * width + x0) * 4 + c] * (1 - wx) + data[(y1 * width + x1) * 4 + c] * wx;
+    out[c] = top * (1 - wy) + bottom * wy;
+  }
+}
+
+/**
+ * Forward-backward consistency at a point of one frame: following the flow there and back
+ * again should land where it started. Large round-trip errors mark occluded pixels.
+ */
+function visibility(x: number, y: number, forward: FlowField, backward: FlowField): number {
+  const [fx, fy] = sampleFlow(forward, x, y);
+  const [bx, by] = sampleFlow(backward, x + fx, y + fy);
+  const errorSquared = (fx + bx) * (fx + bx) + (fy + by) * (fy + by);
+  return 1 / (1 + errorSquared / 4);
+}
+
+/**
+ * Cross-fade two frames; the fallback when motion compensation is too slow or not wanted
+ */
+export function blendFrames(a: PixelFrame, b: PixelFrame, t: number): PixelFrame {
+  const output = createPixelFrame(a.width, a.height);
+  const out = output.data;
+
+  for (let i = 0; i < out.length; i++) {
+    out[i] = a.data[i] + (b.data[i] - a.data[i]) * t;
+  }
+
+  return output;
+}
+
+/**
+ * Synthesize the frame at time t (0 = a, 1 = b) from both neighbours and their flow fields.
+ * Flow from the intermediate frame is approximated from the two-way flow (as in Super SloMo).
+ */
+export function synthesizeFrame(
+  a: PixelFrame,
+  b: PixelFrame,
+  forward: FlowField,
+  backward: FlowField,
+  t: number
+): PixelFrame {
+  const { width, height } = a;
+  const output = createPixelFrame(width, height);
+  const out = output.data;
+  const colorA = new Float32Array(3);
+  const colorB = new Float32Array(3);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const [f01x, f01y] = sampleFlow(forward, x, y);
+      const [f10x, f10y] = sampleFlow(backward, x, y);
+
+      const toAx = -(1 - t) * t * f01x + t * t * f10x;
+      const toAy = -(1 - t) * t * f01y + t * t * f10y;
+      const toBx = (1 - t) * (1 - t) * f01x - t * (1 - t) * f10x;
+      const toBy = (1 - t) * (1 - t) * f01y - t * (1 - t) * f10y;
+
+      const ax = x + toAx;
+      const ay = y + toAy;
+      const bx = x + toBx;
+      const by = y + toBy;
+
+      const weightA = (1 - t) * visibility(ax, ay, forward, backward);
+      const weightB = t * visibility(bx, by, backward, forward);
+      const total = weightA + weightB;
+
+      sampleColor(a, ax, ay, colorA);
+      sampleColor(b, bx, by, colorB);
+
+      const idx = (y * width + x) * 4;
+      for (let c = 0; c < 3; c++) {
+        out[idx + c] = total > 1e-3
+          ? (colorA[c] * weightA + colorB[c] * weightB) / total
+          : colorA[c] * (1 - t) + colorB[c] * t;
+      }
+      out[idx + 3] = 255;
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Holds the two most recent frames and produces frames between them.
+ * In realtime use a synthesis slower than the budget switches this pair to blending.
+ */
+export class FrameInterpolator {
+  private previous: PixelFrame | null = null;
+  private current: PixelFrame | null = null;
+  private flows: { forward: FlowField; backward: FlowField } | null = null;
+  private synthesisTime = 0;
+
+  /** Time one motion-compensated frame may take before falling back to blending; Infinity offline */
+  budgetMs = Infinity;
+
+  constructor(public mode: InterpolationMode = 'motion') {}
+
+  get ready(): boolean {
+    return this.previous !== null && this.current !== null;
+  }
+
+  /**
+   * Whether the last interpolated frame fell back to blending
+   */
+  get usingFallback(): boolean {
+    return this.mode === 'blend' || this.synthesisTime > this.budgetMs;
+  }
+
+  push(frame: PixelFrame) {
+    if (this.current && (this.current.width !== frame.width || this.current.height !== frame.height)) {
+      this.reset();
+    }
+    this.previous = this.current;
+    this.current = frame;
+    this.flows = null;
+  }
+
+  reset() {
+    this.previous = null;
+    this.current = null;
+    this.flows = null;
+    this.synthesisTime = 0;
+  }
+
+  /**
+   * Frame at time t between the two most recent pushes (0 = older, 1 = newer)
+   */
+  interpolate(t: number): PixelFrame | null {
+    const { previous, current } = this;
+    if (!previous || !current) return current;
+    if (t <= 0) return previous;
+    if (t >= 1) return current;
+
+    if (this.usingFallback) {
+      // Re-measure occasionally so a temporary slowdown does not disable motion for good
+      this.synthesisTime *= 0.95;
+      return blendFrames(previous, current, t);
+    }
+
+    const startTime = performance.now();
+    if (!this.flows) {
+      this.flows = {
+        forward: estimateOpticalFlow(previous, current),
+        backward: estimateOpticalFlow(current, previous)
+      };
+    }
+    const frame = synthesizeFrame(previous, current, this.flows.forward, this.flows.backward, t);
+    this.synthesisTime = performance.now() - startTime;
+
+    return frame;
+  }
+}
+
+/**
+ * Resample a frame sequence to a new frame rate for offline export.
+ * Output frame k shows source time k / targetFps, interpolated between its two nearest source frames.
+ */
+export async function* convertFrameRate(
+  frames: AsyncIterable<PixelFrame>,
+  sourceFps: number,
+  targetFps: number,
+  mode: InterpolationMode = 'motion'
+): AsyncGenerator<PixelFrame> {
+  const interpolator = new FrameInterpolator(mode);
+  let sourceIndex = -1;
+  let outputIndex = 0;
+
+  for await (const frame of frames) {
+    interpolator.push(frame);
+    sourceIndex++;
+
+    if (sourceIndex === 0) continue;
+
+    // Emit every output frame whose time falls between the previous source frame and this one
+    while (true) {
+      const position = (outputIndex / targetFps) * sourceFps;
+      if (position > sourceIndex) break;
+
+      yield interpolator.interpolate(position - (sourceIndex - 1))!;
+      outputIndex++;
+    }
+  }
+
+  // The final source frame has no successor to interpolate towards
+  const last = interpolator.interpolate(1);
+  if (last && (outputIndex / targetFps) * sourceFps <= sourceIndex + 0.5) {
+    yield last;
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * Local video files: collecting them from drops and pickers (folders included) and playing them
+ * through object URLs. Object URLs are same-origin, so frames drawn from them never taint a canvas.
+ */
+
+import type { LocalFileInfo, VideoInfo } from './videoUtils';
+
+export interface LocalVideoFile {
+  file: File;
+  info: LocalFileInfo;
+}
+
+// Containers that browsers often report with an empty MIME type
+const VIDEO_EXTENSIONS = ['.mp4', '.m4v', '.webm', '.ogv', '.ogg', '.mov', '.mkv', '.avi', '.3gp'];
+const METADATA_TIMEOUT_MS = 10000;
+
+export function isVideoFile(file: File): boolean {
+  if (file.type.startsWith('video/')) return true;
+  const name = file.name.toLowerCase();
+  return VIDEO_EXTENSIONS.some(extension => name.endsWith(extension));
+}
+
+function describeFile(file: File, path: string): LocalVideoFile {
+  return {
+    file,
+    info: {
+      name: file.name,
+      path,
+      size: file.size,
+      mimeType: file.type,
+      lastModified: file.lastModified
+    }
+  };
+}
+
+function sortByPath(files: LocalVideoFile[]): LocalVideoFile[] {
+  return files.sort((a, b) => a.info.path.localeCompare(b.info.path, undefined, { numeric: true }));
+}
+
+/**
+ * Video files from an <input type="file">, with folder-relative paths when it was a folder picker
+ */
+export function collectVideoFiles(files: FileList | File[]): LocalVideoFile[] {
+  return sortByPath(
+    Array.from(files)
+      .filter(isVideoFile)
+      .map(file => describeFile(file, file.webkitRelativePath || file.name))
+  );
+}
+
+function readFileEntry(entry: FileSystemFileEntry): Promise<File> {
+  return new Promise((resolve, reject) => entry.file(resolve, reject));
+}
+
+// readEntries returns at most ~100 entries per call; keep calling until it comes back empty
+async function readDirectory(entry: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> {
+  const reader = entry.createReader();
+  const entries: FileSystemEntry[] = [];
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) return entries;
+    entries.push(...batch);
+  }
+}
+
+async function collectEntry(entry: FileSystemEntry, files: LocalVideoFile[]): Promise<void> {
+  if (entry.isFile) {
+    const file = await readFileEntry(entry as FileSystemFileEntry);
+    if (isVideoFile(file)) {
+      files.push(describeFile(file, entry.fullPath.replace(/^\//, '')));
+    }
+  } else if (entry.isDirectory) {
+    for (const child of await readDirectory(entry as FileSystemDirectoryEntry)) {
+      await collectEntry(child, files);
+    }
+  }
+}
+
+/**
+ * Video files from a drop, walking into any dropped folders
+ */
+export async function collectDroppedVideoFiles(dataTransfer: DataTransfer): Promise<LocalVideoFile[]> {
+  // Entries must be taken before the first await: the DataTransfer is emptied once the drop handler returns
+  const entries = Array.from(dataTransfer.items)
+    .map(item => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+
+  if (entries.length === 0) {
+    return collectVideoFiles(dataTransfer.files);
+  }
+
+  const files: LocalVideoFile[] = [];
+  for (const entry of entries) {
+    await collectEntry(entry, files);
+  }
+  return sortByPath(files);
+}
+
+/**
+ * Duration and frame size, read by loading just the file's metadata into a detached video element
+ */
+export function readVideoMetadata(file: File): Promise<Pick<LocalFileInfo, 'duration' | 'width' | 'height'>> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const video = document.createElement('video');
+    const finish = () => {
+      clearTimeout(timer);
+      video.removeAttribute('src');
+      video.load();
+      URL.revokeObjectURL(url);
+    };
+    const timer = setTimeout(() => {
+      finish();
+      reject(new Error('Timed out reading video metadata'));
+    }, METADATA_TIMEOUT_MS);
+
+    video.preload = 'metadata';
+    video.muted = true;
+    video.onloadedmetadata = () => {
+      const metadata = {
+        duration: Number.isFinite(video.duration) ? video.duration : undefined,
+        width: video.videoWidth,
+        height: video.videoHeight
+      };
+      finish();
+      resolve(metadata);
+    };
+    video.onerror = () => {
+      finish();
+      reject(new Error('This browser cannot play this file'));
+    };
+    video.src = url;
+  });
+}
+
+/**
+ * A 'local' VideoInfo that plays the file through a new object URL; release it with releaseLocalVideo
+ */
+export function createLocalVideoInfo({ file, info }: LocalVideoFile): VideoInfo {
+  const objectUrl = URL.createObjectURL(file);
+  return {
+    type: 'local',
+    embedUrl: objectUrl,
+    originalUrl: objectUrl,
+    file: info
+  };
+}
+
+export function releaseLocalVideo(videoInfo: VideoInfo | null): void {
+  if (videoInfo?.type === 'local') {
+    URL.revokeObjectURL(videoInfo.originalUrl);
+  }
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes >= 1024 ** 3) return `${(bytes / 1024 ** 3).toFixed(2)} GB`;
+  if (bytes >= 1024 ** 2) return `${(bytes / 1024 ** 2).toFixed(1)} MB`;
+  return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+}
+
+function formatDuration(seconds: number): string {
+  const total = Math.round(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = (total % 60).toString().padStart(2, '0');
+  return hours > 0 ? `${hours}:${minutes.toString().padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+}
+
+/**
+ * One-line summary, e.g. "1920×1080 · 3:25 · 48.2 MB · video/mp4"
+ */
+export function describeLocalFile(info: LocalFileInfo): string {
+  const parts: string[] = [];
+  if (info.width && info.height) parts.push(`${info.width}×${info.height}`);
+  if (info.duration !== undefined) parts.push(formatDuration(info.duration));
+  parts.push(formatFileSize(info.size));
+  parts.push(info.mimeType || info.name.split('.').pop()?.toUpperCase() || 'video');
+  return parts.join(' · ');
+}
@@ -0,0 +1,307 @@
+/**
+ * Adaptive quality governor for realtime enhancement.
+ * Keeps the per-frame processing time inside the budget set by the video's frame rate by
+ * stepping down through cheaper settings when frames run long, and back up once there is
+ * sustained headroom. Step-ups that immediately overrun back off exponentially, so the
+ * governor settles instead of oscillating between two levels.
+ */
+
+import type { ImageEnhancementConfig } from './aiUpscaler';
+import {
+  createPipelineFromEnhancementConfig,
+  getResampleSize,
+  getStageRadius,
+  isStageEnabled,
+  type EnhancementPipeline,
+  type PipelineStage,
+  type ResampleAlgorithm
+} from './enhancementPipeline';
+
+export interface GovernorLevel {
+  name: string;
+  /** Neural resampling is replaced by the canvas resampler (or nearest) at cheaper levels */
+  resample: 'configured' | 'canvas' | 'nearest';
+  /** Fraction of the source resolution the frame is captured and processed at */
+  processingScale: number;
+  /** Motion-compensated temporal denoising is dropped at the cheapest level */
+  temporalDenoise: boolean;
+}
+
+export interface PerformanceGovernorOptions {
+  levels?: GovernorLevel[];
+  /** Share of the frame interval the enhancement may take; the rest is left for drawing */
+  budgetShare?: number;
+  /** Assumed frame rate until one has been measured */
+  defaultFrameRate?: number;
+}
+
+export interface GovernorStatus {
+  level: number;
+  levelCount: number;
+  name: string;
+  budgetMs: number;
+  averageMs: number;
+  frameRate: number;
+}
+
+/**
+ * Every level must be cheaper than the one before it for any config (see estimateLevelCost).
+ * Tiling is not a level: it only bounds memory, and the tiled path is slower than a whole-frame pass.
+ */
+export const DEFAULT_GOVERNOR_LEVELS: GovernorLevel[] = [
+  { name: 'Full quality', resample: 'configured', processingScale: 1, temporalDenoise: true },
+  { name: '75% resolution', resample: 'canvas', processingScale: 0.75, temporalDenoise: true },
+  { name: '50% resolution', resample: 'canvas', processingScale: 0.5, temporalDenoise: true },
+  { name: 'Minimal', resample: 'nearest', processingScale: 0.5, temporalDenoise: false }
+];
+
+// Relative per-pixel cost of each resampler, per output pixel
+const RESAMPLE_COST: Record<ResampleAlgorithm, number> = {
+  nearest: 1,
+  canvas: 4,
+  bicubic: 16,
+  lanczos: 36,
+  neural: 200
+};
+// Block matching against two history frames plus the compensated blend, per source pixel
+const TEMPORAL_DENOISE_COST = 24;
+// Most expensive realtime config; custom levels are checked against it
+const REFERENCE_CONFIG: ImageEnhancementConfig = {
+  algorithm: 'neural',
+  scaleFactor: 2,
+  sharpening: 0.3,
+  noiseReduction: 0.5,
+  colorEnhancement: 0.2,
+  brightness: 0.1,
+  contrast: 0.1,
+  debanding: 0.5,
+  temporalDenoise: 0.4
+};
+const REFERENCE_SIZE = { width: 1280, height: 720 };
+
+// Smoothing of the processing-time average; ~5 frames of memory
+const AVERAGE_WEIGHT = 0.2;
+// Consecutive over-budget frames before stepping down
+const OVERRUN_FRAMES = 3;
+// Under-budget frames needed before the first attempt to step up; doubles after each failed attempt
+const HEADROOM_FRAMES = 60;
+const MAX_HEADROOM_FRAMES = 960;
+// Average below this share of the budget counts as headroom
+const HEADROOM_SHARE = 0.6;
+// A step down within this many frames of a step up means the step up failed
+const FAILED_STEP_UP_FRAMES = 30;
+const FRAME_DELTA_HISTORY = 15;
+
+export class PerformanceGovernor {
+  private readonly levels: GovernorLevel[];
+  private readonly budgetShare: number;
+  private levelIndex = 0;
+  private average: number | null = null;
+  private overruns = 0;
+  private headroom = 0;
+  private headroomNeeded = HEADROOM_FRAMES;
+  private framesSinceStepUp = Infinity;
+  private frameRate: number;
+  private lastMediaTime: number | null = null;
+  private frameDeltas: number[] = [];
+
+  constructor(options: PerformanceGovernorOptions = {}) {
+    this.levels = options.levels ?? DEFAULT_GOVERNOR_LEVELS;
+    assertDecreasingCost(this.levels);
+    this.budgetShare = options.budgetShare ?? 0.8;
+    this.frameRate = options.defaultFrameRate ?? 30;
+  }
+
+  get level(): GovernorLevel {
+    return this.levels[this.levelIndex];
+  }
+
+  get budgetMs(): number {
+    return (1000 / this.frameRate) * this.budgetShare;
+  }
+
+  reset() {
+    this.levelIndex = 0;
+    this.average = null;
+    this.overruns = 0;
+    this.headroom = 0;
+    this.headroomNeeded = HEADROOM_FRAMES;
+    this.framesSinceStepUp = Infinity;
+    this.lastMediaTime = null;
+    this.frameDeltas = [];
+  }
+
+  /**
+   * Learn the frame rate from the media times of distinct video frames; the median
+   * interval ignores frames the loop skipped
+   */
+  recordMediaTime(time: number) {
+    const previous = this.lastMediaTime;
+    this.lastMediaTime = time;
+    if (previous === null || time <= previous) return;
+
+    const delta = time - previous;
+    if (delta > 0.5) return;
+
+    this.frameDeltas.push(delta);
+    if (this.frameDeltas.length > FRAME_DELTA_HISTORY) {
+      this.frameDeltas.shift();
+    }
+
+    const sorted = [...this.frameDeltas].sort((a, b) => a - b);
+    const median = sorted[Math.floor(sorted.length / 2)];
+    // Snap to the nearest common rate so timer jitter doesn't move the budget
+    this.frameRate = Math.max(1, Math.min(120, Math.round(1 / median)));
+  }
+
+  /**
+   * Record how long the last frame took. Returns true when the level changed.
+   */
+  recordFrame(processingTime: number): boolean {
+    this.average = this.average === null
+      ? processingTime
+      : this.average + (processingTime - this.average) * AVERAGE_WEIGHT;
+    this.framesSinceStepUp++;
+
+    const budget = this.budgetMs;
+
+    if (this.average > budget) {
+      this.headroom = 0;
+      if (++this.overruns >= OVERRUN_FRAMES && this.levelIndex < this.levels.length - 1) {
+        if (this.framesSinceStepUp < FAILED_STEP_UP_FRAMES) {
+          this.headroomNeeded = Math.min(MAX_HEADROOM_FRAMES, this.headroomNeeded * 2);
+        }
+        this.changeLevel(this.levelIndex + 1);
+        return true;
+      }
+      return false;
+    }
+
+    this.overruns = 0;
+    if (this.average < budget * HEADROOM_SHARE && this.levelIndex > 0) {
+      if (++this.headroom >= this.headroomNeeded) {
+        this.changeLevel(this.levelIndex - 1);
+        this.framesSinceStepUp = 0;
+        return true;
+      }
+    } else {
+      this.headroom = 0;
+    }
+    return false;
+  }
+
+  getStatus(): GovernorStatus {
+    return {
+      level: this.levelIndex,
+      levelCount: this.levels.length,
+      name: this.level.name,
+      budgetMs: this.budgetMs,
+      averageMs: this.average ?? 0,
+      frameRate: this.frameRate
+    };
+  }
+
+  /**
+   * The config to enhance with at the current level. Processing scale is not part of the
+   * config: the caller captures the source frame at that scale.
+   */
+  applyTo(config: ImageEnhancementConfig): ImageEnhancementConfig {
+    return applyLevel(this.level, config);
+  }
+
+  private changeLevel(index: number) {
+    this.levelIndex = index;
+    // Timings from the previous level say nothing about this one
+    this.average = null;
+    this.overruns = 0;
+    this.headroom = 0;
+  }
+}
+
+function applyLevel(level: GovernorLevel, config: ImageEnhancementConfig): ImageEnhancementConfig {
+  const adjusted: ImageEnhancementConfig = { ...config };
+
+  if (!level.temporalDenoise) {
+    adjusted.temporalDenoise = undefined;
+  }
+  if (level.resample !== 'configured') {
+    adjusted.algorithm = level.resample === 'canvas' ? 'super-resolution' : 'nearest';
+    if (config.pipeline) {
+      adjusted.pipeline = withResampler(config.pipeline, level.resample);
+    }
+  }
+
+  return adjusted;
+}
+
+/**
+ * Relative cost of one stage per pixel of its input: kernel taps for neighbourhood filters
+ */
+function getStageCost(stage: PipelineStage): number {
+  switch (stage.type) {
+    case 'noise-reduction':
+      // Bilateral weights over luma and both chroma planes
+      return 3 * (2 * getStageRadius(stage) + 1) ** 2;
+    case 'debanding':
+      return 5;
+    default:
+      return (2 * getStageRadius(stage) + 1) ** 2;
+  }
+}
+
+/**
+ * Rough cost of enhancing one width × height video frame at a level, in pixel operations.
+ * Only meaningful relative to other levels.
+ */
+export function estimateLevelCost(
+  level: GovernorLevel,
+  config: ImageEnhancementConfig,
+  width: number,
+  height: number
+): number {
+  const adjusted = applyLevel(level, config);
+  const pipeline = adjusted.pipeline ?? createPipelineFromEnhancementConfig(adjusted);
+  let size = {
+    width: Math.max(1, Math.round(width * level.processingScale)),
+    height: Math.max(1, Math.round(height * level.processingScale))
+  };
+  let cost = adjusted.temporalDenoise ? size.width * size.height * TEMPORAL_DENOISE_COST : 0;
+
+  for (const stage of pipeline.stages.filter(isStageEnabled)) {
+    if (stage.type === 'resample') {
+      size = getResampleSize(stage, size.width, size.height);
+      cost += size.width * size.height * RESAMPLE_COST[stage.algorithm];
+    } else {
+      cost += size.width * size.height * getStageCost(stage);
+    }
+  }
+
+  return cost;
+}
+
+/**
+ * Stepping down must always save time; a level that costs as much as the one before it
+ * only delays the step that would actually help
+ */
+function assertDecreasingCost(levels: GovernorLevel[]) {
+  const { width, height } = REFERENCE_SIZE;
+  levels.reduce((previous, level) => {
+    const cost = estimateLevelCost(level, REFERENCE_CONFIG, width, height);
+    if (previous && cost >= previous.cost) {
+      throw new Error(`Governor level "${level.name}" is not cheaper than "${previous.name}"`);
+    }
+    return { name: level.name, cost };
+  }, null as { name: string; cost: number } | null);
+}
+
+function withResampler(pipeline: EnhancementPipeline, resample: 'canvas' | 'nearest'): EnhancementPipeline {
+  return {
+    ...pipeline,
+    stages: pipeline.stages.map(stage => {
+      if (stage.type !== 'resample') return stage;
+      // Only downgrade: a pipeline already using a cheap resampler keeps it
+      if (resample === 'canvas' && stage.algorithm !== 'neural') return stage;
+      return { ...stage, algorithm: resample };
+    })
+  };
+}
@@ -0,0 +1,89 @@
+/**
+ * DOM-free RGBA pixel buffer shared by the enhancement engine.
+ * Structurally compatible with ImageData, so the same filters run in the browser,
+ * inside Web Workers and in plain Node.
+ */
+
+export interface PixelFrame {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+/**
+ * Allocate a transparent black frame
+ */
+export function createPixelFrame(width: number, height: number): PixelFrame {
+  return {
+    data: new Uint8ClampedArray(width * height * 4),
+    width,
+    height
+  };
+}
+
+/**
+ * Copy a frame into a freshly allocated buffer
+ */
+export function clonePixelFrame(frame: PixelFrame): PixelFrame {
+  return {
+    data: new Uint8ClampedArray(frame.data),
+    width: frame.width,
+    height: frame.height
+  };
+}
+
+/**
+ * Copy a rectangular region of a frame into a new frame
+ */
+export function cropPixelFrame(frame: PixelFrame, x: number, y: number, width: number, height: number): PixelFrame {
+  const crop = createPixelFrame(width, height);
+  const rowBytes = width * 4;
+
+  for (let row = 0; row < height; row++) {
+    const start = ((y + row) * frame.width + x) * 4;
+    crop.data.set(frame.data.subarray(start, start + rowBytes), row * rowBytes);
+  }
+
+  return crop;
+}
+
+/**
+ * Wrap ImageData as a frame without copying its pixels
+ */
+export function fromImageData(imageData: ImageData): PixelFrame {
+  return {
+    data: imageData.data,
+    width: imageData.width,
+    height: imageData.height
+  };
+}
+
+/**
+ * Turn a frame into ImageData for putImageData, reusing it when it already is one
+ */
+export function toImageData(frame: PixelFrame): ImageData {
+  if (typeof ImageData !== 'undefined' && frame instanceof ImageData) {
+    return frame;
+  }
+  return new ImageData(frame.data as Uint8ClampedArray<ArrayBuffer>, frame.width, frame.height);
+}
+
+/**
+ * Read the full contents of a canvas as a frame
+ */
+export function readCanvasFrame(canvas: HTMLCanvasElement | OffscreenCanvas): PixelFrame {
+  const ctx = canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+  return fromImageData(ctx.getImageData(0, 0, canvas.width, canvas.height));
+}
+
+/**
+ * Draw a frame onto a canvas, resizing the canvas only when dimensions change
+ */
+export function writeCanvasFrame(canvas: HTMLCanvasElement | OffscreenCanvas, frame: PixelFrame): void {
+  if (canvas.width !== frame.width || canvas.height !== frame.height) {
+    canvas.width = frame.width;
+    canvas.height = frame.height;
+  }
+  const ctx = canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+  ctx.putImageData(toImageData(frame), 0, 0);
+}
@@ -0,0 +1,331 @@
+/**
+ * Full-reference quality metrics (PSNR, SSIM, MS-SSIM) for checking whether enhancement helped.
+ * An enhanced frame larger than its reference is area-downscaled to the reference size first,
+ * so an upscaled result can be compared against the source it came from.
+ * All functions are DOM-free and can be called from scripts as well as the UI.
+ */
+
+import { createPixelFrame, type PixelFrame } from './pixelFrame';
+
+export interface FrameQualityMetrics {
+  /** Peak signal-to-noise ratio over RGB in dB; capped at MAX_PSNR for identical frames */
+  psnr: number;
+  /** Structural similarity of luma, 0-1 */
+  ssim: number;
+  /** Multi-scale structural similarity of luma, 0-1 */
+  msSsim: number;
+  /** Media time of the frame in seconds, when known */
+  timestamp?: number;
+}
+
+export interface ClipQualitySummary {
+  frames: number;
+  meanPsnr: number;
+  minPsnr: number;
+  meanSsim: number;
+  minSsim: number;
+  meanMsSsim: number;
+  /** Frame with the lowest SSIM */
+  worstFrame: FrameQualityMetrics | null;
+}
+
+export const MAX_PSNR = 100;
+
+// Gaussian window from the original SSIM paper
+const SSIM_SIGMA = 1.5;
+const SSIM_RADIUS = 5;
+const SSIM_C1 = (0.01 * 255) ** 2;
+const SSIM_C2 = (0.03 * 255) ** 2;
+
+// Per-scale exponents from Wang et al., "Multi-scale structural similarity"
+const MS_SSIM_WEIGHTS = [0.0448, 0.2856, 0.3001, 0.2363, 0.1333];
+const MIN_SCALE_SIZE = SSIM_RADIUS * 2 + 1;
+
+interface Plane {
+  data: Float32Array;
+  width: number;
+  height: number;
+}
+
+const GAUSSIAN_KERNEL = (() => {
+  const kernel = new Float32Array(SSIM_RADIUS * 2 + 1);
+  let sum = 0;
+  for (let i = -SSIM_RADIUS; i <= SSIM_RADIUS; i++) {
+    kernel[i + SSIM_RADIUS] = Math.exp(-(i * i) / (2 * SSIM_SIGMA * SSIM_SIGMA));
+    sum += kernel[i + SSIM_RADIUS];
+  }
+  return kernel.map(weight => weight / sum);
+})();
+
+/**
+ * Area-average downscale, exact for any ratio; used to bring an enhanced frame to reference size
+ */
+export function downscaleFrame(frame: PixelFrame, width: number, height: number): PixelFrame {
+  if (frame.width === width && frame.height === height) return frame;
+
+  const { data, width: srcWidth, height: srcHeight } = frame;
+  const output = createPixelFrame(width, height);
+  const scaleX = srcWidth / width;
+  const scaleY = srcHeight / height;
+
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.floor(y * scaleY);
+    const y1 = Math.max(y0 + 1, Math.min(srcHeight, Math.floor((y + 1) * scaleY)));
+
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.floor(x * scaleX);
+      const x1 = Math.max(x0 + 1, Math.min(srcWidth, Math.floor((x + 1) * scaleX)));
+      const sums = [0, 0, 0, 0];
+
+      for (let sy = y0; sy < y1; sy++) {
+        for (let sx = x0; sx < x1; sx++) {
+          const idx = (sy * srcWidth + sx) * 4;
+          sums[0] += data[idx];
+          sums[1] += data[idx + 1];
+          sums[2] += data[idx + 2];
+          sums[3] += data[idx + 3];
+        }
+      }
+
+      const count = (x1 - x0) * (y1 - y0);
+      const dstIdx = (y * width + x) * 4;
+      for (let c = 0; c < 4; c++) {
+        output.data[dstIdx + c] = Math.round(sums[c] / count);
+      }
+    }
+  }
+
+  return output;
+}
+
+function toLumaPlane(frame: PixelFrame): Plane {
+  const { data, width, height } = frame;
+  const luma = new Float32Array(width * height);
+  for (let i = 0, p = 0; i < data.length; i += 4, p++) {
+    luma[p] = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+  }
+  return { data: luma, width, height };
+}
+
+function halvePlane(plane: Plane): Plane {
+  const width = plane.width >> 1;
+  const height = plane.height >> 1;
+  const data = new Float32Array(width * height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * 2 * plane.width + x * 2;
+      data[y * width + x] = (plane.data[i] + plane.data[i + 1] + plane.data[i + plane.width] + plane.data[i + plane.width + 1]) / 4;
+    }
+  }
+
+  return { data, width, height };
+}
+
+/**
+ * Separable Gaussian blur with edge clamping
+ */
+function gaussianBlur(values: Float32Array, width: number, height: number): Float32Array {
+  const temp = new Float32Array(values.length);
+  const output = new Float32Array(values.length);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      for (let k = -SSIM_RADIUS; k <= SSIM_RADIUS; k++) {
+        const sx = Math.min(width - 1, Math.max(0, x + k));
+        sum += values[y * width + sx] * GAUSSIAN_KERNEL[k + SSIM_RADIUS];
+      }
+      temp[y * width + x] = sum;
+    }
+  }
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      for (let k = -SSIM_RADIUS; k <= SSIM_RADIUS; k++) {
+        const sy = Math.min(height - 1, Math.max(0, y + k));
+        sum += temp[sy * width + x] * GAUSSIAN_KERNEL[k + SSIM_RADIUS];
+      }
+      output[y * width + x] = sum;
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Mean SSIM and its contrast-structure term (the part MS-SSIM uses at coarse scales)
+ */
+function ssimComponents(a: Plane, b: Plane): { ssim: number; contrastStructure: number } {
+  const { width, height } = a;
+  const n = width * height;
+  const aa = new Float32Array(n);
+  const bb = new Float32Array(n);
+  const ab = new Float32Array(n);
+  for (let i = 0; i < n; i++) {
+    aa[i] = a.data[i] * a.data[i];
+    bb[i] = b.data[i] * b.data[i];
+    ab[i] = a.data[i] * b.data[i];
+  }
+
+  const muA = gaussianBlur(a.data, width, height);
+  const muB = gaussianBlur(b.data, width, height);
+  const sigmaAA = gaussianBlur(aa, width, height);
+  const sigmaBB = gaussianBlur(bb, width, height);
+  const sigmaAB = gaussianBlur(ab, width, height);
+
+  let ssimSum = 0;
+  let csSum = 0;
+
+  for (let i = 0; i < n; i++) {
+    const varA = sigmaAA[i] - muA[i] * muA[i];
+    const varB = sigmaBB[i] - muB[i] * muB[i];
+    const cov = sigmaAB[i] - muA[i] * muB[i];
+
+    const contrastStructure = (2 * cov + SSIM_C2) / (varA + varB + SSIM_C2);
+    const luminance = (2 * muA[i] * muB[i] + SSIM_C1) / (muA[i] * muA[i] + muB[i] * muB[i] + SSIM_C1);
+
+    ssimSum += luminance * contrastStructure;
+    csSum += contrastStructure;
+  }
+
+  return { ssim: ssimSum / n, contrastStructure: csSum / n };
+}
+
+function matchReference(reference: PixelFrame, test: PixelFrame): PixelFrame {
+  if (test.width < reference.width || test.height < reference.height) {
+    throw new Error(
+      `Test frame ${test.width}×${test.height} is smaller than reference ${reference.width}×${reference.height}`
+    );
+  }
+  return downscaleFrame(test, reference.width, reference.height);
+}
+
+export function computePSNR(reference: PixelFrame, test: PixelFrame): number {
+  const matched = matchReference(reference, test);
+  let squaredError = 0;
+
+  for (let i = 0; i < reference.data.length; i += 4) {
+    for (let c = 0; c < 3; c++) {
+      const diff = reference.data[i + c] - matched.data[i + c];
+      squaredError += diff * diff;
+    }
+  }
+
+  const mse = squaredError / (reference.width * reference.height * 3);
+  return mse === 0 ? MAX_PSNR : Math.min(MAX_PSNR, 10 * Math.log10((255 * 255) / mse));
+}
+
+export function computeSSIM(reference: PixelFrame, test: PixelFrame): number {
+  return ssimComponents(toLumaPlane(reference), toLumaPlane(matchReference(reference, test))).ssim;
+}
+
+function multiScaleComponents(reference: PixelFrame, test: PixelFrame): { ssim: number; contrastStructure: number }[] {
+  let a = toLumaPlane(reference);
+  let b = toLumaPlane(test);
+
+  const scales: { ssim: number; contrastStructure: number }[] = [];
+  for (let level = 0; level < MS_SSIM_WEIGHTS.length; level++) {
+    if (a.width < MIN_SCALE_SIZE || a.height < MIN_SCALE_SIZE) break;
+    scales.push(ssimComponents(a, b));
+    a = halvePlane(a);
+    b = halvePlane(b);
+  }
+  return scales;
+}
+
+function combineScales(scales: { ssim: number; contrastStructure: number }[]): number {
+  if (scales.length === 0) return 1;
+
+  const weights = MS_SSIM_WEIGHTS.slice(0, scales.length);
+  const weightSum = weights.reduce((sum, weight) => sum + weight, 0);
+
+  // Contrast-structure at every scale, full SSIM (with luminance) only at the coarsest
+  return scales.reduce((product, scale, index) => {
+    const value = index === scales.length - 1 ? scale.ssim : scale.contrastStructure;
+    return product * Math.pow(Math.max(value, 0), weights[index] / weightSum);
+  }, 1);
+}
+
+/**
+ * MS-SSIM over up to five dyadic scales; small frames use as many scales as fit,
+ * with the remaining weights renormalized
+ */
+export function computeMSSSIM(reference: PixelFrame, test: PixelFrame): number {
+  return combineScales(multiScaleComponents(reference, matchReference(reference, test)));
+}
+
+/**
+ * All metrics for one frame pair; SSIM is the finest MS-SSIM scale, so it is computed once
+ */
+export function compareFrames(reference: PixelFrame, test: PixelFrame, timestamp?: number): FrameQualityMetrics {
+  const matched = matchReference(reference, test);
+  const scales = multiScaleComponents(reference, matched);
+  return {
+    psnr: computePSNR(reference, matched),
+    ssim: scales[0]?.ssim ?? computeSSIM(reference, matched),
+    msSsim: combineScales(scales),
+    timestamp
+  };
+}
+
+/**
+ * Collects per-frame metrics and summarizes them for a clip
+ */
+export class QualityMetricsAccumulator {
+  private frames: FrameQualityMetrics[] = [];
+
+  add(metrics: FrameQualityMetrics) {
+    this.frames.push(metrics);
+  }
+
+  reset() {
+    this.frames = [];
+  }
+
+  getFrames(): FrameQualityMetrics[] {
+    return [...this.frames];
+  }
+
+  getSummary(): ClipQualitySummary {
+    const { frames } = this;
+    if (frames.length === 0) {
+      return { frames: 0, meanPsnr: 0, minPsnr: 0, meanSsim: 0, minSsim: 0, meanMsSsim: 0, worstFrame: null };
+    }
+
+    const mean = (key: 'psnr' | 'ssim' | 'msSsim') => frames.reduce((sum, frame) => sum + frame[key], 0) / frames.length;
+    const worstFrame = frames.reduce((worst, frame) => (frame.ssim < worst.ssim ? frame : worst));
+    // Reduced rather than spread into Math.min, which runs out of stack on long clips
+    const minPsnr = frames.reduce((min, frame) => Math.min(min, frame.psnr), Infinity);
+
+    return {
+      frames: frames.length,
+      meanPsnr: mean('psnr'),
+      minPsnr,
+      meanSsim: mean('ssim'),
+      minSsim: worstFrame.ssim,
+      meanMsSsim: mean('msSsim'),
+      worstFrame
+    };
+  }
+}
+
+/**
+ * Score a whole clip from (reference, test) frame pairs, e.g. source frames and their
+ * enhanced versions, or two decoded videos
+ */
+export async function evaluateClip(
+  pairs: Iterable<[PixelFrame, PixelFrame]> | AsyncIterable<[PixelFrame, PixelFrame]>,
+  frameRate?: number
+): Promise<{ frames: FrameQualityMetrics[]; summary: ClipQualitySummary }> {
+  const accumulator = new QualityMetricsAccumulator();
+  let index = 0;
+
+  for await (const [reference, test] of pairs) {
+    accumulator.add(compareFrames(reference, test, frameRate ? index / frameRate : undefined));
+    index++;
+  }
+
+  return { frames: accumulator.getFrames(), summary: accumulator.getSummary() };
+}
@@ -0,0 +1,175 @@
+/**
+ * Aspect-aware target resolutions.
+ * Presets come in families (16:9, 9:16, 1:1, 4:3, 3:4); a source is matched to the family
+ * nearest its own aspect ratio, so vertical and square uploads get vertical and square targets.
+ * When source and target shapes differ, a fit policy decides how the picture is placed.
+ */
+
+export type AspectFamily = '16:9' | '9:16' | '1:1' | '4:3' | '3:4';
+
+export type Orientation = 'landscape' | 'portrait' | 'square';
+
+/**
+ * fit: scale the whole picture inside the target, output takes the picture's shape;
+ * fill: scale to cover the target and crop the overflow;
+ * pad: fit, then add black bars out to the exact target size
+ */
+export type FitPolicy = 'fit' | 'fill' | 'pad';
+
+export interface ResolutionPreset {
+  name: string;
+  width: number;
+  height: number;
+  family: AspectFamily;
+  description: string;
+}
+
+export const ASPECT_FAMILIES: { family: AspectFamily; label: string; ratio: number }[] = [
+  { family: '16:9', label: 'Landscape 16:9', ratio: 16 / 9 },
+  { family: '9:16', label: 'Portrait 9:16', ratio: 9 / 16 },
+  { family: '1:1', label: 'Square 1:1', ratio: 1 },
+  { family: '4:3', label: 'Classic 4:3', ratio: 4 / 3 },
+  { family: '3:4', label: 'Portrait 3:4', ratio: 3 / 4 }
+];
+
+export const RESOLUTION_PRESETS: ResolutionPreset[] = [
+  { name: '720p HD', width: 1280, height: 720, family: '16:9', description: 'High Definition' },
+  { name: '1080p FHD', width: 1920, height: 1080, family: '16:9', description: 'Full HD' },
+  { name: '1440p QHD', width: 2560, height: 1440, family: '16:9', description: 'Quad HD' },
+  { name: '4K UHD', width: 3840, height: 2160, family: '16:9', description: 'Ultra HD' },
+  { name: '5K', width: 5120, height: 2880, family: '16:9', description: '5K' },
+  { name: '8K', width: 7680, height: 4320, family: '16:9', description: '8K Ultra HD' },
+
+  { name: '720p Vertical', width: 720, height: 1280, family: '9:16', description: 'Stories' },
+  { name: '1080p Vertical', width: 1080, height: 1920, family: '9:16', description: 'Shorts / Reels' },
+  { name: '1440p Vertical', width: 1440, height: 2560, family: '9:16', description: 'Quad HD vertical' },
+  { name: '4K Vertical', width: 2160, height: 3840, family: '9:16', description: 'Ultra HD vertical' },
+
+  { name: '1080 Square', width: 1080, height: 1080, family: '1:1', description: 'Feed post' },
+  { name: '1440 Square', width: 1440, height: 1440, family: '1:1', description: 'High-res square' },
+  { name: '2160 Square', width: 2160, height: 2160, family: '1:1', description: '4K square' },
+
+  { name: '960×720', width: 960, height: 720, family: '4:3', description: 'HD 4:3' },
+  { name: '1440×1080', width: 1440, height: 1080, family: '4:3', description: 'Full HD 4:3' },
+  { name: '1920×1440', width: 1920, height: 1440, family: '4:3', description: 'QHD 4:3' },
+  { name: '2880×2160', width: 2880, height: 2160, family: '4:3', description: '4K 4:3' },
+
+  { name: '1080×1440', width: 1080, height: 1440, family: '3:4', description: 'Full HD portrait 4:3' },
+  { name: '2160×2880', width: 2160, height: 2880, family: '3:4', description: '4K portrait 4:3' }
+];
+
+// Aspect ratios within this relative distance of 1 count as square
+const SQUARE_TOLERANCE = 0.05;
+
+const even = (value: number) => Math.max(2, Math.round(value / 2) * 2);
+
+export function getOrientation(width: number, height: number): Orientation {
+  const ratio = width / height;
+  if (Math.abs(Math.log(ratio)) <= Math.log(1 + SQUARE_TOLERANCE)) return 'square';
+  return ratio > 1 ? 'landscape' : 'portrait';
+}
+
+/**
+ * The preset family closest to a frame's shape, compared on a log scale so 9:16 and 16:9
+ * are equally far from square
+ */
+export function getAspectFamily(width: number, height: number): AspectFamily {
+  const logRatio = Math.log(width / height);
+  return ASPECT_FAMILIES.reduce((best, candidate) =>
+    Math.abs(Math.log(candidate.ratio) - logRatio) < Math.abs(Math.log(best.ratio) - logRatio) ? candidate : best
+  ).family;
+}
+
+export function getPresetsForFamily(family: AspectFamily): ResolutionPreset[] {
+  return RESOLUTION_PRESETS.filter(preset => preset.family === family);
+}
+
+/**
+ * Presets in the source's own family, oriented the same way as the source
+ */
+export function getPresetsForSource(width: number, height: number): ResolutionPreset[] {
+  return getPresetsForFamily(getAspectFamily(width, height));
+}
+
+/**
+ * Target for a scale factor: the family's preset whose long edge is closest to the scaled long
+ * edge, or, when none is within 10%, the scaled long edge in the family's shape. The family
+ * defaults to the source's own, which makes the fallback the exact scaled size.
+ */
+export function getTargetForScale(
+  width: number,
+  height: number,
+  scale: number,
+  family = getAspectFamily(width, height)
+): { width: number; height: number } {
+  const longEdge = Math.max(width, height) * scale;
+  const preset = getPresetsForFamily(family).find(candidate =>
+    Math.abs(Math.max(candidate.width, candidate.height) - longEdge) / longEdge <= 0.1
+  );
+  if (preset) {
+    return { width: preset.width, height: preset.height };
+  }
+  if (family === getAspectFamily(width, height)) {
+    return { width: Math.round(width * scale), height: Math.round(height * scale) };
+  }
+
+  const { ratio } = ASPECT_FAMILIES.find(candidate => candidate.family === family)!;
+  return ratio >= 1
+    ? { width: even(longEdge), height: even(longEdge / ratio) }
+    : { width: even(longEdge * ratio), height: even(longEdge) };
+}
+
+export interface TargetPlacement {
+  /** Region of the source to use, in source pixels */
+  sourceRect: { x: number; y: number; width: number; height: number };
+  /** Size the picture is resampled to */
+  width: number;
+  height: number;
+  /** Final frame size after padding; equals width/height unless the policy is pad */
+  outputWidth: number;
+  outputHeight: number;
+}
+
+/**
+ * Where a source of the given size lands in a target under a fit policy
+ */
+export function placeInTarget(
+  sourceWidth: number,
+  sourceHeight: number,
+  targetWidth: number,
+  targetHeight: number,
+  policy: FitPolicy
+): TargetPlacement {
+  const fullSource = { x: 0, y: 0, width: sourceWidth, height: sourceHeight };
+
+  if (policy === 'fill') {
+    // Crop the source to the target's shape around its centre
+    const scale = Math.max(targetWidth / sourceWidth, targetHeight / sourceHeight);
+    const cropWidth = Math.min(sourceWidth, Math.round(targetWidth / scale));
+    const cropHeight = Math.min(sourceHeight, Math.round(targetHeight / scale));
+    return {
+      sourceRect: {
+        x: Math.floor((sourceWidth - cropWidth) / 2),
+        y: Math.floor((sourceHeight - cropHeight) / 2),
+        width: cropWidth,
+        height: cropHeight
+      },
+      width: targetWidth,
+      height: targetHeight,
+      outputWidth: targetWidth,
+      outputHeight: targetHeight
+    };
+  }
+
+  const scale = Math.min(targetWidth / sourceWidth, targetHeight / sourceHeight);
+  const width = Math.min(targetWidth, even(sourceWidth * scale));
+  const height = Math.min(targetHeight, even(sourceHeight * scale));
+
+  return {
+    sourceRect: fullSource,
+    width,
+    height,
+    outputWidth: policy === 'pad' ? targetWidth : width,
+    outputHeight: policy === 'pad' ? targetHeight : height
+  };
+}
@@ -0,0 +1,288 @@
+/**
+ * Scene-cut detection and per-scene auto configuration.
+ * Consecutive frames are compared on a small luma thumbnail by histogram distance and mean
+ * absolute difference (SAD). A cut needs both to jump: camera motion changes the SAD but keeps
+ * the histogram, while a gradual exposure change shifts the histogram with little SAD.
+ */
+
+import { analyzeVideoQuality, generateUpscalingConfig, type UpscalingConfig, type VideoMetrics } from './aiUpscaler';
+import { cropToContent } from './blackBars';
+import type { PixelFrame } from './pixelFrame';
+
+export interface SceneDetectorOptions {
+  /** Histogram distance (0-1, half the L1 distance of normalized histograms) required for a cut */
+  histogramThreshold?: number;
+  /** Mean absolute thumbnail difference (0-1) required for a cut */
+  sadThreshold?: number;
+}
+
+export interface SceneChange {
+  isCut: boolean;
+  histogramDistance: number;
+  sad: number;
+}
+
+export interface SceneInfo {
+  /** Media time in seconds of the scene's first and last seen frames */
+  start: number;
+  end: number;
+  metrics: VideoMetrics;
+  /** False when the scene was entered by seeking or at the start of playback rather than at a detected cut */
+  detectedCut: boolean;
+}
+
+/**
+ * What a scene's config takes from outside the analysis: the target size and the user's choices
+ */
+export type SceneBaseConfig = Pick<UpscalingConfig, 'targetWidth' | 'targetHeight'> &
+  Partial<Pick<UpscalingConfig, 'fieldOrder' | 'pipeline' | 'memoryLimitMB' | 'crop' | 'fitPolicy' | 'colorMatrix'>>;
+
+export interface SceneAdaptiveOptions extends SceneDetectorOptions {
+  /** Media seconds over which the config blends from the previous scene to the new one */
+  transitionSeconds?: number;
+  /** Cuts closer together than this (flashes, strobing) are ignored */
+  minSceneSeconds?: number;
+}
+
+const THUMBNAIL_WIDTH = 64;
+const THUMBNAIL_HEIGHT = 36;
+const HISTOGRAM_BINS = 32;
+// A jump in media time larger than this is a seek, not playback
+const MAX_FRAME_GAP = 1;
+
+// Strengths that blend across a transition; everything else switches at the cut
+const BLENDED_FIELDS = [
+  'sharpening',
+  'noiseReduction',
+  'edgeEnhancement',
+  'colorEnhancement',
+  'lightingCorrection',
+  'contrastBoost',
+  'detailReconstruction',
+  'deblocking',
+  'debanding'
+] as const;
+
+/**
+ * Area-average luma thumbnail; small enough that comparing frames costs next to nothing
+ */
+function lumaThumbnail(frame: PixelFrame): Float32Array {
+  const { data, width, height } = frame;
+  const thumbnail = new Float32Array(THUMBNAIL_WIDTH * THUMBNAIL_HEIGHT);
+  const counts = new Uint32Array(thumbnail.length);
+
+  // Every second pixel in each direction is plenty for a 64×36 summary
+  for (let y = 0; y < height; y += 2) {
+    const row = Math.min(THUMBNAIL_HEIGHT - 1, Math.floor(y * THUMBNAIL_HEIGHT / height)) * THUMBNAIL_WIDTH;
+    for (let x = 0; x < width; x += 2) {
+      const cell = row + Math.min(THUMBNAIL_WIDTH - 1, Math.floor(x * THUMBNAIL_WIDTH / width));
+      const idx = (y * width + x) * 4;
+      thumbnail[cell] += 0.299 * data[idx] + 0.587 * data[idx + 1] + 0.114 * data[idx + 2];
+      counts[cell]++;
+    }
+  }
+
+  for (let i = 0; i < thumbnail.length; i++) {
+    thumbnail[i] /= Math.max(counts[i], 1);
+  }
+  return thumbnail;
+}
+
+function lumaHistogram(thumbnail: Float32Array): Float32Array {
+  const histogram = new Float32Array(HISTOGRAM_BINS);
+  for (const value of thumbnail) {
+    histogram[Math.min(HISTOGRAM_BINS - 1, Math.floor(value * HISTOGRAM_BINS / 256))] += 1 / thumbnail.length;
+  }
+  return histogram;
+}
+
+export class SceneDetector {
+  private previousThumbnail: Float32Array | null = null;
+  private previousHistogram: Float32Array | null = null;
+  private readonly histogramThreshold: number;
+  private readonly sadThreshold: number;
+
+  constructor(options: SceneDetectorOptions = {}) {
+    this.histogramThreshold = options.histogramThreshold ?? 0.3;
+    this.sadThreshold = options.sadThreshold ?? 0.12;
+  }
+
+  reset() {
+    this.previousThumbnail = null;
+    this.previousHistogram = null;
+  }
+
+  /**
+   * Compare a frame with the previous one. The first frame after construction or reset is a cut.
+   */
+  detect(frame: PixelFrame): SceneChange {
+    const thumbnail = lumaThumbnail(frame);
+    const histogram = lumaHistogram(thumbnail);
+    const previousThumbnail = this.previousThumbnail;
+    const previousHistogram = this.previousHistogram;
+    this.previousThumbnail = thumbnail;
+    this.previousHistogram = histogram;
+
+    if (!previousThumbnail || !previousHistogram) {
+      return { isCut: true, histogramDistance: 1, sad: 1 };
+    }
+
+    let histogramDistance = 0;
+    for (let i = 0; i < HISTOGRAM_BINS; i++) {
+      histogramDistance += Math.abs(histogram[i] - previousHistogram[i]);
+    }
+    histogramDistance /= 2;
+
+    let sad = 0;
+    for (let i = 0; i < thumbnail.length; i++) {
+      sad += Math.abs(thumbnail[i] - previousThumbnail[i]);
+    }
+    sad /= thumbnail.length * 255;
+
+    return {
+      isCut: histogramDistance > this.histogramThreshold && sad > this.sadThreshold,
+      histogramDistance,
+      sad
+    };
+  }
+}
+
+/**
+ * Blend two configs: strengths interpolate, discrete choices (algorithm, deinterlacer,
+ * pipeline) take the target's value
+ */
+export function interpolateUpscalingConfig(from: UpscalingConfig, to: UpscalingConfig, t: number): UpscalingConfig {
+  const amount = Math.max(0, Math.min(1, t));
+  const blended: UpscalingConfig = { ...to };
+
+  for (const field of BLENDED_FIELDS) {
+    const start = from[field] ?? 0;
+    const end = to[field] ?? 0;
+    blended[field] = start + (end - start) * amount;
+  }
+
+  return blended;
+}
+
+/**
+ * Tracks scenes during playback and produces the config for each frame: analysis is re-run
+ * on every cut and the config eases over to the new scene's settings
+ */
+export class SceneAdaptiveConfig {
+  private readonly detector: SceneDetector;
+  private readonly transitionSeconds: number;
+  private readonly minSceneSeconds: number;
+  private scenes: SceneInfo[] = [];
+  private currentScene: SceneInfo | null = null;
+  private lastTime: number | null = null;
+  private transition: { from: UpscalingConfig; start: number } | null = null;
+  private sceneConfig: UpscalingConfig | null = null;
+  private output: UpscalingConfig | null = null;
+
+  constructor(private baseConfig: SceneBaseConfig, options: SceneAdaptiveOptions = {}) {
+    this.detector = new SceneDetector(options);
+    this.transitionSeconds = options.transitionSeconds ?? 0.5;
+    this.minSceneSeconds = options.minSceneSeconds ?? 0.5;
+  }
+
+  /**
+   * Change the target resolution or user overrides; the current scene keeps its analysis
+   */
+  setBaseConfig(config: SceneBaseConfig) {
+    this.baseConfig = config;
+    if (this.currentScene) {
+      this.sceneConfig = this.configForScene(this.currentScene);
+      this.output = this.sceneConfig;
+      this.transition = null;
+    }
+  }
+
+  reset() {
+    this.detector.reset();
+    this.scenes = [];
+    this.currentScene = null;
+    this.lastTime = null;
+    this.transition = null;
+    this.sceneConfig = null;
+    this.output = null;
+  }
+
+  getScenes(): SceneInfo[] {
+    return [...this.scenes].sort((a, b) => a.start - b.start);
+  }
+
+  /**
+   * Feed the next source frame at its media time and get the config to enhance it with
+   */
+  update(frame: PixelFrame, time: number): UpscalingConfig {
+    const seeked = this.lastTime !== null && (time < this.lastTime || time - this.lastTime > MAX_FRAME_GAP);
+    this.lastTime = time;
+
+    if (seeked) {
+      this.detector.reset();
+    }
+    const change = this.detector.detect(frame);
+
+    if (!this.currentScene || seeked) {
+      // Revisit a scene seen before rather than analysing it again
+      const known = this.scenes.find(scene => time >= scene.start && time <= scene.end + MAX_FRAME_GAP);
+      this.enterScene(known ?? this.addScene(frame, time, false), time, false);
+    } else if (change.isCut && time - this.currentScene.start >= this.minSceneSeconds) {
+      this.enterScene(this.addScene(frame, time, true), time, true);
+    } else {
+      this.currentScene.end = Math.max(this.currentScene.end, time);
+    }
+
+    return this.blend(time);
+  }
+
+  private addScene(frame: PixelFrame, time: number, detectedCut: boolean): SceneInfo {
+    // Bars would drag the brightness and contrast statistics towards black
+    const { crop } = this.baseConfig;
+    const metrics = analyzeVideoQuality(crop ? cropToContent(frame, crop) : frame);
+    const scene: SceneInfo = { start: time, end: time, metrics, detectedCut };
+    this.scenes.push(scene);
+    return scene;
+  }
+
+  private enterScene(scene: SceneInfo, time: number, smooth: boolean) {
+    this.currentScene = scene;
+    this.transition = smooth && this.output ? { from: this.output, start: time } : null;
+    this.sceneConfig = this.configForScene(scene);
+  }
+
+  private blend(time: number): UpscalingConfig {
+    const target = this.sceneConfig!;
+
+    if (this.transition) {
+      const t = (time - this.transition.start) / this.transitionSeconds;
+      if (t < 1) {
+        this.output = interpolateUpscalingConfig(this.transition.from, target, t);
+        return this.output;
+      }
+      this.transition = null;
+    }
+
+    this.output = target;
+    return target;
+  }
+
+  private configForScene(scene: SceneInfo): UpscalingConfig {
+    const { baseConfig } = this;
+    const config = generateUpscalingConfig(scene.metrics, {
+      width: baseConfig.targetWidth,
+      height: baseConfig.targetHeight
+    });
+
+    // Settings the user chose rather than ones derived from the picture
+    if (config.deinterlace) {
+      config.fieldOrder = baseConfig.fieldOrder;
+    }
+    config.pipeline = baseConfig.pipeline;
+    config.memoryLimitMB = baseConfig.memoryLimitMB;
+    config.crop = baseConfig.crop;
+    config.fitPolicy = baseConfig.fitPolicy;
+    config.colorMatrix = baseConfig.colorMatrix;
+    return config;
+  }
+}
@@ -0,0 +1,180 @@
+/**
+ * Worker pool that runs convolution-style filters on overlapping horizontal stripes.
+ * Each stripe carries halo rows sized to the filter radius so the stitched result
+ * is identical to a single full-frame pass.
+ */
+
+import { getStripeFilterRadius, type StripeFilter } from './aiUpscaler';
+import type { PixelFrame } from './pixelFrame';
+import { chooseColorMatrix, type ColorMatrix } from './colorSpace';
+
+export interface StripeWorkerRequest {
+  id: number;
+  buffer: ArrayBuffer;
+  width: number;
+  height: number;
+  filter: StripeFilter;
+  strength: number;
+  matrix: ColorMatrix;
+}
+
+export type StripeWorkerResponse =
+  | { id: number; type: 'stripe'; buffer: ArrayBuffer }
+  | { id: number; type: 'error'; message: string };
+
+export interface Stripe {
+  /** First row owned by this stripe */
+  start: number;
+  /** Row after the last one owned by this stripe */
+  end: number;
+  /** First row sent to the worker, including the top halo */
+  haloStart: number;
+  /** Row after the last one sent to the worker, including the bottom halo */
+  haloEnd: number;
+}
+
+interface PendingStripe {
+  resolve: (buffer: ArrayBuffer) => void;
+  reject: (error: Error) => void;
+}
+
+const MIN_STRIPE_ROWS = 32;
+
+/**
+ * Split a frame into at most `count` stripes, each padded with `halo` rows on both sides
+ */
+export function splitIntoStripes(height: number, count: number, halo: number): Stripe[] {
+  const stripeCount = Math.max(1, Math.min(count, Math.floor(height / MIN_STRIPE_ROWS)));
+  const rowsPerStripe = Math.ceil(height / stripeCount);
+  const stripes: Stripe[] = [];
+
+  for (let start = 0; start < height; start += rowsPerStripe) {
+    const end = Math.min(height, start + rowsPerStripe);
+    stripes.push({
+      start,
+      end,
+      haloStart: Math.max(0, start - halo),
+      haloEnd: Math.min(height, end + halo)
+    });
+  }
+
+  return stripes;
+}
+
+/**
+ * Default pool size: one worker per logical core, leaving one for the main thread
+ */
+export function getDefaultPoolSize(): number {
+  const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 4 : 4;
+  return Math.max(1, cores - 1);
+}
+
+export class StripeWorkerPool {
+  private workers: Worker[] = [];
+  private pending = new Map<number, PendingStripe>();
+  private nextId = 0;
+  private nextWorker = 0;
+
+  constructor(private size = getDefaultPoolSize()) {}
+
+  /**
+   * Whether this environment can run pool workers
+   */
+  static isSupported(): boolean {
+    return typeof Worker !== 'undefined';
+  }
+
+  get workerCount(): number {
+    return this.size;
+  }
+
+  start() {
+    if (this.workers.length > 0) return;
+
+    for (let i = 0; i < this.size; i++) {
+      const worker = new Worker(new URL('../workers/stripeWorker.ts', import.meta.url), {
+        type: 'module'
+      });
+      worker.onmessage = (event: MessageEvent<StripeWorkerResponse>) => this.handleResponse(event.data);
+      worker.onerror = (event) => {
+        console.error('Stripe worker error:', event.message);
+        this.rejectAll(new Error(event.message || 'Stripe worker crashed'));
+      };
+      this.workers.push(worker);
+    }
+  }
+
+  /**
+   * Apply a filter to the frame in parallel. The frame is updated in place and returned.
+   */
+  async applyFilter(
+    imageData: PixelFrame,
+    filter: StripeFilter,
+    strength: number,
+    matrix?: ColorMatrix
+  ): Promise<PixelFrame> {
+    this.start();
+
+    const { data, width, height } = imageData;
+    const stripeMatrix = matrix ?? chooseColorMatrix(width, height);
+    const rowBytes = width * 4;
+    const halo = getStripeFilterRadius(filter, strength);
+    const stripes = splitIntoStripes(height, this.workers.length, halo);
+
+    // Stripes are copied out before any results are written back, so halos always see source pixels
+    const results = await Promise.all(stripes.map(stripe => {
+      const buffer = data.slice(stripe.haloStart * rowBytes, stripe.haloEnd * rowBytes).buffer;
+      return this.dispatch({
+        id: this.nextId++,
+        buffer,
+        width,
+        height: stripe.haloEnd - stripe.haloStart,
+        filter,
+        strength,
+        matrix: stripeMatrix
+      });
+    }));
+
+    // Stitch the owned rows back, discarding the halos
+    stripes.forEach((stripe, i) => {
+      const offset = (stripe.start - stripe.haloStart) * rowBytes;
+      const owned = new Uint8ClampedArray(results[i], offset, (stripe.end - stripe.start) * rowBytes);
+      data.set(owned, stripe.start * rowBytes);
+    });
+
+    return imageData;
+  }
+
+  terminate() {
+    this.workers.forEach(worker => worker.terminate());
+    this.workers = [];
+    this.rejectAll(new Error('Stripe worker pool terminated'));
+  }
+
+  private dispatch(request: StripeWorkerRequest): Promise<ArrayBuffer> {
+    const worker = this.workers[this.nextWorker];
+    this.nextWorker = (this.nextWorker + 1) % this.workers.length;
+
+    return new Promise<ArrayBuffer>((resolve, reject) => {
+      this.pending.set(request.id, { resolve, reject });
+      worker.postMessage(request, [request.buffer]);
+    });
+  }
+
+  private handleResponse(response: StripeWorkerResponse) {
+    const pending = this.pending.get(response.id);
+    if (!pending) return;
+    this.pending.delete(response.id);
+
+    if (response.type === 'error') {
+      pending.reject(new Error(response.message));
+    } else {
+      pending.resolve(response.buffer);
+    }
+  }
+
+  private rejectAll(error: Error) {
+    this.pending.forEach(({ reject }) => reject(error));
+    this.pending.clear();
+  }
+}
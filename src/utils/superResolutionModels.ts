@@ -0,0 +1,298 @@
+/**
+ * Registry of small neural super-resolution models (ESPCN/FSRCNN class) run with TensorFlow.js.
+ * Models are TF.js graph models that take NHWC float input in [0, 1]; luma models upscale Y only
+ * and resize chroma bilinearly. The repository ships no weights: built-in entries only become
+ * available once their files are deployed under /public/models/<id>/, and any other model can
+ * be used by its model.json URL.
+ */
+
+import type { GraphModel, Tensor, Tensor3D, Tensor4D } from '@tensorflow/tfjs';
+import { createPixelFrame, type PixelFrame } from './pixelFrame';
+import { fromYCbCr, toYCbCr, type ColorMatrix } from './colorSpace';
+
+type TensorFlow = typeof import('@tensorflow/tfjs');
+
+export interface SuperResolutionModelInfo {
+  id: string;
+  label: string;
+  architecture: 'espcn' | 'fsrcnn' | 'custom';
+  /** Upscaling factor; 0 for a model added by URL until loading has measured it */
+  scale: number;
+  url: string;
+  channels: 'luma' | 'rgb';
+}
+
+export const BUILT_IN_MODELS: SuperResolutionModelInfo[] = [
+  { id: 'espcn-x2', label: 'ESPCN 2×', architecture: 'espcn', scale: 2, url: '/models/espcn-x2/model.json', channels: 'luma' },
+  { id: 'espcn-x3', label: 'ESPCN 3×', architecture: 'espcn', scale: 3, url: '/models/espcn-x3/model.json', channels: 'luma' },
+  { id: 'espcn-x4', label: 'ESPCN 4×', architecture: 'espcn', scale: 4, url: '/models/espcn-x4/model.json', channels: 'luma' },
+  { id: 'fsrcnn-x2', label: 'FSRCNN 2×', architecture: 'fsrcnn', scale: 2, url: '/models/fsrcnn-x2/model.json', channels: 'luma' },
+  { id: 'fsrcnn-x3', label: 'FSRCNN 3×', architecture: 'fsrcnn', scale: 3, url: '/models/fsrcnn-x3/model.json', channels: 'luma' },
+  { id: 'fsrcnn-x4', label: 'FSRCNN 4×', architecture: 'fsrcnn', scale: 4, url: '/models/fsrcnn-x4/model.json', channels: 'luma' }
+];
+
+const WARMUP_SIZE = 16;
+
+/**
+ * Whether a stage's model reference is a URL rather than a registered id
+ */
+export function isModelUrl(model: string): boolean {
+  return /^(https?:|blob:|\/|\.)/.test(model) || model.endsWith('.json');
+}
+
+export class SuperResolutionModelRegistry {
+  private models = new Map<string, SuperResolutionModelInfo>();
+  private loadedModels = new Map<string, GraphModel>();
+  private loading = new Map<string, Promise<GraphModel>>();
+  private failed = new Set<string>();
+  private discovery: Promise<SuperResolutionModelInfo[]> | null = null;
+  private tfPromise: Promise<TensorFlow> | null = null;
+  private tf: TensorFlow | null = null;
+
+  /**
+   * Starts with only the given models; built-in models are added by discover() once their files are found
+   */
+  constructor(models: SuperResolutionModelInfo[] = []) {
+    models.forEach(model => this.register(model));
+  }
+
+  /**
+   * Add or replace a model entry, e.g. for a custom model hosted elsewhere
+   */
+  register(model: SuperResolutionModelInfo) {
+    this.models.set(model.id, model);
+  }
+
+  /**
+   * Register a user-supplied model.json URL under its own URL as id. Scale and channels are
+   * read from the model's output and input shapes when it loads.
+   */
+  registerUrl(url: string): SuperResolutionModelInfo {
+    const existing = this.models.get(url);
+    if (existing) return existing;
+
+    const model: SuperResolutionModelInfo = {
+      id: url,
+      label: url.split('/').slice(-2).join('/'),
+      architecture: 'custom',
+      scale: 0,
+      url,
+      channels: 'luma'
+    };
+    this.register(model);
+    return model;
+  }
+
+  /**
+   * Look up a model by id, registering it first when the reference is a URL
+   */
+  resolve(model: string): SuperResolutionModelInfo | undefined {
+    return isModelUrl(model) ? this.registerUrl(model) : this.get(model);
+  }
+
+  /**
+   * Register the built-in models whose files are actually deployed. Runs once; a missing file
+   * just leaves its model out, so frames keep using classical upscaling.
+   */
+  discover(candidates: SuperResolutionModelInfo[] = BUILT_IN_MODELS): Promise<SuperResolutionModelInfo[]> {
+    if (!this.discovery) {
+      this.discovery = (async () => {
+        const found = await Promise.all(candidates.map(async candidate => {
+          try {
+            const response = await fetch(candidate.url, { method: 'HEAD' });
+            return response.ok ? candidate : null;
+          } catch {
+            return null;
+          }
+        }));
+        const available = found.filter((model): model is SuperResolutionModelInfo => model !== null);
+        available.forEach(model => this.register(model));
+        return available;
+      })();
+    }
+    return this.discovery;
+  }
+
+  list(scale?: number): SuperResolutionModelInfo[] {
+    const models = Array.from(this.models.values());
+    return scale === undefined ? models : models.filter(model => model.scale === scale);
+  }
+
+  get(id: string): SuperResolutionModelInfo | undefined {
+    return this.models.get(id);
+  }
+
+  /**
+   * Smallest registered model that reaches the requested scale (or the largest one if none does),
+   * preferring ESPCN for speed. Models added by URL are only used when a stage names them.
+   */
+  pickModel(scale: number): SuperResolutionModelInfo | undefined {
+    const byScale = this.list()
+      .filter(model => model.architecture !== 'custom')
+      .sort((a, b) => a.scale - b.scale || (a.architecture === 'espcn' ? -1 : 1));
+    if (byScale.length === 0) return undefined;
+    return byScale.find(model => model.scale >= Math.ceil(scale - 0.01))
+      ?? byScale.filter(model => model.scale === byScale[byScale.length - 1].scale)[0];
+  }
+
+  /**
+   * Active TensorFlow.js backend, or null before the first model is loaded
+   */
+  get backend(): string | null {
+    return this.tf ? this.tf.getBackend() : null;
+  }
+
+  isLoaded(id: string): boolean {
+    return this.loadedModels.has(id);
+  }
+
+  /**
+   * True once loading a model has failed (e.g. its files are not deployed)
+   */
+  hasFailed(id: string): boolean {
+    return this.failed.has(id);
+  }
+
+  /**
+   * Load and warm up a model. Concurrent calls share one download.
+   */
+  load(id: string): Promise<GraphModel> {
+    const existing = this.loading.get(id);
+    if (existing) return existing;
+
+    const info = this.models.get(id);
+    if (!info) {
+      return Promise.reject(new Error(`Unknown super-resolution model: ${id}`));
+    }
+
+    const promise = (async () => {
+      const tf = await this.getTensorFlow();
+      const model = await tf.loadGraphModel(info.url);
+
+      // A model added by URL says nothing about itself up front: its input depth gives the
+      // channels and the warm-up output size gives the scale
+      const channels = info.architecture === 'custom'
+        ? (model.inputs[0]?.shape?.[3] === 3 ? 'rgb' : 'luma')
+        : info.channels;
+
+      // First inference compiles shaders / allocates kernels; do it before real frames arrive
+      const depth = channels === 'luma' ? 1 : 3;
+      const outputSize = tf.tidy(() => {
+        const warmup = model.predict(tf.zeros([1, WARMUP_SIZE, WARMUP_SIZE, depth])) as Tensor;
+        warmup.dataSync();
+        return warmup.shape[1] ?? WARMUP_SIZE;
+      });
+
+      if (info.architecture === 'custom') {
+        const scale = Math.round(outputSize / WARMUP_SIZE);
+        if (scale < 2) {
+          model.dispose();
+          throw new Error(`${info.url} is not an upscaling model`);
+        }
+        this.register({ ...info, scale, channels });
+      }
+
+      this.loadedModels.set(id, model);
+      console.log(`Super-resolution model ${id} ready on ${tf.getBackend()}`);
+      return model;
+    })();
+
+    promise.catch(() => this.failed.add(id));
+    this.loading.set(id, promise);
+    return promise;
+  }
+
+  /**
+   * Run a loaded model on a frame, splitting luma from chroma with the source's matrix.
+   * Throws if the model has not finished loading.
+   */
+  run(id: string, frame: PixelFrame, matrix: ColorMatrix): PixelFrame {
+    const tf = this.tf;
+    const model = this.loadedModels.get(id);
+    const info = this.models.get(id);
+    if (!tf || !model || !info) {
+      throw new Error(`Super-resolution model ${id} is not loaded`);
+    }
+
+    const { width, height } = frame;
+    const outWidth = width * info.scale;
+    const outHeight = height * info.scale;
+
+    if (info.channels === 'rgb') {
+      const output = tf.tidy(() => {
+        const pixels = { data: new Uint8Array(frame.data.buffer, frame.data.byteOffset, frame.data.length), width, height };
+        const rgb = tf.browser.fromPixels(pixels, 3).toFloat().div(255) as Tensor3D;
+        const upscaled = model.predict(rgb.expandDims(0)) as Tensor4D;
+        return upscaled.squeeze([0]).clipByValue(0, 1).mul(255);
+      });
+
+      const values = output.dataSync();
+      output.dispose();
+
+      const result = createPixelFrame(outWidth, outHeight);
+      for (let i = 0, j = 0; i < result.data.length; i += 4, j += 3) {
+        result.data[i] = Math.round(values[j]);
+        result.data[i + 1] = Math.round(values[j + 1]);
+        result.data[i + 2] = Math.round(values[j + 2]);
+        result.data[i + 3] = 255;
+      }
+      return result;
+    }
+
+    // The model only sees luma; chroma is resized bilinearly
+    const planes = toYCbCr(frame, matrix);
+    const [yValues, chromaValues] = tf.tidy(() => {
+      const y = tf.tensor4d(planes.y, [1, height, width, 1]).div(255);
+      const yUp = (model.predict(y) as Tensor4D).clipByValue(0, 1).mul(255);
+      const chroma = tf.stack([tf.tensor2d(planes.cb, [height, width]), tf.tensor2d(planes.cr, [height, width])], 2) as Tensor3D;
+      const chromaUp = tf.image.resizeBilinear(chroma, [outHeight, outWidth]);
+      return [yUp.dataSync() as Float32Array, chromaUp.dataSync() as Float32Array];
+    });
+
+    const count = outWidth * outHeight;
+    const cb = new Float32Array(count);
+    const cr = new Float32Array(count);
+    for (let p = 0; p < count; p++) {
+      cb[p] = chromaValues[2 * p];
+      cr[p] = chromaValues[2 * p + 1];
+    }
+
+    const opaque = createPixelFrame(outWidth, outHeight);
+    opaque.data.fill(255);
+    return fromYCbCr({ y: yValues, cb, cr, width: outWidth, height: outHeight }, opaque, matrix);
+  }
+
+  dispose() {
+    this.loadedModels.forEach(model => model.dispose());
+    this.loadedModels.clear();
+    this.loading.clear();
+    this.failed.clear();
+    this.discovery = null;
+  }
+
+  /**
+   * Load TensorFlow.js lazily, preferring WebGL and falling back to the CPU backend
+   */
+  private getTensorFlow(): Promise<TensorFlow> {
+    if (!this.tfPromise) {
+      this.tfPromise = (async () => {
+        const tf = await import('@tensorflow/tfjs');
+
+        let usingWebGL = false;
+        try {
+          usingWebGL = await tf.setBackend('webgl');
+        } catch {
+          usingWebGL = false;
+        }
+        if (!usingWebGL) {
+          await tf.setBackend('cpu');
+        }
+
+        await tf.ready();
+        this.tf = tf;
+        return tf;
+      })();
+    }
+    return this.tfPromise;
+  }
+}
@@ -0,0 +1,276 @@
+/**
+ * Motion-compensated temporal denoising.
+ * Keeps a short history of previous source frames, matches blocks of the current frame
+ * against each of them and averages in the compensated pixels that agree with the current one,
+ * so static detail is kept while frame-to-frame compression noise averages out.
+ */
+
+import { clonePixelFrame, createPixelFrame, type PixelFrame } from './pixelFrame';
+
+export interface TemporalDenoiserOptions {
+  /** Previous frames blended into the current one */
+  historyLength?: number;
+  /** Motion estimation block size in pixels */
+  blockSize?: number;
+  /** Largest motion vector searched, in pixels */
+  searchRadius?: number;
+  /** Mean motion-compensated luma difference (0-255) treated as a scene cut */
+  sceneCutThreshold?: number;
+}
+
+export interface TemporalDenoiserStats {
+  historyLength: number;
+  sceneCuts: number;
+  /** Average weight given to history pixels in the last frame, 0-1 */
+  averageConfidence: number;
+}
+
+interface HistoryFrame {
+  frame: PixelFrame;
+  luma: Uint8Array;
+}
+
+interface MotionField {
+  vectors: Int16Array;
+  costs: Float32Array;
+}
+
+// Weight of each older history frame relative to the next newer one
+const HISTORY_DECAY = 0.75;
+// Pixel stride used when comparing blocks; full resolution is not needed to find motion
+const MATCH_STEP = 2;
+
+const LARGE_DIAMOND = [[0, -2], [1, -1], [2, 0], [1, 1], [0, 2], [-1, 1], [-2, 0], [-1, -1]];
+const SMALL_DIAMOND = [[0, -1], [1, 0], [0, 1], [-1, 0]];
+
+function computeLuma(frame: PixelFrame): Uint8Array {
+  const { data } = frame;
+  const luma = new Uint8Array(frame.width * frame.height);
+
+  for (let i = 0, p = 0; i < data.length; i += 4, p++) {
+    luma[p] = (77 * data[i] + 150 * data[i + 1] + 29 * data[i + 2]) >> 8;
+  }
+
+  return luma;
+}
+
+export class TemporalDenoiser {
+  private history: HistoryFrame[] = [];
+  private sceneCuts = 0;
+  private averageConfidence = 0;
+  private readonly historyLength: number;
+  private readonly blockSize: number;
+  private readonly searchRadius: number;
+  private readonly sceneCutThreshold: number;
+
+  constructor(options: TemporalDenoiserOptions = {}) {
+    this.historyLength = options.historyLength ?? 2;
+    this.blockSize = options.blockSize ?? 16;
+    this.searchRadius = options.searchRadius ?? 8;
+    this.sceneCutThreshold = options.sceneCutThreshold ?? 30;
+  }
+
+  /**
+   * Forget all previous frames, e.g. after a seek
+   */
+  reset() {
+    this.history = [];
+    this.averageConfidence = 0;
+  }
+
+  getStats(): TemporalDenoiserStats {
+    return {
+      historyLength: this.history.length,
+      sceneCuts: this.sceneCuts,
+      averageConfidence: this.averageConfidence
+    };
+  }
+
+  /**
+   * Denoise a frame against the history and remember it for the next call.
+   * The input is never modified; a scene cut or size change starts a fresh history.
+   */
+  process(frame: PixelFrame, strength: number): PixelFrame {
+    const luma = computeLuma(frame);
+    const previous = this.history[0];
+    let latestMotion: MotionField | null = null;
+
+    if (previous && (previous.frame.width !== frame.width || previous.frame.height !== frame.height)) {
+      this.reset();
+    } else if (previous) {
+      // Judge cuts after motion compensation, so fast pans are not mistaken for new scenes
+      latestMotion = this.estimateMotion(luma, previous.luma, frame.width, frame.height);
+      if (this.isSceneCut(latestMotion)) {
+        this.sceneCuts++;
+        this.reset();
+        latestMotion = null;
+      }
+    }
+
+    const output = latestMotion && strength > 0
+      ? this.blendHistory(frame, luma, strength, latestMotion)
+      : frame;
+
+    this.history.unshift({ frame: clonePixelFrame(frame), luma });
+    this.history.length = Math.min(this.history.length, this.historyLength);
+
+    return output;
+  }
+
+  private isSceneCut(motion: MotionField): boolean {
+    const { costs } = motion;
+    let sum = 0;
+    for (let i = 0; i < costs.length; i++) {
+      sum += costs[i];
+    }
+    return sum / costs.length > this.sceneCutThreshold;
+  }
+
+  private blendHistory(frame: PixelFrame, luma: Uint8Array, strength: number, latestMotion: MotionField): PixelFrame {
+    const { width, height, data } = frame;
+    const { blockSize } = this;
+    const blocksX = Math.ceil(width / blockSize);
+
+    // Pixel differences within the noise band count as agreement; larger ones as motion or detail
+    const sigma = 4 + 16 * strength;
+    const pixelConfidence = new Float32Array(256);
+    for (let d = 0; d < 256; d++) {
+      pixelConfidence[d] = Math.exp(-(d * d) / (2 * sigma * sigma));
+    }
+
+    const fields = this.history.map((entry, k) => (
+      k === 0 ? latestMotion : this.estimateMotion(luma, entry.luma, width, height)
+    ));
+
+    const output = createPixelFrame(width, height);
+    const out = output.data;
+    let confidenceSum = 0;
+
+    for (let y = 0; y < height; y++) {
+      const blockRow = Math.floor(y / blockSize) * blocksX;
+
+      for (let x = 0; x < width; x++) {
+        const p = y * width + x;
+        const idx = p * 4;
+        const block = blockRow + Math.floor(x / blockSize);
+
+        let weightSum = 1;
+        let r = data[idx];
+        let g = data[idx + 1];
+        let b = data[idx + 2];
+        let decay = strength;
+
+        for (let k = 0; k < this.history.length; k++) {
+          const { vectors, costs } = fields[k];
+          const refX = Math.min(width - 1, Math.max(0, x + vectors[block * 2]));
+          const refY = Math.min(height - 1, Math.max(0, y + vectors[block * 2 + 1]));
+          const refP = refY * width + refX;
+
+          // A poorly matched block only contributes where individual pixels still agree closely
+          const blockConfidence = costs[block] <= sigma ? 1 : sigma / costs[block];
+          const weight = decay * blockConfidence * pixelConfidence[Math.abs(luma[p] - this.history[k].luma[refP])];
+          decay *= HISTORY_DECAY;
+
+          if (weight > 0.001) {
+            const ref = this.history[k].frame.data;
+            const refIdx = refP * 4;
+            r += ref[refIdx] * weight;
+            g += ref[refIdx + 1] * weight;
+            b += ref[refIdx + 2] * weight;
+            weightSum += weight;
+          }
+        }
+
+        out[idx] = Math.round(r / weightSum);
+        out[idx + 1] = Math.round(g / weightSum);
+        out[idx + 2] = Math.round(b / weightSum);
+        out[idx + 3] = data[idx + 3];
+        confidenceSum += 1 - 1 / weightSum;
+      }
+    }
+
+    this.averageConfidence = confidenceSum / (width * height);
+    return output;
+  }
+
+  /**
+   * Block matching with predictive diamond search: each block starts from the best of the zero
+   * vector and its left/top neighbours' vectors, then refines with a large and a small diamond
+   */
+  private estimateMotion(current: Uint8Array, reference: Uint8Array, width: number, height: number): MotionField {
+    const { blockSize, searchRadius } = this;
+    const blocksX = Math.ceil(width / blockSize);
+    const blocksY = Math.ceil(height / blockSize);
+    const vectors = new Int16Array(blocksX * blocksY * 2);
+    const costs = new Float32Array(blocksX * blocksY);
+
+    for (let by = 0; by < blocksY; by++) {
+      for (let bx = 0; bx < blocksX; bx++) {
+        const block = by * blocksX + bx;
+        const x0 = bx * blockSize;
+        const y0 = by * blockSize;
+        const x1 = Math.min(width, x0 + blockSize);
+        const y1 = Math.min(height, y0 + blockSize);
+
+        const blockCost = (dx: number, dy: number, limit: number): number => {
+          let sad = 0;
+          let samples = 0;
+          for (let y = y0; y < y1; y += MATCH_STEP) {
+            const refY = Math.min(height - 1, Math.max(0, y + dy)) * width;
+            const row = y * width;
+            for (let x = x0; x < x1; x += MATCH_STEP) {
+              sad += Math.abs(current[row + x] - reference[refY + Math.min(width - 1, Math.max(0, x + dx))]);
+              samples++;
+            }
+            if (sad > limit * samples) return Infinity;
+          }
+          return sad / samples;
+        };
+
+        let bestX = 0;
+        let bestY = 0;
+        let best = blockCost(0, 0, Infinity);
+
+        const candidates: number[][] = [];
+        if (bx > 0) candidates.push([vectors[(block - 1) * 2], vectors[(block - 1) * 2 + 1]]);
+        if (by > 0) candidates.push([vectors[(block - blocksX) * 2], vectors[(block - blocksX) * 2 + 1]]);
+        for (const [dx, dy] of candidates) {
+          const cost = blockCost(dx, dy, best);
+          if (cost < best) {
+            best = cost;
+            bestX = dx;
+            bestY = dy;
+          }
+        }
+
+        for (const pattern of [LARGE_DIAMOND, SMALL_DIAMOND]) {
+          let improved = best > 0;
+          while (improved) {
+            improved = false;
+            const centerX = bestX;
+            const centerY = bestY;
+            for (const [ox, oy] of pattern) {
+              const dx = centerX + ox;
+              const dy = centerY + oy;
+              if (Math.abs(dx) > searchRadius || Math.abs(dy) > searchRadius) continue;
+
+              const cost = blockCost(dx, dy, best);
+              if (cost < best) {
+                best = cost;
+                bestX = dx;
+                bestY = dy;
+                improved = true;
+              }
+            }
+          }
+        }
+
+        vectors[block * 2] = bestX;
+        vectors[block * 2 + 1] = bestY;
+        costs[block] = best;
+      }
+    }
+
+    return { vectors, costs };
+  }
+}
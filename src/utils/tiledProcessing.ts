@@ -0,0 +1,420 @@
+/**
+ * Tiled pipeline execution for large (4K/8K) targets.
+ * Tiles are processed with a halo wide enough for every filter in the chain and
+ * feather-blended across their overlap, so only tile-sized temporaries are ever allocated.
+ * Stages that need whole-frame statistics get them measured once per frame, and every stage
+ * is told where its tile sits so position-seeded noise matches the whole-frame result.
+ */
+
+import {
+  getResampleSize,
+  getStageRadius,
+  isGlobalStage,
+  isStageEnabled,
+  needsFrameStatistics,
+  type EnhancementPipeline,
+  type PipelineStage
+} from './enhancementPipeline';
+import { createPixelFrame, cropPixelFrame, type PixelFrame } from './pixelFrame';
+import { measureFrameStatistics, type FrameStatistics } from './toneCorrection';
+
+export const DEFAULT_MEMORY_LIMIT_MB = 256;
+
+const BYTES_PER_PIXEL = 4;
+// Frame-sized buffers alive at once inside a stage chain (input, output, filter temporary,
+// plus headroom for the float intermediate of the Lanczos resampler)
+const WORKING_COPIES = 4;
+const DEFAULT_OVERLAP = 16;
+const MIN_TILE_SIZE = 64;
+// Largest resampling period worth aligning tiles to; beyond it seams rely on blending alone
+const MAX_ALIGNMENT = 16;
+
+export interface TiledExecutionOptions {
+  /** Memory ceiling for one frame, in megabytes */
+  memoryLimitMB?: number;
+  /** Output pixels blended on each side of a seam */
+  overlap?: number;
+}
+
+/**
+ * Where a tile sits in the frame a stage would see untiled, and what was measured on that frame
+ */
+export interface StageContext {
+  offsetX: number;
+  offsetY: number;
+  statistics?: FrameStatistics;
+}
+
+export type StageRunner = (frame: PixelFrame, stage: PipelineStage, context?: StageContext) => PixelFrame;
+
+/**
+ * Stage runner that may hand work to other threads, e.g. a stripe worker pool
+ */
+export type AsyncStageRunner = (
+  frame: PixelFrame,
+  stage: PipelineStage,
+  context?: StageContext
+) => PixelFrame | Promise<PixelFrame>;
+
+interface SegmentStage {
+  stage: PipelineStage;
+  statistics?: FrameStatistics;
+}
+
+/**
+ * A run of stages tiled together, or one stage that runs on the whole frame
+ */
+type TiledStep =
+  | { type: 'segment'; stages: PipelineStage[] }
+  | { type: 'global'; stage: PipelineStage };
+
+interface TilePlan {
+  core: Rect;
+  extended: Rect;
+}
+
+interface SegmentPlan {
+  outWidth: number;
+  outHeight: number;
+  scaleX: number;
+  scaleY: number;
+  overlap: number;
+  tiles: TilePlan[];
+}
+
+interface TileJob {
+  crop: PixelFrame;
+  stages: PipelineStage[];
+  contexts: StageContext[];
+}
+
+interface Rect {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+function getOutputSize(stages: PipelineStage[], width: number, height: number) {
+  return stages.reduce(
+    (size, stage) => (stage.type === 'resample' ? getResampleSize(stage, size.width, size.height) : size),
+    { width, height }
+  );
+}
+
+/**
+ * Peak bytes needed to run a pipeline over a whole frame without tiling
+ */
+export function estimatePipelineMemory(pipeline: EnhancementPipeline, width: number, height: number): number {
+  let size = { width, height };
+  let largest = width * height;
+
+  for (const stage of pipeline.stages.filter(isStageEnabled)) {
+    if (stage.type === 'resample') {
+      size = getResampleSize(stage, size.width, size.height);
+      largest = Math.max(largest, size.width * size.height);
+    }
+  }
+
+  return (width * height + largest * WORKING_COPIES) * BYTES_PER_PIXEL;
+}
+
+export function exceedsMemoryLimit(
+  pipeline: EnhancementPipeline,
+  width: number,
+  height: number,
+  memoryLimitMB = DEFAULT_MEMORY_LIMIT_MB
+): boolean {
+  return estimatePipelineMemory(pipeline, width, height) > memoryLimitMB * 1024 * 1024;
+}
+
+/**
+ * Source pixels each tile must borrow from its neighbours so every filter sees real data.
+ * Radii of stages after a resample are converted back to source pixels.
+ */
+function getHaloSize(stages: PipelineStage[], width: number, height: number): number {
+  let scale = 1;
+  let size = { width, height };
+  let halo = 0;
+
+  for (const stage of stages) {
+    halo += getStageRadius(stage) / scale;
+    if (stage.type === 'resample') {
+      const next = getResampleSize(stage, size.width, size.height);
+      scale *= Math.min(next.width / size.width, next.height / size.height);
+      size = next;
+    }
+  }
+
+  return Math.ceil(halo);
+}
+
+function cropFrame(frame: PixelFrame, rect: Rect): PixelFrame {
+  return cropPixelFrame(frame, rect.x0, rect.y0, rect.x1 - rect.x0, rect.y1 - rect.y0);
+}
+
+/**
+ * Rewrite resample stages to absolute sizes for a crop, keeping the full frame's scale
+ */
+function mapStagesToCrop(stages: PipelineStage[], full: { width: number; height: number }, crop: { width: number; height: number }) {
+  let fullSize = full;
+  let cropSize = crop;
+
+  return stages.map(stage => {
+    if (stage.type !== 'resample') return stage;
+
+    const nextFull = getResampleSize(stage, fullSize.width, fullSize.height);
+    const nextCrop = {
+      width: Math.max(1, Math.round(cropSize.width * nextFull.width / fullSize.width)),
+      height: Math.max(1, Math.round(cropSize.height * nextFull.height / fullSize.height))
+    };
+    fullSize = nextFull;
+    cropSize = nextCrop;
+
+    return { ...stage, scale: undefined, width: nextCrop.width, height: nextCrop.height };
+  });
+}
+
+function gcd(a: number, b: number): number {
+  return b === 0 ? a : gcd(b, a % b);
+}
+
+/**
+ * Source step at which tile origins land on whole output pixels (e.g. 2 for 1.5×), so every
+ * tile samples the same grid as the full frame. Returns 1 when no small step exists.
+ */
+function getTileAlignment(srcWidth: number, srcHeight: number, outWidth: number, outHeight: number): number {
+  const periodX = srcWidth / gcd(srcWidth, outWidth);
+  const periodY = srcHeight / gcd(srcHeight, outHeight);
+  const alignment = periodX * periodY / gcd(periodX, periodY);
+  return alignment <= MAX_ALIGNMENT ? alignment : 1;
+}
+
+/**
+ * Linear ramp across a seam: 0 where the previous tile is authoritative, 1 where this one is
+ */
+function seamWeight(position: number, seamStart: number, seamWidth: number): number {
+  if (seamWidth <= 0) return 1;
+  return Math.max(0, Math.min(1, (position - seamStart + 0.5) / seamWidth));
+}
+
+function planSegment(src: PixelFrame, stages: PipelineStage[], options: TiledExecutionOptions): SegmentPlan {
+  const { width: outWidth, height: outHeight } = getOutputSize(stages, src.width, src.height);
+  const scaleX = outWidth / src.width;
+  const scaleY = outHeight / src.height;
+
+  const overlap = options.overlap ?? DEFAULT_OVERLAP;
+  const overlapSrc = Math.ceil(overlap / Math.min(scaleX, scaleY));
+  const alignment = getTileAlignment(src.width, src.height, outWidth, outHeight);
+  const margin = Math.ceil((getHaloSize(stages, src.width, src.height) + overlapSrc) / alignment) * alignment;
+
+  // Whatever the ceiling leaves after the full-size input and output goes to tile temporaries
+  const limitBytes = (options.memoryLimitMB ?? DEFAULT_MEMORY_LIMIT_MB) * 1024 * 1024;
+  const frameBytes = (src.width * src.height + outWidth * outHeight) * BYTES_PER_PIXEL;
+  const tileBudget = Math.max(0, limitBytes - frameBytes);
+  const maxScale = Math.max(1, scaleX * scaleY);
+  const extendedSide = Math.sqrt(tileBudget / (BYTES_PER_PIXEL * WORKING_COPIES * maxScale));
+  const tileSize = Math.min(
+    Math.max(src.width, src.height),
+    Math.ceil(Math.max(MIN_TILE_SIZE, Math.floor(extendedSide) - 2 * margin) / alignment) * alignment
+  );
+
+  const tiles: TilePlan[] = [];
+  for (let ty = 0; ty < src.height; ty += tileSize) {
+    for (let tx = 0; tx < src.width; tx += tileSize) {
+      const core: Rect = {
+        x0: tx,
+        y0: ty,
+        x1: Math.min(src.width, tx + tileSize),
+        y1: Math.min(src.height, ty + tileSize)
+      };
+      const extended: Rect = {
+        x0: Math.max(0, core.x0 - margin),
+        y0: Math.max(0, core.y0 - margin),
+        x1: Math.min(src.width, core.x1 + margin),
+        y1: Math.min(src.height, core.y1 + margin)
+      };
+      tiles.push({ core, extended });
+    }
+  }
+
+  return { outWidth, outHeight, scaleX, scaleY, overlap, tiles };
+}
+
+/**
+ * Cut a tile out of the source, with its stages sized for the crop and each stage told where
+ * the tile sits in the frame that stage would see untiled
+ */
+function prepareTile(src: PixelFrame, segment: SegmentStage[], { extended }: TilePlan): TileJob {
+  const stages = segment.map(({ stage }) => stage);
+  const crop = cropFrame(src, extended);
+  const contexts: StageContext[] = [];
+  let fullSize = { width: src.width, height: src.height };
+
+  segment.forEach(({ stage, statistics }) => {
+    contexts.push({
+      offsetX: Math.round(extended.x0 * fullSize.width / src.width),
+      offsetY: Math.round(extended.y0 * fullSize.height / src.height),
+      statistics
+    });
+    if (stage.type === 'resample') {
+      fullSize = getResampleSize(stage, fullSize.width, fullSize.height);
+    }
+  });
+
+  return { crop, stages: mapStagesToCrop(stages, src, crop), contexts };
+}
+
+/**
+ * Write a processed tile's core (plus the overlap ramp towards earlier tiles) into the output
+ */
+function blendTile(dst: PixelFrame, tile: PixelFrame, src: PixelFrame, plan: SegmentPlan, { core, extended }: TilePlan) {
+  const { outWidth, outHeight, scaleX, scaleY, overlap } = plan;
+  const { data: dstData } = dst;
+
+  // Where the tile's pixels land in the output, and which of them we keep
+  const originX = Math.round(extended.x0 * scaleX);
+  const originY = Math.round(extended.y0 * scaleY);
+  const coreOutX0 = Math.round(core.x0 * scaleX);
+  const coreOutY0 = Math.round(core.y0 * scaleY);
+  const writeX0 = core.x0 > 0 ? Math.max(originX, coreOutX0 - overlap) : 0;
+  const writeY0 = core.y0 > 0 ? Math.max(originY, coreOutY0 - overlap) : 0;
+  const writeX1 = core.x1 < src.width ? Math.round(core.x1 * scaleX) + overlap : outWidth;
+  const writeY1 = core.y1 < src.height ? Math.round(core.y1 * scaleY) + overlap : outHeight;
+  const seamWidthX = core.x0 > 0 ? (coreOutX0 - writeX0) * 2 : 0;
+  const seamWidthY = core.y0 > 0 ? (coreOutY0 - writeY0) * 2 : 0;
+
+  for (let y = writeY0; y < Math.min(writeY1, outHeight); y++) {
+    const tileY = Math.min(tile.height - 1, y - originY);
+    const weightY = seamWeight(y, writeY0, seamWidthY);
+
+    for (let x = writeX0; x < Math.min(writeX1, outWidth); x++) {
+      const tileX = Math.min(tile.width - 1, x - originX);
+      const weight = weightY * seamWeight(x, writeX0, seamWidthX);
+      const dstIdx = (y * outWidth + x) * 4;
+      const tileIdx = (tileY * tile.width + tileX) * 4;
+
+      for (let c = 0; c < 4; c++) {
+        dstData[dstIdx + c] = Math.round(dstData[dstIdx + c] + (tile.data[tileIdx + c] - dstData[dstIdx + c]) * weight);
+      }
+    }
+  }
+}
+
+function runTiledSegment(
+  src: PixelFrame,
+  segment: SegmentStage[],
+  runStage: StageRunner,
+  options: TiledExecutionOptions
+): PixelFrame {
+  const plan = planSegment(src, segment.map(({ stage }) => stage), options);
+  const dst = createPixelFrame(plan.outWidth, plan.outHeight);
+
+  for (const tilePlan of plan.tiles) {
+    const { crop, stages, contexts } = prepareTile(src, segment, tilePlan);
+    const tile = stages.reduce((frame, stage, i) => runStage(frame, stage, contexts[i]), crop);
+    blendTile(dst, tile, src, plan, tilePlan);
+  }
+
+  return dst;
+}
+
+async function runTiledSegmentAsync(
+  src: PixelFrame,
+  segment: SegmentStage[],
+  runStage: AsyncStageRunner,
+  options: TiledExecutionOptions
+): Promise<PixelFrame> {
+  const plan = planSegment(src, segment.map(({ stage }) => stage), options);
+  const dst = createPixelFrame(plan.outWidth, plan.outHeight);
+
+  // Tiles go one at a time so the memory ceiling holds; the runner parallelizes within a tile
+  for (const tilePlan of plan.tiles) {
+    const { crop, stages, contexts } = prepareTile(src, segment, tilePlan);
+    let tile = crop;
+    for (let i = 0; i < stages.length; i++) {
+      tile = await runStage(tile, stages[i], contexts[i]);
+    }
+    blendTile(dst, tile, src, plan, tilePlan);
+  }
+
+  return dst;
+}
+
+/**
+ * Group consecutive local stages into tiled segments. Stages anchored to the frame origin run on
+ * the whole frame; a stage that needs whole-frame statistics starts a new segment, so they can
+ * be sampled from the stitched frame as that stage would see it.
+ */
+function splitIntoSteps(pipeline: EnhancementPipeline): TiledStep[] {
+  const steps: TiledStep[] = [];
+  let pending: PipelineStage[] = [];
+
+  const flush = () => {
+    if (pending.length > 0) {
+      steps.push({ type: 'segment', stages: pending });
+      pending = [];
+    }
+  };
+
+  for (const stage of pipeline.stages.filter(isStageEnabled)) {
+    if (isGlobalStage(stage)) {
+      flush();
+      steps.push({ type: 'global', stage });
+    } else {
+      if (needsFrameStatistics(stage)) {
+        flush();
+      }
+      pending.push(stage);
+    }
+  }
+  flush();
+
+  return steps;
+}
+
+/**
+ * Only a segment's first stage can need statistics; applying them afterwards is per pixel
+ */
+function measureSegment(frame: PixelFrame, stages: PipelineStage[]): SegmentStage[] {
+  return stages.map((stage, i) => ({
+    stage,
+    statistics: i === 0 && needsFrameStatistics(stage) ? measureFrameStatistics(frame, stage) : undefined
+  }));
+}
+
+/**
+ * Run a pipeline tile by tile. Consecutive local stages are tiled together; stages that need
+ * whole-frame statistics have them measured on the stitched frame between tiled segments, and
+ * stages anchored to the frame origin run on it whole.
+ */
+export function runTiledPipeline(
+  frame: PixelFrame,
+  pipeline: EnhancementPipeline,
+  runStage: StageRunner,
+  options: TiledExecutionOptions = {}
+): PixelFrame {
+  return splitIntoSteps(pipeline).reduce((current, step) => step.type === 'global'
+    ? runStage(current, step.stage)
+    : runTiledSegment(current, measureSegment(current, step.stages), runStage, options), frame);
+}
+
+/**
+ * runTiledPipeline for runners that hand stages to workers
+ */
+export async function runTiledPipelineAsync(
+  frame: PixelFrame,
+  pipeline: EnhancementPipeline,
+  runStage: AsyncStageRunner,
+  options: TiledExecutionOptions = {}
+): Promise<PixelFrame> {
+  let current = frame;
+
+  for (const step of splitIntoSteps(pipeline)) {
+    current = step.type === 'global'
+      ? await runStage(current, step.stage)
+      : await runTiledSegmentAsync(current, measureSegment(current, step.stages), runStage, options);
+  }
+
+  return current;
+}
@@ -0,0 +1,221 @@
+/**
+ * Lighting correction and histogram contrast.
+ * Both depend on whole-frame statistics, which are measured once on a subsampled frame and then
+ * applied pixel by pixel, so the cost stays one pass over the frame at any window size.
+ */
+
+import type { PixelFrame } from './pixelFrame';
+import type { PipelineStage } from './enhancementPipeline';
+import { clampByte } from './colorSpace';
+
+export interface LightingStatistics {
+  /** Mean brightness of the whole frame */
+  average: number;
+  /** Mean brightness around each grid cell, over a window of a tenth of the frame's short side */
+  local: Float32Array;
+  gridWidth: number;
+  gridHeight: number;
+  /** Frame pixels per grid cell */
+  cellSize: number;
+}
+
+export interface ContrastStatistics {
+  /** Histogram-equalized value of each level, 256 entries per channel (R, G, B) */
+  equalized: Uint8Array;
+}
+
+/**
+ * Statistics a stage measured on the whole frame, handed to it when it runs on a tile
+ */
+export interface FrameStatistics {
+  lighting?: LightingStatistics;
+  contrast?: ContrastStatistics;
+}
+
+const TARGET_BRIGHTNESS = 128;
+// Grid cells along the frame's short side; fine enough that interpolated local means look smooth
+const LIGHTING_GRID_CELLS = 64;
+// Samples taken along each side of a grid cell
+const SAMPLES_PER_CELL_SIDE = 4;
+// Histogram samples; beyond this a larger frame doesn't change the equalization curve
+const MAX_HISTOGRAM_SAMPLES = 1 << 18;
+
+function brightnessAt(data: Uint8ClampedArray, idx: number): number {
+  return (data[idx] + data[idx + 1] + data[idx + 2]) / 3;
+}
+
+/**
+ * Sample the frame's brightness on a coarse grid and box-filter the grid through a summed-area
+ * table, with a window of a tenth of the short side clamped at the frame edges
+ */
+export function measureLighting(frame: PixelFrame): LightingStatistics {
+  const { data, width, height } = frame;
+  const cellSize = Math.max(1, Math.ceil(Math.min(width, height) / LIGHTING_GRID_CELLS));
+  const step = Math.max(1, Math.floor(cellSize / SAMPLES_PER_CELL_SIDE));
+  const gridWidth = Math.ceil(width / cellSize);
+  const gridHeight = Math.ceil(height / cellSize);
+
+  // Summed-area tables of sampled brightness and sample counts, with a zero row and column
+  const stride = gridWidth + 1;
+  const sums = new Float64Array(stride * (gridHeight + 1));
+  const counts = new Float64Array(stride * (gridHeight + 1));
+  let total = 0;
+  let samples = 0;
+
+  for (let gy = 0; gy < gridHeight; gy++) {
+    for (let gx = 0; gx < gridWidth; gx++) {
+      let cellSum = 0;
+      let cellCount = 0;
+      const yEnd = Math.min(height, (gy + 1) * cellSize);
+      const xEnd = Math.min(width, (gx + 1) * cellSize);
+
+      for (let y = gy * cellSize; y < yEnd; y += step) {
+        for (let x = gx * cellSize; x < xEnd; x += step) {
+          cellSum += brightnessAt(data, (y * width + x) * 4);
+          cellCount++;
+        }
+      }
+
+      total += cellSum;
+      samples += cellCount;
+      const i = (gy + 1) * stride + gx + 1;
+      sums[i] = cellSum + sums[i - 1] + sums[i - stride] - sums[i - stride - 1];
+      counts[i] = cellCount + counts[i - 1] + counts[i - stride] - counts[i - stride - 1];
+    }
+  }
+
+  const radius = Math.max(0, Math.round((Math.min(width, height) * 0.1) / cellSize));
+  const local = new Float32Array(gridWidth * gridHeight);
+
+  for (let gy = 0; gy < gridHeight; gy++) {
+    const y0 = Math.max(0, gy - radius);
+    const y1 = Math.min(gridHeight, gy + radius + 1);
+    for (let gx = 0; gx < gridWidth; gx++) {
+      const x0 = Math.max(0, gx - radius);
+      const x1 = Math.min(gridWidth, gx + radius + 1);
+      const a = y0 * stride + x0;
+      const b = y0 * stride + x1;
+      const c = y1 * stride + x0;
+      const d = y1 * stride + x1;
+      local[gy * gridWidth + gx] = (sums[d] - sums[b] - sums[c] + sums[a]) / (counts[d] - counts[b] - counts[c] + counts[a]);
+    }
+  }
+
+  return { average: total / samples, local, gridWidth, gridHeight, cellSize };
+}
+
+/**
+ * Pull the frame towards middle gray, globally and by its local surroundings. offsetX/offsetY
+ * place the frame within the one the statistics were measured on, so tiles match the full frame.
+ */
+export function correctLighting(
+  frame: PixelFrame,
+  strength: number,
+  stats: LightingStatistics,
+  offsetX = 0,
+  offsetY = 0
+): PixelFrame {
+  const { data, width, height } = frame;
+  const { local, gridWidth, gridHeight, cellSize } = stats;
+  const globalCorrection = (TARGET_BRIGHTNESS - stats.average) * strength * 0.5;
+
+  // Bilinear interpolation between cell centres; the column weights are the same on every row
+  const columns = new Int32Array(width * 2);
+  const columnWeights = new Float32Array(width);
+  for (let x = 0; x < width; x++) {
+    const gx = Math.min(gridWidth - 1, Math.max(0, (x + offsetX + 0.5) / cellSize - 0.5));
+    columns[2 * x] = Math.floor(gx);
+    columns[2 * x + 1] = Math.min(gridWidth - 1, columns[2 * x] + 1);
+    columnWeights[x] = gx - columns[2 * x];
+  }
+
+  for (let y = 0; y < height; y++) {
+    const gy = Math.min(gridHeight - 1, Math.max(0, (y + offsetY + 0.5) / cellSize - 0.5));
+    const gy0 = Math.floor(gy);
+    const gy1 = Math.min(gridHeight - 1, gy0 + 1);
+    const fy = gy - gy0;
+
+    for (let x = 0; x < width; x++) {
+      const gx0 = columns[2 * x];
+      const gx1 = columns[2 * x + 1];
+      const fx = columnWeights[x];
+
+      const top = local[gy0 * gridWidth + gx0] + (local[gy0 * gridWidth + gx1] - local[gy0 * gridWidth + gx0]) * fx;
+      const bottom = local[gy1 * gridWidth + gx0] + (local[gy1 * gridWidth + gx1] - local[gy1 * gridWidth + gx0]) * fx;
+      const localAverage = top + (bottom - top) * fy;
+      const correction = globalCorrection + (TARGET_BRIGHTNESS - localAverage) * strength * 0.3;
+
+      const idx = (y * width + x) * 4;
+      data[idx] = clampByte(data[idx] + correction);
+      data[idx + 1] = clampByte(data[idx + 1] + correction);
+      data[idx + 2] = clampByte(data[idx + 2] + correction);
+    }
+  }
+
+  return frame;
+}
+
+/**
+ * Per-channel histogram equalization curves, from an evenly strided sample of the frame
+ */
+export function measureContrast(frame: PixelFrame): ContrastStatistics {
+  const { data, width, height } = frame;
+  const step = Math.max(1, Math.ceil(Math.sqrt((width * height) / MAX_HISTOGRAM_SAMPLES)));
+  const histogram = new Uint32Array(256 * 3);
+  let samples = 0;
+
+  for (let y = 0; y < height; y += step) {
+    for (let x = 0; x < width; x += step) {
+      const idx = (y * width + x) * 4;
+      histogram[data[idx]]++;
+      histogram[256 + data[idx + 1]]++;
+      histogram[512 + data[idx + 2]]++;
+      samples++;
+    }
+  }
+
+  const equalized = new Uint8Array(256 * 3);
+  for (let c = 0; c < 3; c++) {
+    let cumulative = 0;
+    for (let i = 0; i < 256; i++) {
+      cumulative += histogram[c * 256 + i];
+      equalized[c * 256 + i] = Math.round((cumulative / samples) * 255);
+    }
+  }
+
+  return { equalized };
+}
+
+/**
+ * Blend each channel towards its equalized value
+ */
+export function boostContrast(frame: PixelFrame, strength: number, stats: ContrastStatistics): PixelFrame {
+  const { data } = frame;
+  const lookup = new Uint8Array(256 * 3);
+  for (let i = 0; i < lookup.length; i++) {
+    const level = i & 255;
+    lookup[i] = clampByte(level + (stats.equalized[i] - level) * strength);
+  }
+
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = lookup[data[i]];
+    data[i + 1] = lookup[256 + data[i + 1]];
+    data[i + 2] = lookup[512 + data[i + 2]];
+  }
+
+  return frame;
+}
+
+/**
+ * Measure whatever whole-frame statistics a stage needs; empty for stages that need none
+ */
+export function measureFrameStatistics(frame: PixelFrame, stage: PipelineStage): FrameStatistics {
+  switch (stage.type) {
+    case 'lighting-correction':
+      return { lighting: measureLighting(frame) };
+    case 'contrast-boost':
+      return { contrast: measureContrast(frame) };
+    default:
+      return {};
+  }
+}
@@ -0,0 +1,224 @@
+/**
+ * Offline export of an enhanced, frame-rate converted video.
+ * Source frames are read by seeking the video element frame by frame, so nothing is dropped;
+ * the result is encoded with MediaRecorder from a canvas stream.
+ */
+
+import { convertFrameRate, type InterpolationMode } from './frameInterpolation';
+import { fromImageData, writeCanvasFrame, type PixelFrame } from './pixelFrame';
+import { evaluateClip, type ClipQualitySummary, type FrameQualityMetrics } from './qualityMetrics';
+
+export interface VideoExportOptions {
+  sourceFps: number;
+  targetFps: number;
+  interpolation?: InterpolationMode;
+  /** Per-frame enhancement applied before interpolation */
+  enhance?: (frame: PixelFrame) => PixelFrame | Promise<PixelFrame>;
+  mimeType?: string;
+  videoBitsPerSecond?: number;
+  onProgress?: (progress: number) => void;
+  signal?: AbortSignal;
+}
+
+export interface VideoComparisonOptions {
+  /** Frames per second of media time to score */
+  sampleFps: number;
+  onProgress?: (progress: number) => void;
+  signal?: AbortSignal;
+}
+
+const PREFERRED_MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+export function isVideoExportSupported(): boolean {
+  return typeof MediaRecorder !== 'undefined' &&
+    typeof HTMLCanvasElement !== 'undefined' &&
+    'captureStream' in HTMLCanvasElement.prototype;
+}
+
+function seek(video: HTMLVideoElement, time: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onSeeked = () => {
+      video.removeEventListener('error', onError);
+      resolve();
+    };
+    const onError = () => {
+      video.removeEventListener('seeked', onSeeked);
+      reject(new Error('Video failed while seeking for export'));
+    };
+    video.addEventListener('seeked', onSeeked, { once: true });
+    video.addEventListener('error', onError, { once: true });
+    video.currentTime = time;
+  });
+}
+
+async function* readFrames(video: HTMLVideoElement, options: VideoExportOptions): AsyncGenerator<PixelFrame> {
+  const canvas = document.createElement('canvas');
+  canvas.width = video.videoWidth;
+  canvas.height = video.videoHeight;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  const frameCount = Math.floor(video.duration * options.sourceFps);
+
+  for (let i = 0; i < frameCount; i++) {
+    if (options.signal?.aborted) {
+      throw new Error('Export cancelled');
+    }
+
+    // Aim at the middle of the frame so rounding never lands on its neighbour
+    await seek(video, (i + 0.5) / options.sourceFps);
+    ctx.drawImage(video, 0, 0);
+
+    const frame = fromImageData(ctx.getImageData(0, 0, canvas.width, canvas.height));
+    yield options.enhance ? await options.enhance(frame) : frame;
+    options.onProgress?.((i + 1) / frameCount);
+  }
+}
+
+/**
+ * Export the whole video at the target frame rate. MediaRecorder timestamps frames as they
+ * arrive, so output frames are paced at the target rate and the export takes at least the
+ * clip's duration.
+ */
+export async function exportInterpolatedVideo(video: HTMLVideoElement, options: VideoExportOptions): Promise<Blob> {
+  if (!isVideoExportSupported()) {
+    throw new Error('Video export is not supported in this browser');
+  }
+  // Live and still-loading sources have no frame count to read up to
+  if (!Number.isFinite(video.duration)) {
+    throw new Error('Only videos of known duration can be exported');
+  }
+
+  const mimeType = options.mimeType ?? PREFERRED_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type)) ?? 'video/webm';
+  const wasPaused = video.paused;
+  const startPosition = video.currentTime;
+  video.pause();
+
+  const chunks: Blob[] = [];
+  let recording: { recorder: MediaRecorder; stream: MediaStream; stopped: Promise<void> } | null = null;
+
+  try {
+    const frames = convertFrameRate(readFrames(video, options), options.sourceFps, options.targetFps, options.interpolation);
+
+    // Enhancement may change the frame size, and a recording must not change size once started,
+    // so the canvas takes the first output frame's size before the recorder starts
+    const first = await frames.next();
+    if (first.done) {
+      throw new Error('The video has no frames to export');
+    }
+    const canvas = document.createElement('canvas');
+    canvas.width = first.value.width;
+    canvas.height = first.value.height;
+
+    const stream = canvas.captureStream(0);
+    const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+    const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: options.videoBitsPerSecond });
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    const stopped = new Promise<void>(resolve => {
+      recorder.onstop = () => resolve();
+    });
+    recording = { recorder, stream, stopped };
+
+    recorder.start();
+    const frameInterval = 1000 / options.targetFps;
+    let nextFrameTime = performance.now();
+
+    for (let result: IteratorResult<PixelFrame> = first; !result.done; result = await frames.next()) {
+      writeCanvasFrame(canvas, result.value);
+      track.requestFrame();
+
+      nextFrameTime += frameInterval;
+      const wait = nextFrameTime - performance.now();
+      if (wait > 0) {
+        await new Promise(resolve => setTimeout(resolve, wait));
+      }
+    }
+  } finally {
+    if (recording) {
+      recording.recorder.stop();
+      await recording.stopped;
+      recording.stream.getTracks().forEach(streamTrack => streamTrack.stop());
+    }
+
+    await seek(video, startPosition).catch(() => undefined);
+    if (!wasPaused) {
+      video.play().catch(() => undefined);
+    }
+  }
+
+  return new Blob(chunks, { type: mimeType });
+}
+
+function grabFrame(video: HTMLVideoElement, ctx: CanvasRenderingContext2D): PixelFrame {
+  ctx.canvas.width = video.videoWidth;
+  ctx.canvas.height = video.videoHeight;
+  ctx.drawImage(video, 0, 0);
+  return fromImageData(ctx.getImageData(0, 0, video.videoWidth, video.videoHeight));
+}
+
+/**
+ * Score a test video (e.g. an enhanced export) against a reference video frame by frame.
+ * Both are seeked to the same media times; a larger test video is downscaled to the reference size.
+ */
+export async function compareVideos(
+  reference: HTMLVideoElement,
+  test: HTMLVideoElement,
+  options: VideoComparisonOptions
+): Promise<{ frames: FrameQualityMetrics[]; summary: ClipQualitySummary }> {
+  const referenceCtx = document.createElement('canvas').getContext('2d', { willReadFrequently: true })!;
+  const testCtx = document.createElement('canvas').getContext('2d', { willReadFrequently: true })!;
+  const frameCount = Math.floor(Math.min(reference.duration, test.duration) * options.sampleFps);
+  reference.pause();
+  test.pause();
+
+  async function* pairs(): AsyncGenerator<[PixelFrame, PixelFrame]> {
+    for (let i = 0; i < frameCount; i++) {
+      if (options.signal?.aborted) {
+        throw new Error('Comparison cancelled');
+      }
+
+      const time = (i + 0.5) / options.sampleFps;
+      await Promise.all([seek(reference, time), seek(test, time)]);
+      yield [grabFrame(reference, referenceCtx), grabFrame(test, testCtx)];
+      options.onProgress?.((i + 1) / frameCount);
+    }
+  }
+
+  return evaluateClip(pairs(), options.sampleFps);
+}
+
+/**
+ * Grab frames spread evenly over a video for analysis. A second element on the same source
+ * does the seeking, so playback of the original is not disturbed. Sources a second element
+ * cannot open (MediaSource streams) reject.
+ */
+export async function sampleVideoFrames(video: HTMLVideoElement, count: number, maxWidth = 640): Promise<PixelFrame[]> {
+  const sampler = document.createElement('video');
+  sampler.crossOrigin = video.crossOrigin;
+  sampler.muted = true;
+  sampler.preload = 'auto';
+  sampler.src = video.currentSrc || video.src;
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      sampler.addEventListener('loadeddata', () => resolve(), { once: true });
+      sampler.addEventListener('error', () => reject(new Error('Could not open video for sampling')), { once: true });
+    });
+
+    const scale = Math.min(1, maxWidth / sampler.videoWidth);
+    const ctx = document.createElement('canvas').getContext('2d', { willReadFrequently: true })!;
+    ctx.canvas.width = Math.max(1, Math.round(sampler.videoWidth * scale));
+    ctx.canvas.height = Math.max(1, Math.round(sampler.videoHeight * scale));
+
+    const frames: PixelFrame[] = [];
+    for (let i = 0; i < count; i++) {
+      await seek(sampler, ((i + 0.5) / count) * sampler.duration);
+      ctx.drawImage(sampler, 0, 0, ctx.canvas.width, ctx.canvas.height);
+      frames.push(fromImageData(ctx.getImageData(0, 0, ctx.canvas.width, ctx.canvas.height)));
+    }
+    return frames;
+  } finally {
+    sampler.removeAttribute('src');
+    sampler.load();
+  }
+}
@@ -3,12 +3,29 @@
  */
 
 export interface VideoInfo {
-  type: 'youtube' | 'youtube-live' | 'youtube-shorts' | 'dailymotion' | 'vimeo' | 'direct' | 'instagram' | 'tiktok' | 'unknown';
+  type: 'youtube' | 'youtube-live' | 'youtube-shorts' | 'dailymotion' | 'vimeo' | 'direct' | 'local' | 'instagram' | 'tiktok' | 'unknown';
   embedUrl?: string;
   originalUrl: string;
   videoId?: string;
   isLive?: boolean;
   alternativeUrls?: string[];
+  /** Set for 'local' videos, whose originalUrl is an object URL for the file */
+  file?: LocalFileInfo;
+}
+
+/**
+ * A video picked from the user's disk
+ */
+export interface LocalFileInfo {
+  name: string;
+  /** Path inside a dropped or picked folder, or the name for single files */
+  path: string;
+  size: number;
+  mimeType: string;
+  lastModified: number;
+  duration?: number;
+  width?: number;
+  height?: number;
 }
 
 /**
@@ -287,7 +304,7 @@ export function processVideoUrl(url: string): VideoInfo {
   }
 
   // Direct video URL detection
-  const videoExtensions = ['.mp4', '.webm', '.ogg', '.mov', '.avi', '.mkv', '.m3u8', '.ts'];
+  const videoExtensions = ['.mp4', '.webm', '.ogg', '.mov', '.avi', '.mkv', '.m3u8', '.mpd', '.ts'];
   const hasVideoExtension = videoExtensions.some(ext => normalizedUrl.includes(ext));
   
   if (hasVideoExtension || normalizedUrl.includes('blob:') || normalizedUrl.includes('stream')) {
@@ -0,0 +1,65 @@
+/**
+ * Enhancement Web Worker
+ * Runs the AIUpscaler filters on OffscreenCanvas so frame processing never blocks the UI thread.
+ * On machines with cores to spare, stripe-parallel filters fan out further to a pool of nested workers.
+ */
+
+import { AIUpscaler } from '../utils/aiUpscaler';
+import { registerLut } from '../utils/colorLut';
+import { StripeWorkerPool, getDefaultPoolSize } from '../utils/stripeWorkerPool';
+import type { EnhancementWorkerMessage, EnhancementWorkerResponse } from '../utils/enhancementService';
+
+const stripePool = StripeWorkerPool.isSupported() && getDefaultPoolSize() >= 3 ? new StripeWorkerPool() : undefined;
+const upscaler = new AIUpscaler(stripePool);
+
+/**
+ * Read pixels out of a transferred ImageBitmap and release it
+ */
+function bitmapToImageData(bitmap: ImageBitmap): ImageData {
+  const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+}
+
+self.onmessage = async (event: MessageEvent<EnhancementWorkerMessage>) => {
+  if (event.data.type === 'reset') {
+    upscaler.temporalDenoiser.reset();
+    return;
+  }
+
+  if (event.data.type === 'lut') {
+    registerLut(event.data.lut);
+    return;
+  }
+
+  const { id, frame, width, height, config } = event.data;
+  const startTime = performance.now();
+
+  try {
+    const imageData = frame instanceof ImageBitmap
+      ? bitmapToImageData(frame)
+      : new ImageData(new Uint8ClampedArray(frame), width, height);
+
+    const enhanced = await upscaler.enhanceImageData(imageData, config);
+    const buffer = enhanced.data.buffer as ArrayBuffer;
+
+    const response: EnhancementWorkerResponse = {
+      id,
+      type: 'frame',
+      buffer,
+      width: enhanced.width,
+      height: enhanced.height,
+      processingTime: performance.now() - startTime
+    };
+    self.postMessage(response, { transfer: [buffer] });
+  } catch (error) {
+    const response: EnhancementWorkerResponse = {
+      id,
+      type: 'error',
+      message: error instanceof Error ? error.message : 'Frame enhancement failed'
+    };
+    self.postMessage(response);
+  }
+};
@@ -0,0 +1,27 @@
+/**
+ * Stripe Web Worker
+ * Applies one convolution-style filter to a horizontal stripe (halo rows included)
+ */
+
+import { applyStripeFilter } from '../utils/aiUpscaler';
+import type { StripeWorkerRequest, StripeWorkerResponse } from '../utils/stripeWorkerPool';
+
+self.onmessage = (event: MessageEvent<StripeWorkerRequest>) => {
+  const { id, buffer, width, height, filter, strength, matrix } = event.data;
+
+  try {
+    const stripe = { data: new Uint8ClampedArray(buffer), width, height };
+    const filtered = applyStripeFilter(stripe, filter, strength, matrix);
+    const result = filtered.data.buffer as ArrayBuffer;
+
+    const response: StripeWorkerResponse = { id, type: 'stripe', buffer: result };
+    self.postMessage(response, { transfer: [result] });
+  } catch (error) {
+    const response: StripeWorkerResponse = {
+      id,
+      type: 'error',
+      message: error instanceof Error ? error.message : 'Stripe filtering failed'
+    };
+    self.postMessage(response);
+  }
+};